@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+
+import { CLI } from '../cli';
+
+CLI.run(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,361 @@
+import {
+  IconifyLoaderOptions,
+  ConfigJob,
+  GenerationResult,
+  OutputFormat,
+  ColorTheme,
+  ValidationError,
+  OUTPUT_FORMATS
+} from '../types';
+import { IconifyLoader } from '../core/iconify-loader';
+import { ConfigLoader } from '../core/config-loader';
+import { Diagnostics } from '../utils/diagnostics';
+
+/**
+ * Parsed command-line arguments
+ */
+export interface CLIArguments {
+  options: Partial<IconifyLoaderOptions>;
+  config?: string;
+  jobs: string[];
+  watch: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+/**
+ * Command-line interface for IconifyLoader
+ */
+export class CLI {
+  private static readonly USAGE = `Usage: iconify-loader --input <dir> --format <${OUTPUT_FORMATS.join('|')}> [options]
+       iconify-loader [--config <file>] [--job <name>] [options]
+
+Options:
+  -i, --input <dir>       Directory containing SVG files (required without a config file)
+  -o, --out <dir>         Output directory
+  -f, --format <format>   Output format: ${OUTPUT_FORMATS.join(', ')} (required without a config file)
+  -c, --config <file>     Config file (default: nearest iconify-loader.config.{ts,js,cjs,json})
+      --job <name>        Only run the named config job (repeatable)
+      --no-optimize       Skip SVGO optimization
+      --cache             Reuse output for unchanged icons between runs
+      --cache-dir <dir>   Cache directory (default: node_modules/.cache/iconify-loader)
+      --concurrency <n>   Number of files processed in parallel (default: 8)
+      --continue-on-error Skip invalid files and report them as diagnostics;
+                          still exits with code 1 when any file was skipped
+      --ignore <pattern>  Ignore paths matching pattern (repeatable, comma-separated)
+      --iconify-collection <file>
+                          Also read icons from an Iconify JSON collection (repeatable)
+      --declarations      Also emit the IconName union and icon registry (icon-names.ts)
+      --sanitize          Remove scripts, event handlers and external references
+      --normalize-colors  Rewrite single-colour icons to currentColor
+      --color-theme <mode>
+                          Theme icon colours through css-variables or props
+      --typescript        Generate TypeScript output (default)
+      --no-typescript     Generate JavaScript output
+  -w, --watch             Watch the input directory and regenerate on changes
+  -v, --verbose           Enable verbose logging
+  -h, --help              Show this help
+      --version           Show version`;
+
+  /**
+   * Runs the CLI and resolves with the process exit code
+   */
+  static async run(argv: string[]): Promise<number> {
+    let args: CLIArguments;
+
+    try {
+      args = this.parseArgs(argv);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`\n${this.USAGE}`);
+      return 1;
+    }
+
+    if (args.help) {
+      console.log(this.USAGE);
+      return 0;
+    }
+
+    if (args.version) {
+      console.log(require('../../package.json').version);
+      return 0;
+    }
+
+    try {
+      const jobs = await this.resolveJobs(args);
+
+      if (args.watch) {
+        return await this.watch(jobs);
+      }
+
+      let failed = false;
+
+      for (const job of jobs) {
+        if (jobs.length > 1) {
+          console.log(`[${job.name}]`);
+        }
+        const result = await IconifyLoader.load(job.options);
+        this.printSummary(result);
+        // Files skipped with --continue-on-error leave an error diagnostic behind
+        failed = failed
+          || result.errors.length > 0
+          || result.diagnostics.some(diagnostic => diagnostic.severity === 'error');
+      }
+
+      return failed ? 1 : 0;
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return 1;
+    }
+  }
+
+  /**
+   * Maps command-line flags to IconifyLoader options
+   */
+  static parseArgs(argv: string[]): CLIArguments {
+    const options: Partial<IconifyLoaderOptions> = {};
+    const ignorePatterns: string[] = [];
+    const iconifyCollections: string[] = [];
+    const jobs: string[] = [];
+    let config: string | undefined;
+    let watch = false;
+    let help = false;
+    let version = false;
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i] as string;
+      const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+        ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+        : [arg, undefined];
+
+      const readValue = (): string => {
+        const value = inlineValue ?? argv[++i];
+        if (value === undefined || (inlineValue === undefined && value.startsWith('-'))) {
+          throw new ValidationError(`Missing value for ${flag}`, { flag });
+        }
+        return value;
+      };
+
+      switch (flag) {
+        case '-i':
+        case '--input':
+          options.inputDir = readValue();
+          break;
+        case '-o':
+        case '--out':
+          options.outputDir = readValue();
+          break;
+        case '-f':
+        case '--format': {
+          const format = readValue() as OutputFormat;
+          if (!OUTPUT_FORMATS.includes(format)) {
+            throw new ValidationError(
+              `Invalid format "${format}". Must be one of: ${OUTPUT_FORMATS.join(', ')}`,
+              { format, validFormats: OUTPUT_FORMATS }
+            );
+          }
+          options.format = format;
+          break;
+        }
+        case '-c':
+        case '--config':
+          config = readValue();
+          break;
+        case '--job':
+          jobs.push(readValue());
+          break;
+        case '--no-optimize':
+          options.optimize = false;
+          break;
+        case '--cache':
+          options.cache = true;
+          break;
+        case '--cache-dir':
+          options.cache = true;
+          options.cacheDir = readValue();
+          break;
+        case '--concurrency': {
+          const value = readValue();
+          const concurrency = Number(value);
+          if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new ValidationError(
+              `Invalid concurrency "${value}". Must be a positive integer`,
+              { concurrency: value }
+            );
+          }
+          options.concurrency = concurrency;
+          break;
+        }
+        case '--continue-on-error':
+          options.failOnError = false;
+          break;
+        case '--ignore':
+          ignorePatterns.push(...readValue().split(',').map(pattern => pattern.trim()).filter(Boolean));
+          break;
+        case '--iconify-collection':
+          iconifyCollections.push(readValue());
+          break;
+        case '--declarations':
+          options.declarations = true;
+          break;
+        case '--sanitize':
+          options.sanitize = true;
+          break;
+        case '--normalize-colors':
+          options.colorOptions = { ...options.colorOptions, normalize: true };
+          break;
+        case '--color-theme': {
+          const theme = readValue() as ColorTheme;
+          if (theme !== 'css-variables' && theme !== 'props') {
+            throw new ValidationError(
+              `Invalid color theme "${theme}". Must be one of: css-variables, props`,
+              { theme }
+            );
+          }
+          options.colorOptions = { ...options.colorOptions, theme };
+          break;
+        }
+        case '--typescript':
+          options.typescript = true;
+          break;
+        case '--no-typescript':
+          options.typescript = false;
+          break;
+        case '-w':
+        case '--watch':
+          watch = true;
+          break;
+        case '-v':
+        case '--verbose':
+          options.verbose = true;
+          break;
+        case '-h':
+        case '--help':
+          help = true;
+          break;
+        case '--version':
+          version = true;
+          break;
+        default:
+          throw new ValidationError(`Unknown option: ${arg}`, { option: arg });
+      }
+    }
+
+    if (ignorePatterns.length > 0) {
+      options.ignorePatterns = [
+        ...(IconifyLoader.getDefaultOptions().ignorePatterns || []),
+        ...ignorePatterns
+      ];
+    }
+
+    if (iconifyCollections.length > 0) {
+      options.iconifyCollections = iconifyCollections;
+    }
+
+    return {
+      options,
+      ...(config !== undefined && { config }),
+      jobs,
+      watch,
+      help,
+      version
+    };
+  }
+
+  /**
+   * Watches every job until the process is interrupted
+   */
+  private static watch(jobs: ConfigJob[]): Promise<number> {
+    return new Promise(resolve => {
+      const watchers = jobs.map(job => {
+        const watcher = new IconifyLoader(job.options).watch();
+
+        watcher.on('run', (result: GenerationResult) => {
+          if (jobs.length > 1) {
+            console.log(`[${job.name}]`);
+          }
+          this.printSummary(result);
+        });
+        watcher.on('error', (error: Error) => {
+          console.error(`Error: ${error.message}`);
+        });
+
+        return watcher;
+      });
+
+      console.log('Watching for changes... (press Ctrl+C to stop)');
+
+      process.once('SIGINT', () => {
+        Promise.all(watchers.map(watcher => watcher.close())).then(() => resolve(0));
+      });
+    });
+  }
+
+  /**
+   * Resolves the jobs to run from flags and/or a config file.
+   * Flags override the values of every config job.
+   */
+  private static async resolveJobs(args: CLIArguments): Promise<ConfigJob[]> {
+    const configPath = args.config
+      ?? (args.options.inputDir ? null : await ConfigLoader.findConfigFile());
+
+    if (!configPath) {
+      return [{
+        name: 'default',
+        options: IconifyLoader.mergeOptions(this.toLoaderOptions(args.options))
+      }];
+    }
+
+    const jobs = await IconifyLoader.loadConfig(configPath);
+
+    for (const name of args.jobs) {
+      if (!jobs.some(job => job.name === name)) {
+        throw new ValidationError(
+          `Unknown job "${name}". Available jobs: ${jobs.map(job => job.name).join(', ')}`,
+          { job: name }
+        );
+      }
+    }
+
+    return jobs
+      .filter(job => args.jobs.length === 0 || args.jobs.includes(job.name))
+      .map(job => ({ name: job.name, options: { ...job.options, ...args.options } }));
+  }
+
+  /**
+   * Ensures the required options were provided
+   */
+  private static toLoaderOptions(options: Partial<IconifyLoaderOptions>): IconifyLoaderOptions {
+    if (!options.inputDir) {
+      throw new ValidationError('Missing required option --input');
+    }
+    if (!options.format) {
+      throw new ValidationError('Missing required option --format');
+    }
+    return options as IconifyLoaderOptions;
+  }
+
+  /**
+   * Prints a summary of the generation result
+   */
+  private static printSummary(result: GenerationResult): void {
+    console.log(`Generated ${result.files.length} files`);
+
+    if (result.diagnostics.length > 0) {
+      console.warn(`Diagnostics (${result.diagnostics.length}):`);
+      result.diagnostics.forEach(diagnostic => {
+        console.warn(`  ${diagnostic.severity}: ${Diagnostics.format(diagnostic)}`);
+      });
+    }
+
+    if (result.warnings.length > 0) {
+      console.warn(`Warnings (${result.warnings.length}):`);
+      result.warnings.forEach(warning => console.warn(`  - ${warning}`));
+    }
+
+    if (result.errors.length > 0) {
+      console.error(`Errors (${result.errors.length}):`);
+      result.errors.forEach(error => console.error(`  - ${error}`));
+    }
+  }
+}
@@ -0,0 +1,377 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  IconifyLoaderConfig,
+  IconifyLoaderOptions,
+  ConfigJob,
+  ReactOptions,
+  ValidationError,
+  FileSystemError,
+  OUTPUT_FORMATS
+} from '../types';
+import { ModuleLoader } from '../utils/module-loader';
+import { FontGenerator } from '../generators/font-generator';
+
+/**
+ * Expected type of an option: a primitive, one of a set of values (or an array of them),
+ * an object with options of its own, or any of several types
+ */
+type OptionType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'object'
+  | 'function'
+  | 'string[]'
+  | { oneOf: readonly string[]; array?: boolean }
+  | { options: Record<string, OptionType> }
+  | { anyOf: OptionType[] };
+
+/**
+ * Discovers, loads and validates iconify-loader config files
+ */
+export class ConfigLoader {
+  static readonly CONFIG_FILES = [
+    'iconify-loader.config.ts',
+    'iconify-loader.config.js',
+    'iconify-loader.config.cjs',
+    'iconify-loader.config.json'
+  ];
+
+  private static readonly OPTION_TYPES: Record<keyof IconifyLoaderOptions, OptionType> = {
+    inputDir: 'string',
+    outputDir: 'string',
+    format: { oneOf: OUTPUT_FORMATS },
+    svgoOptions: 'object',
+    optimize: 'boolean',
+    generateIndex: 'boolean',
+    typescript: 'boolean',
+    reactComponentName: 'function',
+    svgProps: 'object',
+    fileNameFormatter: 'function',
+    includeSubdirs: 'boolean',
+    ignorePatterns: 'string[]',
+    verbose: 'boolean',
+    cache: 'boolean',
+    cacheDir: 'string',
+    concurrency: 'number',
+    failOnError: 'boolean',
+    fontOptions: {
+      options: {
+        fontName: 'string',
+        types: { oneOf: FontGenerator.FONT_TYPES, array: true },
+        stylesheets: { oneOf: FontGenerator.STYLESHEETS, array: true },
+        classPrefix: 'string',
+        fontUrl: 'string',
+        startCodepoint: 'number'
+      }
+    },
+    vueOptions: {
+      options: {
+        mode: { oneOf: ['sfc', 'render'] }
+      }
+    },
+    webComponentOptions: {
+      options: {
+        mode: { oneOf: ['element', 'set'] },
+        tagPrefix: 'string',
+        setTagName: 'string',
+        shadow: 'boolean'
+      }
+    },
+    iconifyOptions: {
+      options: {
+        prefix: 'string'
+      }
+    },
+    iconifyCollections: 'string[]',
+    reactOptions: {
+      options: {
+        forwardRef: 'boolean',
+        memo: 'boolean',
+        dynamicIcon: 'boolean',
+        template: { anyOf: ['function', 'string'] },
+        indexTemplate: { anyOf: ['function', 'string'] }
+      }
+    },
+    declarations: 'boolean',
+    colorOptions: {
+      options: {
+        normalize: 'boolean',
+        theme: { oneOf: ['css-variables', 'props'] },
+        variablePrefix: 'string'
+      }
+    },
+    strokeOptions: {
+      options: {
+        strokeWidth: 'number',
+        absoluteStrokeWidth: 'boolean'
+      }
+    },
+    sanitize: 'boolean',
+    sanitizeOptions: {
+      options: {
+        scripts: 'boolean',
+        eventHandlers: 'boolean',
+        javascriptUrls: 'boolean',
+        externalReferences: 'boolean',
+        foreignObjects: 'boolean',
+        remoteImports: 'boolean'
+      }
+    }
+  };
+
+  /**
+   * Finds the nearest config file, searching from cwd up to the filesystem root
+   */
+  static async findConfigFile(cwd: string = process.cwd()): Promise<string | null> {
+    let dir = path.resolve(cwd);
+
+    for (;;) {
+      for (const fileName of this.CONFIG_FILES) {
+        const candidate = path.join(dir, fileName);
+        try {
+          const stats = await fs.stat(candidate);
+          if (stats.isFile()) {
+            return candidate;
+          }
+        } catch {
+          // Not found, keep looking
+        }
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * Loads a config file and resolves it into named jobs
+   */
+  static async loadConfig(configPath?: string, cwd: string = process.cwd()): Promise<ConfigJob[]> {
+    const filePath = configPath
+      ? path.resolve(cwd, configPath)
+      : await this.findConfigFile(cwd);
+
+    if (!filePath) {
+      throw new ValidationError(
+        `No config file found. Expected one of: ${this.CONFIG_FILES.join(', ')}`,
+        { cwd }
+      );
+    }
+
+    const config = await this.loadConfigFile(filePath);
+    this.validateConfig(config, filePath);
+
+    return this.resolveJobs(config, path.dirname(filePath), filePath);
+  }
+
+  /**
+   * Reads and evaluates a config file
+   */
+  static async loadConfigFile(filePath: string): Promise<IconifyLoaderConfig> {
+    let source: string;
+
+    try {
+      source = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to read config file: ${filePath}`,
+        { originalError: error, filePath }
+      );
+    }
+
+    const extension = path.extname(filePath).toLowerCase();
+
+    try {
+      if (extension === '.json') {
+        return JSON.parse(source);
+      }
+
+      const config = ModuleLoader.evaluate(source, filePath);
+
+      return typeof config === 'function' ? await config() : config;
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new ValidationError(
+        `Failed to load config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { originalError: error, filePath }
+      );
+    }
+  }
+
+  /**
+   * Validates config values, reporting the offending key path
+   */
+  static validateConfig(config: unknown, filePath?: string): asserts config is IconifyLoaderConfig {
+    if (!this.isPlainObject(config)) {
+      throw new ValidationError('Config must export an object', { filePath });
+    }
+
+    const { jobs, ...shared } = config as Record<string, unknown>;
+    this.validateOptionValues(shared, this.OPTION_TYPES, '', filePath);
+
+    if (jobs !== undefined) {
+      if (!this.isPlainObject(jobs)) {
+        this.fail('jobs', 'expected an object of named jobs', jobs, filePath);
+      }
+
+      const jobEntries = Object.entries(jobs as Record<string, unknown>);
+      if (jobEntries.length === 0) {
+        this.fail('jobs', 'expected at least one job', jobs, filePath);
+      }
+
+      for (const [name, job] of jobEntries) {
+        if (!this.isPlainObject(job)) {
+          this.fail(`jobs.${name}`, 'expected an object', job, filePath);
+        }
+        this.validateOptionValues(job as Record<string, unknown>, this.OPTION_TYPES, `jobs.${name}.`, filePath);
+      }
+    }
+  }
+
+  /**
+   * Resolves shared options and named jobs into complete loader options
+   */
+  static resolveJobs(config: IconifyLoaderConfig, baseDir: string, filePath?: string): ConfigJob[] {
+    const { jobs, ...shared } = config;
+    const entries: Array<[string, Partial<IconifyLoaderOptions>]> = jobs
+      ? Object.entries(jobs)
+      : [['default', {}]];
+
+    return entries.map(([name, job]) => {
+      const options = { ...shared, ...job };
+      const keyPath = jobs ? `jobs.${name}.` : '';
+
+      if (!options.inputDir) {
+        this.fail(`${keyPath}inputDir`, 'is required', undefined, filePath);
+      }
+      if (!options.format) {
+        this.fail(`${keyPath}format`, 'is required', undefined, filePath);
+      }
+
+      const resolved = options as IconifyLoaderOptions;
+      resolved.inputDir = path.resolve(baseDir, resolved.inputDir);
+      if (resolved.outputDir) {
+        resolved.outputDir = path.resolve(baseDir, resolved.outputDir);
+      }
+      if (resolved.iconifyCollections) {
+        resolved.iconifyCollections = resolved.iconifyCollections.map(file => path.resolve(baseDir, file));
+      }
+      if (resolved.reactOptions) {
+        resolved.reactOptions = this.resolveTemplatePaths(resolved.reactOptions, baseDir);
+      }
+
+      return { name, options: resolved };
+    });
+  }
+
+  /**
+   * Validates each option value against its expected type
+   */
+  private static validateOptionValues(
+    values: Record<string, unknown>,
+    types: Record<string, OptionType>,
+    prefix: string,
+    filePath?: string
+  ): void {
+    for (const [key, value] of Object.entries(values)) {
+      const keyPath = `${prefix}${key}`;
+      const expected = Object.prototype.hasOwnProperty.call(types, key) ? types[key] : undefined;
+
+      if (!expected) {
+        this.fail(keyPath, 'unknown option', value, filePath);
+      }
+      if (value !== undefined) {
+        this.validateValue(value, expected as OptionType, keyPath, filePath);
+      }
+    }
+  }
+
+  /**
+   * Validates a value against its expected type, descending into nested options and arrays
+   */
+  private static validateValue(value: unknown, expected: OptionType, keyPath: string, filePath?: string): void {
+    if (typeof expected === 'object') {
+      if ('options' in expected) {
+        if (!this.isPlainObject(value)) {
+          this.fail(keyPath, 'expected an object', value, filePath);
+        }
+        this.validateOptionValues(value as Record<string, unknown>, expected.options, `${keyPath}.`, filePath);
+      } else if ('anyOf' in expected) {
+        if (!expected.anyOf.some(type => this.matches(value, type))) {
+          this.fail(keyPath, `expected ${expected.anyOf.map(type => this.describe(type)).join(' or ')}`, value, filePath);
+        }
+      } else if (expected.array) {
+        if (!Array.isArray(value)) {
+          this.fail(keyPath, 'expected an array', value, filePath);
+        }
+        (value as unknown[]).forEach((item, index) =>
+          this.validateValue(item, { oneOf: expected.oneOf }, `${keyPath}[${index}]`, filePath)
+        );
+      } else if (!expected.oneOf.includes(value as string)) {
+        this.fail(keyPath, `expected one of: ${expected.oneOf.join(', ')}`, value, filePath);
+      }
+      return;
+    }
+
+    if (expected === 'string[]') {
+      if (!Array.isArray(value)) {
+        this.fail(keyPath, 'expected an array of strings', value, filePath);
+      }
+      (value as unknown[]).forEach((item, index) => this.validateValue(item, 'string', `${keyPath}[${index}]`, filePath));
+      return;
+    }
+
+    if (!this.matches(value, expected)) {
+      this.fail(keyPath, `expected ${this.describe(expected)}`, value, filePath);
+    }
+  }
+
+  /**
+   * Checks a value against a primitive type
+   */
+  private static matches(value: unknown, type: OptionType): boolean {
+    return type === 'object' ? this.isPlainObject(value) : typeof value === type;
+  }
+
+  private static describe(type: OptionType): string {
+    return typeof type === 'string' ? `${type === 'object' ? 'an' : 'a'} ${type}` : 'a value';
+  }
+
+  /**
+   * Resolves React template file paths against the config directory
+   */
+  private static resolveTemplatePaths(reactOptions: ReactOptions, baseDir: string): ReactOptions {
+    const { template, indexTemplate } = reactOptions;
+
+    return {
+      ...reactOptions,
+      ...(typeof template === 'string' && { template: path.resolve(baseDir, template) }),
+      ...(typeof indexTemplate === 'string' && { indexTemplate: path.resolve(baseDir, indexTemplate) })
+    };
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static fail(keyPath: string, reason: string, value: unknown, filePath?: string): never {
+    throw new ValidationError(
+      `Invalid config at "${keyPath}"${filePath ? ` in ${filePath}` : ''}: ${reason}`,
+      { path: keyPath, value, filePath }
+    );
+  }
+}
+
+/**
+ * Identity helper that provides type checking for config files
+ */
+export function defineConfig(config: IconifyLoaderConfig): IconifyLoaderConfig {
+  return config;
+}
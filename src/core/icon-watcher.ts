@@ -0,0 +1,340 @@
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { promises as fs, watch as fsWatch, FSWatcher } from 'fs';
+import {
+  IconifyLoaderOptions,
+  ProcessedSVG,
+  GenerationResult,
+  Diagnostic,
+  FileInfo,
+  FileSystemError
+} from '../types';
+import { FileReader } from '../utils/file-reader';
+import { Diagnostics } from '../utils/diagnostics';
+import type { IconifyLoader } from './iconify-loader';
+
+/**
+ * Watches the input directory and incrementally regenerates output.
+ *
+ * Events:
+ * - `run` (result: GenerationResult) after every build, including the initial one
+ * - `ready` once the initial build has finished and directories are watched
+ * - `error` (error: Error) when a build fails unexpectedly
+ */
+export class IconWatcher extends EventEmitter {
+  private static readonly DEBOUNCE_MS = 100;
+
+  private readonly watchers = new Map<string, FSWatcher>();
+  private readonly icons = new Map<string, ProcessedSVG>();
+  private readonly outputs = new Map<string, string[]>();
+  private readonly pending = new Set<string>();
+  private readonly collectionIcons = new Map<string, FileInfo>();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private closed = false;
+
+  constructor(
+    private readonly loader: IconifyLoader,
+    private readonly options: IconifyLoaderOptions
+  ) {
+    super();
+  }
+
+  /**
+   * Runs the initial build and starts watching for changes
+   */
+  async start(): Promise<this> {
+    const inputDir = path.resolve(this.options.inputDir);
+
+    if (!(await FileReader.directoryExists(inputDir))) {
+      throw new FileSystemError(
+        `Input directory does not exist: ${inputDir}`,
+        { inputDir }
+      );
+    }
+
+    await this.watchDirectory(inputDir);
+
+    const files = await FileReader.listSVGFiles(
+      inputDir,
+      this.options.includeSubdirs,
+      this.options.ignorePatterns
+    );
+
+    // Iconify collections are read once; only the input directory is watched
+    for (const file of await FileReader.readIconifyCollections(this.options.iconifyCollections || [])) {
+      this.collectionIcons.set(file.path, file);
+      files.push(file);
+    }
+
+    await this.enqueue(() => this.rebuild(files.map(file => file.path), []));
+
+    this.emit('ready');
+    return this;
+  }
+
+  /**
+   * Stops watching and waits for any in-flight build
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  /**
+   * Watches a directory and, when enabled, its subdirectories
+   */
+  private async watchDirectory(dirPath: string): Promise<void> {
+    if (this.closed || this.watchers.has(dirPath)) {
+      return;
+    }
+
+    const watcher = fsWatch(dirPath, (_event, fileName) => {
+      this.schedule(fileName ? path.join(dirPath, fileName.toString()) : dirPath);
+    });
+    watcher.on('error', () => this.unwatchDirectory(dirPath));
+    this.watchers.set(dirPath, watcher);
+
+    if (!this.options.includeSubdirs) {
+      return;
+    }
+
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory() && !this.isIgnored(fullPath)) {
+        await this.watchDirectory(fullPath);
+      }
+    }
+  }
+
+  /**
+   * Stops watching a directory and everything below it
+   */
+  private unwatchDirectory(dirPath: string): void {
+    for (const [watchedPath, watcher] of this.watchers) {
+      if (watchedPath === dirPath || watchedPath.startsWith(dirPath + path.sep)) {
+        watcher.close();
+        this.watchers.delete(watchedPath);
+      }
+    }
+  }
+
+  /**
+   * Records a changed path and debounces the rebuild
+   */
+  private schedule(changedPath: string): void {
+    if (this.closed || this.isIgnored(changedPath)) {
+      return;
+    }
+
+    this.pending.add(changedPath);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(error => this.emit('error', error));
+    }, IconWatcher.DEBOUNCE_MS);
+  }
+
+  /**
+   * Resolves pending paths into changed and removed SVG files
+   */
+  private async flush(): Promise<void> {
+    const paths = [...this.pending];
+    this.pending.clear();
+
+    const changed = new Set<string>();
+    const removed = new Set<string>();
+
+    for (const changedPath of paths) {
+      let stats;
+      try {
+        stats = await fs.stat(changedPath);
+      } catch {
+        stats = null;
+      }
+
+      if (stats?.isDirectory()) {
+        if (this.options.includeSubdirs && !this.watchers.has(changedPath)) {
+          await this.watchDirectory(changedPath);
+          const files = await FileReader.listSVGFiles(changedPath, true, this.options.ignorePatterns);
+          files.forEach(file => changed.add(file.path));
+        }
+      } else if (stats?.isFile()) {
+        if (this.isSVG(changedPath)) {
+          changed.add(changedPath);
+        }
+      } else {
+        // The path is gone: either a single file or a whole directory
+        this.unwatchDirectory(changedPath);
+        for (const iconPath of this.icons.keys()) {
+          if (iconPath === changedPath || iconPath.startsWith(changedPath + path.sep)) {
+            removed.add(iconPath);
+          }
+        }
+      }
+    }
+
+    if (changed.size > 0 || removed.size > 0) {
+      await this.enqueue(() => this.rebuild([...changed], [...removed]));
+    }
+  }
+
+  /**
+   * Serializes builds so that only one runs at a time
+   */
+  private async enqueue(build: () => Promise<GenerationResult>): Promise<void> {
+    const previous = this.running || Promise.resolve();
+
+    const current = previous.then(async () => {
+      if (this.closed) {
+        return;
+      }
+      try {
+        this.emit('run', await build());
+      } catch (error) {
+        this.emit('error', error);
+      }
+    });
+
+    this.running = current;
+    await current;
+
+    if (this.running === current) {
+      this.running = null;
+    }
+  }
+
+  /**
+   * Reprocesses changed files, removes outputs of deleted files and rewrites aggregate output
+   */
+  private async rebuild(changed: string[], removed: string[]): Promise<GenerationResult> {
+    const result: GenerationResult = {
+      success: true,
+      files: [],
+      errors: [],
+      warnings: [],
+      diagnostics: []
+    };
+
+    if (this.options.outputDir) {
+      await FileReader.ensureDirectoryExists(this.options.outputDir);
+    }
+
+    for (const sourcePath of removed) {
+      await this.removeOutputs(sourcePath, result);
+      this.icons.delete(sourcePath);
+    }
+
+    for (const sourcePath of changed.sort()) {
+      // Processing never throws here, so one bad file cannot stop the watcher
+      const diagnostics: Diagnostic[] = [];
+      let svg: ProcessedSVG | undefined;
+
+      try {
+        const file = this.collectionIcons.get(sourcePath) ?? await FileReader.getFileInfo(sourcePath, false);
+        if (file) {
+          const processed = await this.loader.processSVGs([file], false);
+          diagnostics.push(...processed.diagnostics);
+          svg = processed.svgs[0];
+        }
+      } catch (error) {
+        diagnostics.push(Diagnostics.fromError(error, sourcePath, 'read'));
+      }
+
+      result.diagnostics.push(...diagnostics);
+
+      if (!svg) {
+        const failure = diagnostics.find(diagnostic => diagnostic.severity === 'error');
+        if (failure && this.options.failOnError !== false) {
+          result.errors.push(`Failed to process ${sourcePath}: ${failure.message}`);
+        }
+        continue;
+      }
+
+      try {
+        const previousOutputs = this.outputs.get(sourcePath) || [];
+        const output = await this.loader.generateIconOutput(svg);
+        const outputs = output.files;
+
+        // Remove stale outputs, e.g. when a formatter maps the icon to a new file name
+        for (const stale of previousOutputs.filter(output => !outputs.includes(output))) {
+          await fs.rm(stale, { force: true });
+        }
+
+        this.icons.set(sourcePath, svg);
+        this.outputs.set(sourcePath, outputs);
+        result.files.push(...outputs);
+        result.warnings.push(...output.warnings);
+        result.diagnostics.push(...output.diagnostics);
+      } catch (error) {
+        result.errors.push(`Failed to generate output for ${sourcePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        result.diagnostics.push(Diagnostics.fromError(error, sourcePath, 'generate'));
+      }
+    }
+
+    try {
+      const aggregate = await this.loader.generateAggregateOutput(this.getIcons());
+      result.files.push(...aggregate.files);
+      result.warnings.push(...aggregate.warnings);
+      result.diagnostics.push(...aggregate.diagnostics);
+    } catch (error) {
+      result.errors.push(`Failed to generate ${this.options.format} output: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (this.options.verbose) {
+      console.log(`Rebuilt ${changed.length} changed and ${removed.length} removed icons (${result.files.length} files written)`);
+    }
+
+    result.success = result.errors.length === 0;
+    return result;
+  }
+
+  /**
+   * Deletes the outputs generated for a source file
+   */
+  private async removeOutputs(sourcePath: string, result: GenerationResult): Promise<void> {
+    for (const output of this.outputs.get(sourcePath) || []) {
+      try {
+        await fs.rm(output, { force: true });
+        if (this.options.verbose) {
+          console.log(`Removed ${output}`);
+        }
+      } catch (error) {
+        result.warnings.push(`Failed to remove ${output}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    this.outputs.delete(sourcePath);
+  }
+
+  /**
+   * Gets all current icons in a deterministic order
+   */
+  private getIcons(): ProcessedSVG[] {
+    return [...this.icons.keys()].sort().map(key => this.icons.get(key) as ProcessedSVG);
+  }
+
+  private isSVG(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.svg';
+  }
+
+  private isIgnored(filePath: string): boolean {
+    return FileReader.shouldIgnorePath(filePath, this.options.ignorePatterns || []);
+  }
+}
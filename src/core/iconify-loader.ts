@@ -1,23 +1,52 @@
 
 import {
   IconifyLoaderOptions,
+  ConfigJob,
+  FileInfo,
+  Diagnostic,
+  DiagnosticPhase,
+  ProcessingResult,
   ProcessedSVG,
+  SVGMetadata,
+  IconColor,
   GenerationResult,
+  GeneratorOutput,
+  FormatGenerator,
   ValidationError,
   FileSystemError,
-  SVGProcessingError
+  SVGProcessingError,
+  OUTPUT_FORMATS
 } from '../types';
+import { ConfigLoader } from './config-loader';
+import { IconWatcher } from './icon-watcher';
 import { FileReader } from '../utils/file-reader';
 import { SVGOptimizer } from '../utils/svg-optimizer';
+import { BuildCache } from '../utils/build-cache';
+import { Concurrency } from '../utils/concurrency';
+import { Diagnostics } from '../utils/diagnostics';
+import { ColorNormalizer } from '../utils/color-normalizer';
+import { SVGSanitizer } from '../utils/svg-sanitizer';
+import { SVGParser } from '../utils/svg-parser';
 import { ReactGenerator } from '../generators/react-generator';
 import { SVGGenerator } from '../generators/svg-generator';
 import { JSONGenerator } from '../generators/json-generator';
+import { SpriteGenerator } from '../generators/sprite-generator';
+import { FontGenerator } from '../generators/font-generator';
+import { VueGenerator } from '../generators/vue-generator';
+import { SvelteGenerator } from '../generators/svelte-generator';
+import { SolidGenerator } from '../generators/solid-generator';
+import { PreactGenerator } from '../generators/preact-generator';
+import { WebComponentGenerator } from '../generators/web-component-generator';
+import { IconifyGenerator } from '../generators/iconify-generator';
+import { ReactNativeGenerator } from '../generators/react-native-generator';
+import { DeclarationsGenerator } from '../generators/declarations-generator';
 
 /**
  * Main IconifyLoader class for processing SVG files
  */
 export class IconifyLoader {
   private options: IconifyLoaderOptions;
+  private cache: BuildCache | null = null;
 
   constructor(options: IconifyLoaderOptions) {
     this.validateOptions(options);
@@ -36,6 +65,10 @@ export class IconifyLoader {
         console.log(`Optimization: ${this.options.optimize ? 'enabled' : 'disabled'}`);
       }
 
+      if (this.options.cache) {
+        this.cache = await BuildCache.load(this.options);
+      }
+
       // Step 1: Read SVG files
       const svgFiles = await this.readSVGs();
 
@@ -44,10 +77,20 @@ export class IconifyLoader {
       }
 
       // Step 2: Process and optimize SVGs
-      const processedSVGs = await this.processSVGs(svgFiles);
+      const { svgs: processedSVGs, diagnostics } = await this.processSVGs(svgFiles);
 
       // Step 3: Generate output based on format
-      const result = await this.generateOutput(processedSVGs);
+      const result = await this.generateOutput(processedSVGs, this.cache);
+
+      result.diagnostics.unshift(...diagnostics);
+
+      if (this.cache) {
+        const pruned = await this.cache.save();
+
+        if (this.options.verbose) {
+          console.log(`Cache: ${this.cache.hits} hits, ${this.cache.misses} misses, ${pruned} stale entries pruned`);
+        }
+      }
 
       if (this.options.verbose) {
         console.log(`Process completed successfully!`);
@@ -58,6 +101,9 @@ export class IconifyLoader {
         if (result.warnings.length > 0) {
           console.warn(`Warnings: ${result.warnings.length}`);
         }
+        if (result.diagnostics.length > 0) {
+          console.warn(`Diagnostics: ${result.diagnostics.length}`);
+        }
       }
 
       return result;
@@ -66,20 +112,41 @@ export class IconifyLoader {
         `IconifyLoader process failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         { originalError: error }
       );
+    } finally {
+      this.cache = null;
     }
   }
 
   /**
-   * Reads SVG files from input directory
+   * Watches the input directory and regenerates output for added, changed
+   * and removed SVG files. The initial build starts on the next tick, so
+   * `run`, `ready` and `error` listeners can be attached first.
+   */
+  watch(): IconWatcher {
+    const watcher = new IconWatcher(this, this.options);
+
+    process.nextTick(() => {
+      watcher.start().catch(error => watcher.emit('error', error));
+    });
+
+    return watcher;
+  }
+
+  /**
+   * Reads SVG files from the input directory and any Iconify JSON collections
    */
   private async readSVGs() {
     try {
-      const files = await FileReader.readSVGFiles(
+      const files = await FileReader.listSVGFiles(
         this.options.inputDir,
         this.options.includeSubdirs,
         this.options.ignorePatterns
       );
 
+      if (this.options.iconifyCollections) {
+        files.push(...await FileReader.readIconifyCollections(this.options.iconifyCollections));
+      }
+
       if (files.length === 0) {
         throw new ValidationError(
           `No SVG files found in directory: ${this.options.inputDir}`,
@@ -100,79 +167,300 @@ export class IconifyLoader {
   }
 
   /**
-   * Processes and optimizes SVG files
+   * Processes and optimizes SVG files with bounded concurrency.
+   * File content is read on demand, so listed files need not be loaded up front.
+   * With `failOnError: false`, files that fail are skipped and reported as diagnostics.
+   * Optimization failures fall back to the original content with a warning diagnostic.
    */
-  private async processSVGs(files: any[]): Promise<ProcessedSVG[]> {
-    const processedSVGs: ProcessedSVG[] = [];
+  async processSVGs(
+    files: FileInfo[],
+    failOnError: boolean = this.options.failOnError !== false
+  ): Promise<ProcessingResult> {
+    const outcomes = await Concurrency.map(
+      files,
+      this.options.concurrency,
+      file => this.processSVG(file, failOnError)
+    );
 
-    for (const file of files) {
-      try {
-        // Validate SVG content
-        FileReader.validateSVGContent(file.content, file.name);
-
-        // Extract metadata
-        const attributes = FileReader.extractSVGAttributes(file.content);
-        const metadata = {
-          name: file.name,
-          originalName: file.name,
-          path: file.path,
-          size: Buffer.byteLength(file.content, 'utf8'),
-          ...attributes
-        };
+    return {
+      svgs: outcomes
+        .map(outcome => outcome.svg)
+        .filter((svg): svg is ProcessedSVG => svg !== null),
+      diagnostics: outcomes.flatMap(outcome => outcome.diagnostics)
+    };
+  }
+
+  /**
+   * Reads, validates and optimizes a single SVG file
+   */
+  private async processSVG(
+    file: FileInfo,
+    failOnError: boolean
+  ): Promise<{ svg: ProcessedSVG | null; diagnostics: Diagnostic[] }> {
+    const diagnostics: Diagnostic[] = [];
+    let phase: DiagnosticPhase = 'read';
+
+    try {
+      const source = file.content ?? await FileReader.readFileContent(file.path);
+
+      // Validate SVG content
+      phase = 'validate';
+      const root = FileReader.validateSVGContent(source, file.name);
+
+      // Extract metadata
+      const metadata: SVGMetadata = {
+        name: file.name,
+        originalName: file.name,
+        path: file.path,
+        size: Buffer.byteLength(source, 'utf8'),
+        ...FileReader.extractSVGAttributes(root),
+        analysis: FileReader.analyzeSVG(root)
+      };
+
+      let content = source;
+      let optimized = false;
+
+      const cacheKey = this.cache?.getKey(source);
+      const cached = cacheKey ? this.cache?.get(file.path, cacheKey) : undefined;
+
+      if (cached) {
+        content = cached.content;
+        optimized = cached.optimized;
+        diagnostics.push(...cached.diagnostics);
+
+        if (this.options.verbose) {
+          console.log(`Cache hit: ${file.name}`);
+        }
+      } else if (this.options.optimize) {
+        // Optimize if requested, falling back to the original content
+        phase = 'optimize';
+        try {
+          content = await SVGOptimizer.optimizeSVG(
+            content,
+            this.options.svgoOptions,
+            file.name
+          );
+          optimized = true;
+
+          if (this.options.verbose) {
+            const stats = SVGOptimizer.getOptimizationStats(source, content);
+            console.log(`Optimized ${file.name}: ${stats.bytesSaved} bytes saved (${stats.compressionRatio * 100}%)`);
+          }
+        } catch (error) {
+          diagnostics.push(Diagnostics.fromError(error, file.path, 'optimize', 'warning'));
 
-        let content = file.content;
-        let optimized = false;
-
-        // Optimize if requested
-        if (this.options.optimize) {
-          try {
-            content = await SVGOptimizer.optimizeSVG(
-              content,
-              this.options.svgoOptions,
-              file.name
-            );
-            optimized = true;
-
-            if (this.options.verbose) {
-              const stats = SVGOptimizer.getOptimizationStats(file.content, content);
-              console.log(`Optimized ${file.name}: ${stats.bytesSaved} bytes saved (${stats.compressionRatio * 100}%)`);
-            }
-          } catch (error) {
-            if (this.options.verbose) {
-              console.warn(`Failed to optimize ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
+          if (this.options.verbose) {
+            console.warn(`Failed to optimize ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
           }
         }
+      }
+
+      // The optimize warning is the only diagnostic so far, and is replayed on cache hits
+      if (this.cache && cacheKey && !cached) {
+        this.cache.set(file.path, { key: cacheKey, content, optimized, diagnostics: [...diagnostics], output: null });
+
+        if (this.options.verbose) {
+          console.log(`Cache miss: ${file.name}`);
+        }
+      }
+
+      // Sanitize the final content, so nothing unsafe reaches the generators
+      if (this.options.sanitize) {
+        phase = 'sanitize';
+        const sanitized = SVGSanitizer.sanitize(content, this.options.sanitizeOptions, file.name);
+        content = sanitized.content;
+
+        for (const removal of sanitized.removals) {
+          diagnostics.push(Diagnostics.warning(file.path, 'UNSAFE_CONTENT', removal, 'sanitize'));
+
+          if (this.options.verbose) {
+            console.warn(`Sanitized ${file.name}: ${removal}`);
+          }
+        }
+
+        // The analysis describes what reaches the generators, so removed scripts are no longer flagged
+        if (sanitized.removals.length > 0) {
+          metadata.analysis = FileReader.analyzeSVG(SVGParser.parse(content, file.name));
+        }
+      }
 
-        processedSVGs.push({
-          metadata,
+      // Normalize colours after optimization, once SVGO has moved styles into attributes
+      const colorOptions = this.options.colorOptions;
+      let palette: string[] | undefined;
+      let colors: IconColor[] | undefined;
+      if (colorOptions?.normalize || colorOptions?.theme) {
+        phase = 'normalize';
+        let normalized = false;
+
+        if (colorOptions.normalize) {
+          ({ content, palette, normalized } = ColorNormalizer.normalize(content, file.name));
+        } else {
+          palette = ColorNormalizer.getPalette(SVGParser.parse(content, file.name));
+        }
+
+        if (colorOptions.theme && !normalized && palette.length > 0) {
+          // Generators substitute the mapped colours, formats without theming keep the originals
+          colors = ColorNormalizer.getColorMap(palette, colorOptions);
+        } else if (!normalized && palette.length > 1) {
+          const message = `Found ${palette.length} colours (${palette.join(', ')}), colours were left unchanged`;
+          diagnostics.push(Diagnostics.warning(file.path, 'MULTICOLOR_ICON', message, 'normalize'));
+
+          if (this.options.verbose) {
+            console.warn(`Skipped colour normalization of ${file.name}: ${message}`);
+          }
+        }
+      }
+
+      return {
+        svg: {
+          metadata: {
+            ...metadata,
+            ...(palette && { palette }),
+            ...(colors && { colors })
+          },
           content,
           optimized
-        });
+        },
+        diagnostics
+      };
+    } catch (error) {
+      if (this.options.verbose) {
+        console.error(`Failed to process ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      if (failOnError) {
+        throw error;
+      }
+
+      diagnostics.push(Diagnostics.fromError(error, file.path, phase));
+      return { svg: null, diagnostics };
+    }
+  }
+
+  /**
+   * Generates the output of each icon, then the files built from the whole icon set.
+   * With a cache, the output of unchanged icons is reused along with its warnings and diagnostics.
+   * Icons whose output failed are left out of the icon set files.
+   */
+  private async generateOutput(svgs: ProcessedSVG[], cache: BuildCache | null): Promise<GenerationResult> {
+    const result: GenerationResult = {
+      success: true,
+      files: [],
+      errors: [],
+      warnings: [],
+      diagnostics: []
+    };
+
+    if (this.options.outputDir) {
+      await FileReader.ensureDirectoryExists(this.options.outputDir);
+    }
+
+    const outcomes = await Concurrency.map(svgs, this.options.concurrency, async svg => {
+      const sourcePath = svg.metadata.path;
+      const reusable = cache ? await cache.getReusableOutput(sourcePath) : null;
+
+      if (reusable) {
+        return { output: reusable };
+      }
+
+      try {
+        const output = await this.generateIconOutput(svg);
+        cache?.setOutput(sourcePath, output);
+        return { output };
       } catch (error) {
+        return {
+          error: `Failed to generate output for ${svg.metadata.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          diagnostic: Diagnostics.fromError(error, sourcePath, 'generate')
+        };
+      }
+    });
+
+    const generated: ProcessedSVG[] = [];
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome.output) {
+        generated.push(svgs[index] as ProcessedSVG);
+        this.addOutput(result, outcome.output);
+      } else {
+        result.errors.push(outcome.error);
+        result.diagnostics.push(outcome.diagnostic);
+
         if (this.options.verbose) {
-          console.error(`Failed to process ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          console.error(outcome.error);
         }
-        throw error;
       }
+    });
+
+    try {
+      this.addOutput(result, await this.generateAggregateOutput(generated));
+    } catch (error) {
+      result.errors.push(`Failed to generate ${this.options.format} output: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
-    return processedSVGs;
+    result.success = result.errors.length === 0;
+    return result;
   }
 
   /**
-   * Generates output based on specified format
+   * Generates the per-icon output of the configured format
    */
-  private async generateOutput(svgs: ProcessedSVG[]): Promise<GenerationResult> {
+  async generateIconOutput(svg: ProcessedSVG): Promise<GeneratorOutput> {
+    return this.getGenerator().generateIconOutput(svg, this.options);
+  }
+
+  /**
+   * Generates the output built from the whole icon set (index files, JSON manifest, sprite sheet, icon font, custom element base, Iconify collection), plus the icon name declarations when enabled
+   */
+  async generateAggregateOutput(svgs: ProcessedSVG[]): Promise<GeneratorOutput> {
+    const output = await this.getGenerator().generateAggregateOutput(svgs, this.options);
+
+    if (this.options.declarations) {
+      output.files.push(...await DeclarationsGenerator.generateDeclarations(svgs, this.options));
+    }
+
+    return output;
+  }
+
+  /**
+   * Gets the generator of the configured format
+   */
+  private getGenerator(): FormatGenerator {
     switch (this.options.format) {
       case 'react':
-        return await ReactGenerator.generateComponents(svgs, this.options);
+        return ReactGenerator;
 
       case 'svg':
-        return await SVGGenerator.generateSVGs(svgs, this.options);
+        return SVGGenerator;
 
       case 'json':
-        return await JSONGenerator.generateJSON(svgs, this.options);
+        return JSONGenerator;
+
+      case 'sprite':
+        return SpriteGenerator;
+
+      case 'font':
+        return FontGenerator;
+
+      case 'vue':
+        return VueGenerator;
+
+      case 'svelte':
+        return SvelteGenerator;
+
+      case 'solid':
+        return SolidGenerator;
+
+      case 'preact':
+        return PreactGenerator;
+
+      case 'web-component':
+        return WebComponentGenerator;
+
+      case 'iconify':
+        return IconifyGenerator;
+
+      case 'react-native':
+        return ReactNativeGenerator;
 
       default:
         throw new ValidationError(
@@ -182,6 +470,15 @@ export class IconifyLoader {
     }
   }
 
+  /**
+   * Adds generated files, warnings and diagnostics to a result
+   */
+  private addOutput(result: GenerationResult, output: GeneratorOutput): void {
+    result.files.push(...output.files);
+    result.warnings.push(...output.warnings);
+    result.diagnostics.push(...output.diagnostics);
+  }
+
   /**
    * Validates the provided options
    */
@@ -194,11 +491,28 @@ export class IconifyLoader {
       throw new ValidationError('Output format is required');
     }
 
-    const validFormats = ['svg', 'react', 'json'];
-    if (!validFormats.includes(options.format)) {
+    if (!OUTPUT_FORMATS.includes(options.format)) {
+      throw new ValidationError(
+        `Invalid format. Must be one of: ${OUTPUT_FORMATS.join(', ')}`,
+        { format: options.format, validFormats: OUTPUT_FORMATS }
+      );
+    }
+
+    if (
+      options.concurrency !== undefined &&
+      (!Number.isInteger(options.concurrency) || options.concurrency < 1)
+    ) {
+      throw new ValidationError(
+        'concurrency must be a positive integer',
+        { concurrency: options.concurrency }
+      );
+    }
+
+    const strokeWidth = options.strokeOptions?.strokeWidth;
+    if (strokeWidth !== undefined && !(typeof strokeWidth === 'number' && strokeWidth > 0 && Number.isFinite(strokeWidth))) {
       throw new ValidationError(
-        `Invalid format. Must be one of: ${validFormats.join(', ')}`,
-        { format: options.format, validFormats }
+        'strokeOptions.strokeWidth must be a positive number',
+        { strokeWidth }
       );
     }
 
@@ -206,6 +520,30 @@ export class IconifyLoader {
     if (options.svgoOptions) {
       SVGOptimizer.validateOptions(options.svgoOptions);
     }
+
+    if (options.reactOptions) {
+      ReactGenerator.validateOptions(options.reactOptions);
+    }
+
+    if (options.colorOptions) {
+      ColorNormalizer.validateOptions(options.colorOptions);
+    }
+
+    if (options.fontOptions) {
+      FontGenerator.validateOptions(options.fontOptions);
+    }
+
+    if (options.vueOptions) {
+      VueGenerator.validateOptions(options.vueOptions);
+    }
+
+    if (options.webComponentOptions) {
+      WebComponentGenerator.validateOptions(options.webComponentOptions);
+    }
+
+    if (options.iconifyOptions) {
+      IconifyGenerator.validateOptions(options.iconifyOptions);
+    }
   }
 
   /**
@@ -216,6 +554,35 @@ export class IconifyLoader {
     return await loader.process();
   }
 
+  /**
+   * Loads jobs from a config file, merging each job with the default options
+   */
+  static async loadConfig(configPath?: string, cwd?: string): Promise<ConfigJob[]> {
+    const jobs = await ConfigLoader.loadConfig(configPath, cwd);
+
+    return jobs.map(job => ({
+      name: job.name,
+      options: IconifyLoader.mergeOptions(job.options)
+    }));
+  }
+
+  /**
+   * Runs every job from a config file and returns the results keyed by job name
+   */
+  static async loadFromConfig(
+    configPath?: string,
+    cwd?: string
+  ): Promise<Record<string, GenerationResult>> {
+    const jobs = await IconifyLoader.loadConfig(configPath, cwd);
+    const results: Record<string, GenerationResult> = {};
+
+    for (const job of jobs) {
+      results[job.name] = await IconifyLoader.load(job.options);
+    }
+
+    return results;
+  }
+
   /**
    * Gets default options with sensible defaults
    */
@@ -225,6 +592,8 @@ export class IconifyLoader {
       generateIndex: true,
       typescript: true,
       includeSubdirs: true,
+      concurrency: Concurrency.DEFAULT_LIMIT,
+      failOnError: true,
       ignorePatterns: ['node_modules', '.git', 'dist', 'build'],
       verbose: false
     };
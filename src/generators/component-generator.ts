@@ -0,0 +1,280 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  ProcessedSVG,
+  IconifyLoaderOptions,
+  ReactComponentTemplate,
+  GenerationResult,
+  GeneratorOutput,
+  ComponentRenderer,
+  FileSystemError,
+  SVGElementNode,
+  SVGNode
+} from '../types';
+import { SVGParser } from '../utils/svg-parser';
+import { JSXTransformer } from '../utils/jsx-transformer';
+import { Concurrency } from '../utils/concurrency';
+import { Diagnostics } from '../utils/diagnostics';
+import { FileReader } from '../utils/file-reader';
+import { ReactGenerator } from './react-generator';
+
+/**
+ * A component generator with its rendering hooks
+ */
+type ComponentGeneratorClass = typeof ComponentGenerator & ComponentRenderer;
+
+/**
+ * Shared generation flow for the Vue, Svelte, Solid and Preact generators.
+ * Subclasses name their framework and implement `ComponentRenderer` to render the component
+ * and index declarations; markup defaults to the `dom` JSX dialect. The generation methods
+ * require the hooks on `this`, so using a subclass without them is a compile error.
+ */
+export abstract class ComponentGenerator {
+  protected static readonly framework: string = 'Component';
+
+  protected static defaultProps: Record<string, string> = {
+    fill: 'currentColor',
+    'aria-hidden': 'true'
+  };
+
+  protected static readonly controlledAttributes = ['width', 'height', 'viewBox', 'fill'];
+
+  /**
+   * Generates components from processed SVGs
+   */
+  static async generateComponents(
+    this: ComponentGeneratorClass,
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<GenerationResult> {
+    const result: GenerationResult = {
+      success: true,
+      files: [],
+      errors: [],
+      warnings: [],
+      diagnostics: []
+    };
+
+    try {
+      // Ensure output directory exists
+      if (options.outputDir) {
+        await this.ensureOutputDirectory(options.outputDir);
+      }
+
+      // Generate individual component files, reporting in input order
+      const outcomes = await Concurrency.map(svgs, options.concurrency, async svg => {
+        try {
+          return { file: await this.generateComponentFile(svg, options) };
+        } catch (error) {
+          return {
+            error: `Failed to generate ${this.framework} component for ${svg.metadata.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            diagnostic: Diagnostics.fromError(error, svg.metadata.path, 'generate')
+          };
+        }
+      });
+
+      for (const { file: componentFile, error: errorMessage, diagnostic } of outcomes) {
+        if (componentFile) {
+          result.files.push(componentFile);
+
+          if (options.verbose) {
+            console.log(`Generated ${this.framework} component: ${componentFile}`);
+          }
+        } else if (errorMessage) {
+          result.errors.push(errorMessage);
+          if (diagnostic) {
+            result.diagnostics.push(diagnostic);
+          }
+
+          if (options.verbose) {
+            console.error(errorMessage);
+          }
+        }
+      }
+
+      // Generate index file if requested
+      if (options.generateIndex) {
+        try {
+          const indexFiles = await this.generateIndexFiles(svgs, options);
+          result.files.push(...indexFiles);
+
+          if (options.verbose) {
+            console.log(`Generated ${this.framework} index files: ${indexFiles.join(', ')}`);
+          }
+        } catch (error) {
+          const errorMessage = `Failed to generate ${this.framework} index file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMessage);
+        }
+      }
+
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.success = false;
+      result.errors.push(`${this.framework} generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Generates the component of a single icon
+   */
+  static async generateIconOutput(
+    this: ComponentGeneratorClass,
+    svg: ProcessedSVG,
+    options: IconifyLoaderOptions
+  ): Promise<GeneratorOutput> {
+    return { files: [await this.generateComponentFile(svg, options)], warnings: [], diagnostics: [] };
+  }
+
+  /**
+   * Generates the index files of the icon set, when requested
+   */
+  static async generateAggregateOutput(
+    this: ComponentGeneratorClass,
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<GeneratorOutput> {
+    return {
+      files: options.generateIndex ? await this.generateIndexFiles(svgs, options) : [],
+      warnings: [],
+      diagnostics: []
+    };
+  }
+
+  /**
+   * Generates a single component file
+   */
+  static async generateComponentFile(
+    this: ComponentGeneratorClass,
+    svg: ProcessedSVG,
+    options: IconifyLoaderOptions
+  ): Promise<string> {
+    const componentName = ReactGenerator.getComponentName(svg.metadata.name, options);
+    const template = this.createComponentTemplate(svg, componentName, options);
+
+    const fileName = options.fileNameFormatter
+      ? options.fileNameFormatter(componentName)
+      : `${componentName}.${this.getFileExtension(options)}`;
+
+    return this.writeFile(fileName, this.renderComponent(template, options), options);
+  }
+
+  /**
+   * Generates the index file, plus type declarations for JavaScript output
+   */
+  static async generateIndexFiles(
+    this: ComponentGeneratorClass,
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    const componentNames = svgs.map(svg => ReactGenerator.getComponentName(svg.metadata.name, options));
+    const exports = componentNames.map(name => `export { default as ${name} } from './${name}';`);
+
+    if (options.typescript) {
+      const types = componentNames.map(name => `export type { ${name}Props } from './${name}';`);
+      return [await this.writeFile('index.ts', [...exports, ...types].join('\n') + '\n', options)];
+    }
+
+    return [
+      await this.writeFile('index.js', exports.join('\n') + '\n', options),
+      await this.writeFile('index.d.ts', this.renderIndexDeclarations(componentNames), options)
+    ];
+  }
+
+  /**
+   * Gets the extension of component files
+   */
+  protected static getFileExtension(options: IconifyLoaderOptions): string {
+    return options.typescript ? 'tsx' : 'jsx';
+  }
+
+  /**
+   * Renders the children of the source <svg> as component markup
+   */
+  protected static renderMarkup(children: SVGNode[], _options: IconifyLoaderOptions): string {
+    return JSXTransformer.renderChildren(children, '      ', false, 'dom');
+  }
+
+  /**
+   * Renders the attributes hoisted onto the component's <svg>
+   */
+  protected static renderProps(attributes: Record<string, string>, _options: IconifyLoaderOptions): string[] {
+    return JSXTransformer.renderAttributes(attributes, 'dom');
+  }
+
+  /**
+   * Creates a component template
+   */
+  private static createComponentTemplate(
+    svg: ProcessedSVG,
+    componentName: string,
+    options: IconifyLoaderOptions
+  ): ReactComponentTemplate {
+    const root = SVGParser.parse(svg.content, svg.metadata.name);
+    const { props, defaultFill } = this.generateProps(root, options);
+
+    return {
+      componentName,
+      props,
+      svgContent: this.renderMarkup(root.children, options),
+      typescript: options.typescript || false,
+      defaultFill,
+      viewBox: FileReader.getViewBox(svg.metadata)
+    };
+  }
+
+  /**
+   * Generates the attributes hoisted from the source <svg> onto the component's <svg>
+   */
+  private static generateProps(
+    root: SVGElementNode,
+    options: IconifyLoaderOptions
+  ): { props: string[]; defaultFill: string } {
+    // Source attributes take precedence over user-defined defaults
+    const mergedProps: Record<string, string> = { ...this.defaultProps };
+
+    for (const [key, value] of Object.entries(options.svgProps || {})) {
+      if (value !== undefined && value !== null) {
+        mergedProps[key] = String(value);
+      }
+    }
+    Object.assign(mergedProps, root.attributes);
+
+    const defaultFill = mergedProps['fill'] || 'currentColor';
+
+    // Attributes controlled by the component template itself
+    for (const key of this.controlledAttributes) {
+      delete mergedProps[key];
+    }
+
+    return {
+      props: this.renderProps(mergedProps, options),
+      defaultFill
+    };
+  }
+
+  protected static async writeFile(fileName: string, content: string, options: IconifyLoaderOptions): Promise<string> {
+    const filePath = options.outputDir
+      ? path.join(options.outputDir, fileName)
+      : `./${fileName}`;
+
+    await fs.writeFile(filePath, content, 'utf-8');
+
+    return filePath;
+  }
+
+  /**
+   * Ensures output directory exists
+   */
+  private static async ensureOutputDirectory(outputDir: string): Promise<void> {
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to create output directory: ${outputDir}`,
+        { originalError: error }
+      );
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  ProcessedSVG,
+  IconifyLoaderOptions,
+  FileSystemError,
+  ValidationError
+} from '../types';
+import { FileReader } from '../utils/file-reader';
+import { IconNaming } from '../utils/icon-naming';
+
+/**
+ * Icon name declarations generator, emitted alongside any output format
+ */
+export class DeclarationsGenerator {
+  static readonly FILE_NAME = 'icon-names';
+
+  /**
+   * Writes the `IconName` union, the `iconNames` array and the `icons` registry.
+   * TypeScript output is a single .ts module, JavaScript output a .js module plus .d.ts.
+   */
+  static async generateDeclarations(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    if (options.outputDir) {
+      await this.ensureOutputDirectory(options.outputDir);
+    }
+
+    const names = svgs.map(svg => this.getIconName(svg.metadata.name, options));
+    this.assertUniqueNames(svgs, names);
+
+    const entries = svgs
+      .map((svg, index) => ({ name: names[index] as string, viewBox: FileReader.getViewBox(svg.metadata) }))
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    const union = entries.length > 0
+      ? entries.map(({ name }) => `'${name}'`).join(' | ')
+      : 'never';
+    const nameList = entries.map(({ name }) => `  '${name}'`).join(',\n');
+    const registry = entries
+      .map(({ name, viewBox }) => {
+        const [, , width, height] = viewBox.split(/[\s,]+/).map(Number);
+        return `  '${name}': { viewBox: '${viewBox}', width: ${width}, height: ${height} }`;
+      })
+      .join(',\n');
+
+    const types = `export type IconName = ${union};
+
+export interface IconDefinition {
+  viewBox: string;
+  width: number;
+  height: number;
+}
+`;
+
+    if (options.typescript) {
+      const content = `${types}
+export const iconNames: readonly IconName[] = [
+${nameList}
+];
+
+export const icons: Readonly<Record<IconName, IconDefinition>> = {
+${registry}
+};
+`;
+      return [await this.writeFile(`${this.FILE_NAME}.ts`, content, options)];
+    }
+
+    const script = `export const iconNames = [
+${nameList}
+];
+
+export const icons = {
+${registry}
+};
+`;
+    const declarations = `${types}
+export declare const iconNames: readonly IconName[];
+
+export declare const icons: Readonly<Record<IconName, IconDefinition>>;
+`;
+
+    return [
+      await this.writeFile(`${this.FILE_NAME}.js`, script, options),
+      await this.writeFile(`${this.FILE_NAME}.d.ts`, declarations, options)
+    ];
+  }
+
+  /**
+   * Gets the icon's name in the union: the id the configured format emits it under,
+   * such as the sprite symbol id or font glyph name
+   */
+  static getIconName(originalName: string, options: IconifyLoaderOptions): string {
+    return IconNaming.getFormatId(originalName, options);
+  }
+
+  /**
+   * Ensures no two icons map to the same name
+   */
+  private static assertUniqueNames(svgs: ProcessedSVG[], names: string[]): void {
+    const seen = new Map<string, string>();
+
+    svgs.forEach((svg, index) => {
+      const name = names[index] as string;
+
+      if (!name) {
+        throw new ValidationError(
+          `Cannot derive an icon name from "${svg.metadata.name}"`,
+          { name: svg.metadata.name }
+        );
+      }
+
+      const existing = seen.get(name);
+      if (existing) {
+        throw new ValidationError(
+          `Duplicate icon name "${name}" for ${existing} and ${svg.metadata.path}`,
+          { name, files: [existing, svg.metadata.path] }
+        );
+      }
+      seen.set(name, svg.metadata.path);
+    });
+  }
+
+  private static async writeFile(fileName: string, content: string, options: IconifyLoaderOptions): Promise<string> {
+    const filePath = options.outputDir
+      ? path.join(options.outputDir, fileName)
+      : `./${fileName}`;
+
+    await fs.writeFile(filePath, content, 'utf-8');
+
+    return filePath;
+  }
+
+  /**
+   * Ensures output directory exists
+   */
+  private static async ensureOutputDirectory(outputDir: string): Promise<void> {
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to create output directory: ${outputDir}`,
+        { originalError: error }
+      );
+    }
+  }
+}
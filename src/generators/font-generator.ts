@@ -0,0 +1,487 @@
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import {
+  ProcessedSVG,
+  IconifyLoaderOptions,
+  GenerationResult,
+  GeneratorOutput,
+  FontOptions,
+  FontType,
+  FontStylesheet,
+  FontGlyph,
+  TransformMatrix,
+  FileSystemError,
+  ValidationError
+} from '../types';
+import { SVGParser } from '../utils/svg-parser';
+import { SVGOutline } from '../utils/svg-outline';
+import { FontBuilder } from '../utils/font-builder';
+import { Diagnostics } from '../utils/diagnostics';
+import { FileReader } from '../utils/file-reader';
+import { IconNaming } from '../utils/icon-naming';
+
+/**
+ * Icon font generator producing TTF/WOFF/WOFF2 fonts with CSS/SCSS class names
+ */
+export class FontGenerator {
+  static readonly FONT_TYPES: FontType[] = ['woff2', 'woff', 'ttf'];
+  static readonly STYLESHEETS: FontStylesheet[] = ['css', 'scss'];
+
+  private static readonly PRIVATE_USE_START = 0xe000;
+  private static readonly PRIVATE_USE_END = 0xf8ff;
+  private static readonly FONT_FORMATS: Record<FontType, string> = {
+    woff2: 'woff2',
+    woff: 'woff',
+    ttf: 'truetype'
+  };
+
+  /**
+   * Generates the icon font, its stylesheets and the codepoint map
+   */
+  static async generateFont(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<GenerationResult> {
+    const result: GenerationResult = {
+      success: true,
+      files: [],
+      errors: [],
+      warnings: [],
+      diagnostics: []
+    };
+
+    try {
+      // Ensure output directory exists
+      if (options.outputDir) {
+        await this.ensureOutputDirectory(options.outputDir);
+      }
+
+      // Icons that cannot be converted are left out of the font
+      const glyphs: Array<Omit<FontGlyph, 'codepoint'>> = [];
+      for (const svg of svgs) {
+        try {
+          const { glyph, warnings } = this.createGlyph(svg, options);
+          glyphs.push(glyph);
+
+          for (const warning of warnings) {
+            result.warnings.push(`${svg.metadata.name}: ${warning}`);
+            result.diagnostics.push(Diagnostics.warning(svg.metadata.path, 'UNSUPPORTED_CONTENT', warning, 'generate'));
+          }
+        } catch (error) {
+          const errorMessage = `Failed to create glyph for ${svg.metadata.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMessage);
+          result.diagnostics.push(Diagnostics.fromError(error, svg.metadata.path, 'generate'));
+
+          if (options.verbose) {
+            console.error(errorMessage);
+          }
+        }
+      }
+
+      const files = await this.writeFontFiles(glyphs, options);
+      result.files.push(...files);
+
+      if (options.verbose) {
+        console.log(`Generated icon font with ${glyphs.length} glyphs: ${files.join(', ')}`);
+      }
+
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.success = false;
+      result.errors.push(`Font generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts a single icon into a glyph, reporting content that was left out.
+   * The font is written with the whole set.
+   */
+  static async generateIconOutput(svg: ProcessedSVG, options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    const { warnings } = this.createGlyph(svg, options);
+
+    return {
+      files: [],
+      warnings: warnings.map(warning => `${svg.metadata.name}: ${warning}`),
+      diagnostics: warnings.map(warning => Diagnostics.warning(svg.metadata.path, 'UNSUPPORTED_CONTENT', warning, 'generate'))
+    };
+  }
+
+  /**
+   * Generates the fonts, stylesheets, codepoint map and index of the icon set,
+   * failing on the first icon that cannot be converted
+   */
+  static async generateAggregateOutput(svgs: ProcessedSVG[], options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    const glyphs = svgs.map(svg => this.createGlyph(svg, options).glyph);
+    return { files: await this.writeFontFiles(glyphs, options), warnings: [], diagnostics: [] };
+  }
+
+  /**
+   * Gets the glyph name used for the `.icon-<name>` class, keeping its original case
+   */
+  static getGlyphName(originalName: string, options: IconifyLoaderOptions): string {
+    return IconNaming.getId(originalName, options);
+  }
+
+  /**
+   * Validates font options
+   */
+  static validateOptions(fontOptions: FontOptions): void {
+    const invalidType = fontOptions.types?.find(type => !this.FONT_TYPES.includes(type));
+    if (invalidType !== undefined || fontOptions.types?.length === 0) {
+      throw new ValidationError(
+        `fontOptions.types must contain one or more of: ${this.FONT_TYPES.join(', ')}`,
+        { types: fontOptions.types }
+      );
+    }
+
+    const invalidStylesheet = fontOptions.stylesheets?.find(type => !this.STYLESHEETS.includes(type));
+    if (invalidStylesheet !== undefined) {
+      throw new ValidationError(
+        `fontOptions.stylesheets must only contain: ${this.STYLESHEETS.join(', ')}`,
+        { stylesheets: fontOptions.stylesheets }
+      );
+    }
+
+    const start = fontOptions.startCodepoint;
+    if (start !== undefined && (!Number.isInteger(start) || start < this.PRIVATE_USE_START || start > this.PRIVATE_USE_END)) {
+      throw new ValidationError(
+        'fontOptions.startCodepoint must be in the Private Use Area (0xE000-0xF8FF)',
+        { startCodepoint: start }
+      );
+    }
+  }
+
+  /**
+   * Converts an icon into a glyph scaled so its viewBox height fills the em box
+   */
+  private static createGlyph(
+    svg: ProcessedSVG,
+    options: IconifyLoaderOptions
+  ): { glyph: Omit<FontGlyph, 'codepoint'>; warnings: string[] } {
+    const name = this.getGlyphName(svg.metadata.name, options);
+    if (!name) {
+      throw new ValidationError(
+        `Cannot derive a glyph name from "${svg.metadata.name}"`,
+        { name: svg.metadata.name }
+      );
+    }
+
+    const [minX, minY, width, height] = this.getViewBox(svg);
+    const scale = (FontBuilder.ASCENT - FontBuilder.DESCENT) / height;
+
+    // Map the viewBox onto the em box, flipping the y axis so the top sits at the ascent
+    const matrix: TransformMatrix = [scale, 0, 0, -scale, -minX * scale, FontBuilder.ASCENT + minY * scale];
+    const root = SVGParser.parse(svg.content, svg.metadata.name);
+    const { contours, warnings } = SVGOutline.fromSVG(root, matrix);
+    const advanceWidth = Math.round(width * scale);
+
+    // Outline icons would silently become empty glyphs
+    if (contours.length === 0) {
+      throw new ValidationError(
+        `Icon has no filled shapes and cannot become a glyph${warnings.length > 0 ? `: ${warnings.join('; ')}` : ''}`,
+        { name: svg.metadata.name }
+      );
+    }
+
+    if (!FontBuilder.isEncodable(contours, advanceWidth)) {
+      throw new ValidationError(
+        'Icon outline exceeds the font coordinate range; remove shapes far outside the viewBox or use a less elongated viewBox',
+        { name: svg.metadata.name }
+      );
+    }
+
+    return {
+      glyph: {
+        name,
+        advanceWidth,
+        contours
+      },
+      warnings
+    };
+  }
+
+  /**
+   * Assigns codepoints and writes the codepoint map, fonts, stylesheets and index file
+   */
+  private static async writeFontFiles(
+    unassigned: Array<Omit<FontGlyph, 'codepoint'>>,
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    const fontOptions = this.resolveOptions(options);
+    const codepointsPath = this.getOutputPath(`${fontOptions.fontName}.codepoints.json`, options);
+    const codepoints = this.assignCodepoints(
+      unassigned.map(glyph => glyph.name),
+      await this.loadCodepoints(codepointsPath),
+      fontOptions.startCodepoint
+    );
+    const glyphs: FontGlyph[] = unassigned.map(glyph => ({
+      ...glyph,
+      codepoint: codepoints[glyph.name] as number
+    }));
+
+    const files: string[] = [];
+
+    await fs.writeFile(codepointsPath, JSON.stringify(codepoints, null, 2) + '\n', 'utf-8');
+    files.push(codepointsPath);
+
+    const ttf = FontBuilder.buildTTF(fontOptions.fontName, glyphs);
+    const hash = createHash('sha256').update(ttf).digest('hex').slice(0, 8);
+
+    for (const type of fontOptions.types) {
+      const fontPath = this.getOutputPath(`${fontOptions.fontName}.${type}`, options);
+      const data = type === 'woff2'
+        ? FontBuilder.toWOFF2(ttf)
+        : type === 'woff' ? FontBuilder.toWOFF(ttf) : ttf;
+
+      await fs.writeFile(fontPath, data);
+      files.push(fontPath);
+    }
+
+    const sorted = [...glyphs].sort((a, b) => a.codepoint - b.codepoint);
+
+    for (const stylesheet of fontOptions.stylesheets) {
+      const stylesheetPath = this.getOutputPath(`${fontOptions.fontName}.${stylesheet}`, options);
+      const content = stylesheet === 'scss'
+        ? this.renderSCSS(sorted, fontOptions, hash)
+        : this.renderCSS(sorted, fontOptions, hash);
+
+      await fs.writeFile(stylesheetPath, content, 'utf-8');
+      files.push(stylesheetPath);
+    }
+
+    if (options.generateIndex) {
+      files.push(await this.generateIndexFile(sorted, fontOptions, options));
+    }
+
+    return files;
+  }
+
+  /**
+   * Keeps previously assigned codepoints, including those of removed icons, and gives new glyphs
+   * codepoints above every one assigned so far, so a class name never renders a different icon
+   */
+  private static assignCodepoints(
+    names: string[],
+    previous: Record<string, number>,
+    start: number
+  ): Record<string, number> {
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      throw new ValidationError(
+        `Duplicate glyph name "${duplicate}"`,
+        { name: duplicate }
+      );
+    }
+
+    const codepoints: Record<string, number> = {};
+    const used = new Set<number>();
+
+    // Current icons keep their codepoints first, then removed icons keep theirs,
+    // so a codepoint is never handed to another icon while stale markup may still use it
+    const retired = Object.keys(previous).filter(name => !names.includes(name));
+    for (const name of [...names, ...retired]) {
+      const codepoint = previous[name];
+      if (typeof codepoint === 'number' && Number.isInteger(codepoint) && !used.has(codepoint)) {
+        codepoints[name] = codepoint;
+        used.add(codepoint);
+      }
+    }
+
+    let next = Math.max(start - 1, ...used) + 1;
+    for (const name of [...names].sort()) {
+      if (codepoints[name] !== undefined) {
+        continue;
+      }
+      if (next > this.PRIVATE_USE_END) {
+        throw new ValidationError(
+          'No codepoints left in the Private Use Area',
+          { name }
+        );
+      }
+      codepoints[name] = next;
+      used.add(next++);
+    }
+
+    return Object.fromEntries(
+      Object.entries(codepoints).sort(([, a], [, b]) => a - b)
+    );
+  }
+
+  /**
+   * Loads the codepoint map written by a previous run
+   */
+  private static async loadCodepoints(filePath: string): Promise<Record<string, number>> {
+    try {
+      const data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+    } catch {
+      // First run or unreadable map: assign from the start codepoint
+      return {};
+    }
+  }
+
+  /**
+   * Renders the @font-face rule and one class per glyph
+   */
+  private static renderCSS(glyphs: FontGlyph[], fontOptions: Required<FontOptions>, hash: string): string {
+    const { fontName, classPrefix } = fontOptions;
+    const sources = fontOptions.types
+      .map(type => `url("${fontOptions.fontUrl}${fontName}.${type}?${hash}") format("${this.FONT_FORMATS[type]}")`)
+      .join(',\n       ');
+    const rules = glyphs.map(glyph =>
+      `.${classPrefix}-${glyph.name}::before {\n  content: "\\${glyph.codepoint.toString(16)}";\n}`
+    );
+
+    return `@font-face {
+  font-family: "${fontName}";
+  src: ${sources};
+  font-weight: normal;
+  font-style: normal;
+  font-display: block;
+}
+
+${this.getBaseSelector(classPrefix)} {
+  font-family: "${fontName}" !important;
+  font-style: normal;
+  font-weight: normal;
+  font-variant: normal;
+  text-transform: none;
+  line-height: 1;
+  -webkit-font-smoothing: antialiased;
+  -moz-osx-font-smoothing: grayscale;
+}
+
+${rules.join('\n\n')}
+`;
+  }
+
+  /**
+   * Renders the SCSS variant, exposing the font path and codepoint map as variables
+   */
+  private static renderSCSS(glyphs: FontGlyph[], fontOptions: Required<FontOptions>, hash: string): string {
+    const { fontName, classPrefix } = fontOptions;
+    const sources = fontOptions.types
+      .map(type => `url("#{$${classPrefix}-font-path}${fontName}.${type}?${hash}") format("${this.FONT_FORMATS[type]}")`)
+      .join(',\n       ');
+    const entries = glyphs.map(glyph => `  "${glyph.name}": "${glyph.codepoint.toString(16)}"`);
+
+    return `$${classPrefix}-font-family: "${fontName}" !default;
+$${classPrefix}-font-path: "${fontOptions.fontUrl}" !default;
+
+$${classPrefix}-codepoints: (
+${entries.join(',\n')}
+);
+
+@font-face {
+  font-family: $${classPrefix}-font-family;
+  src: ${sources};
+  font-weight: normal;
+  font-style: normal;
+  font-display: block;
+}
+
+${this.getBaseSelector(classPrefix)} {
+  font-family: $${classPrefix}-font-family !important;
+  font-style: normal;
+  font-weight: normal;
+  font-variant: normal;
+  text-transform: none;
+  line-height: 1;
+  -webkit-font-smoothing: antialiased;
+  -moz-osx-font-smoothing: grayscale;
+}
+
+@each $name, $codepoint in $${classPrefix}-codepoints {
+  .${classPrefix}-#{$name}::before {
+    content: unquote("\\"\\\\#{$codepoint}\\"");
+  }
+}
+`;
+  }
+
+  /**
+   * Generates an index file exporting the codepoint map and the glyph name union
+   */
+  private static async generateIndexFile(
+    glyphs: FontGlyph[],
+    fontOptions: Required<FontOptions>,
+    options: IconifyLoaderOptions
+  ): Promise<string> {
+    const entries = glyphs.map(glyph => `  '${glyph.name}': 0x${glyph.codepoint.toString(16)}`).join(',\n');
+    const typescript = options.typescript;
+
+    let content = `export const fontFamily = '${fontOptions.fontName}';
+
+export const codepoints = {
+${entries}
+}${typescript ? ' as const' : ''};
+`;
+
+    if (typescript) {
+      content += `
+export type FontIconName = keyof typeof codepoints;
+
+export function iconClassName(name: FontIconName): string {
+  return \`${fontOptions.classPrefix} ${fontOptions.classPrefix}-\${name}\`;
+}
+`;
+    } else {
+      content += `
+export function iconClassName(name) {
+  return \`${fontOptions.classPrefix} ${fontOptions.classPrefix}-\${name}\`;
+}
+`;
+    }
+
+    const indexPath = this.getOutputPath(`index.${typescript ? 'ts' : 'js'}`, options);
+    await fs.writeFile(indexPath, content, 'utf-8');
+
+    return indexPath;
+  }
+
+  private static getBaseSelector(classPrefix: string): string {
+    return `.${classPrefix},\n[class^="${classPrefix}-"],\n[class*=" ${classPrefix}-"]`;
+  }
+
+  private static resolveOptions(options: IconifyLoaderOptions): Required<FontOptions> {
+    return {
+      fontName: 'icons',
+      types: this.FONT_TYPES,
+      stylesheets: ['css'],
+      classPrefix: 'icon',
+      fontUrl: './',
+      startCodepoint: this.PRIVATE_USE_START,
+      ...options.fontOptions
+    };
+  }
+
+  /**
+   * Gets the viewBox for an icon as numbers, deriving it from width/height when missing
+   */
+  private static getViewBox(svg: ProcessedSVG): [number, number, number, number] {
+    return FileReader.parseViewBox(FileReader.getViewBox(svg.metadata)) as [number, number, number, number];
+  }
+
+  private static getOutputPath(fileName: string, options: IconifyLoaderOptions): string {
+    return options.outputDir
+      ? path.join(options.outputDir, fileName)
+      : `./${fileName}`;
+  }
+
+  /**
+   * Ensures output directory exists
+   */
+  private static async ensureOutputDirectory(outputDir: string): Promise<void> {
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to create output directory: ${outputDir}`,
+        { originalError: error }
+      );
+    }
+  }
+}
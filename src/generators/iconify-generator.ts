@@ -0,0 +1,236 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  ProcessedSVG,
+  IconifyLoaderOptions,
+  GenerationResult,
+  GeneratorOutput,
+  IconifyIcon,
+  IconifyAlias,
+  IconifyJSON,
+  IconifyOptions,
+  FileSystemError,
+  ValidationError
+} from '../types';
+import { SVGParser } from '../utils/svg-parser';
+import { IconifyCollection } from '../utils/iconify-collection';
+import { Diagnostics } from '../utils/diagnostics';
+import { FileReader } from '../utils/file-reader';
+import { WebComponentGenerator } from './web-component-generator';
+
+/**
+ * Iconify JSON collection generator
+ */
+export class IconifyGenerator {
+  private static readonly defaultPrefix = 'icons';
+
+  /**
+   * Checks that a single icon can be added to the collection, which is written with the whole set
+   */
+  static async generateIconOutput(svg: ProcessedSVG, _options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    this.createIcon(svg);
+    return { files: [], warnings: [], diagnostics: [] };
+  }
+
+  /**
+   * Generates the collection file of the icon set
+   */
+  static async generateAggregateOutput(svgs: ProcessedSVG[], options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return { files: [await this.generateCollectionFile(svgs, options)], warnings: [], diagnostics: [] };
+  }
+
+  /**
+   * Generates the Iconify JSON collection
+   */
+  static async generateIconify(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<GenerationResult> {
+    const result: GenerationResult = {
+      success: true,
+      files: [],
+      errors: [],
+      warnings: [],
+      diagnostics: []
+    };
+
+    try {
+      // Ensure output directory exists
+      if (options.outputDir) {
+        await this.ensureOutputDirectory(options.outputDir);
+      }
+
+      // Icons that cannot be converted are left out of the collection
+      const icons: ProcessedSVG[] = [];
+      for (const svg of svgs) {
+        try {
+          this.createIcon(svg);
+          icons.push(svg);
+        } catch (error) {
+          const errorMessage = `Failed to add ${svg.metadata.name} to Iconify collection: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMessage);
+          result.diagnostics.push(Diagnostics.fromError(error, svg.metadata.path, 'generate'));
+
+          if (options.verbose) {
+            console.error(errorMessage);
+          }
+        }
+      }
+
+      const collectionFile = await this.generateCollectionFile(icons, options);
+      result.files.push(collectionFile);
+
+      if (options.verbose) {
+        console.log(`Generated Iconify collection with ${icons.length} icons: ${collectionFile}`);
+      }
+
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.success = false;
+      result.errors.push(`Iconify generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Writes `<prefix>.json`. The most common width and height are hoisted to the
+   * collection, and icons identical to an earlier one become aliases of it.
+   */
+  static async generateCollectionFile(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string> {
+    const prefix = options.iconifyOptions?.prefix || this.defaultPrefix;
+    const names = svgs.map(svg => this.getIconName(svg.metadata.name, options));
+    this.assertUniqueNames(svgs, names);
+
+    const entries = svgs.map((svg, index) => ({ name: names[index] as string, icon: this.createIcon(svg) }));
+    const width = this.mostCommon(entries.map(({ icon }) => icon.width ?? IconifyCollection.DEFAULT_SIZE));
+    const height = this.mostCommon(entries.map(({ icon }) => icon.height ?? IconifyCollection.DEFAULT_SIZE));
+
+    const icons: Record<string, IconifyIcon> = {};
+    const aliases: Record<string, IconifyAlias> = {};
+    const parents = new Map<string, string>();
+
+    for (const { name, icon } of entries) {
+      const key = JSON.stringify(icon);
+      const parent = parents.get(key);
+
+      if (parent) {
+        aliases[name] = { parent };
+        continue;
+      }
+      parents.set(key, name);
+
+      const { width: iconWidth, height: iconHeight, ...data } = icon;
+      icons[name] = {
+        ...data,
+        ...(iconWidth !== width && { width: iconWidth }),
+        ...(iconHeight !== height && { height: iconHeight })
+      } as IconifyIcon;
+    }
+
+    const collection: IconifyJSON = { prefix, icons, aliases, width, height };
+
+    const fileName = `${prefix}.json`;
+    const filePath = options.outputDir
+      ? path.join(options.outputDir, fileName)
+      : `./${fileName}`;
+
+    await fs.writeFile(filePath, JSON.stringify(collection, null, 2) + '\n', 'utf-8');
+
+    return filePath;
+  }
+
+  /**
+   * Gets the icon name within the collection, following the web component naming
+   */
+  static getIconName(originalName: string, options: IconifyLoaderOptions): string {
+    return WebComponentGenerator.getIconId(originalName, options);
+  }
+
+  /**
+   * Validates Iconify options
+   */
+  static validateOptions(iconifyOptions: IconifyOptions): void {
+    const { prefix } = iconifyOptions;
+
+    if (prefix !== undefined && !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(prefix)) {
+      throw new ValidationError(
+        'iconifyOptions.prefix must contain only lowercase letters, digits and single hyphens',
+        { prefix }
+      );
+    }
+  }
+
+  /**
+   * Converts an icon into Iconify icon data
+   */
+  private static createIcon(svg: ProcessedSVG): IconifyIcon {
+    const root = SVGParser.parse(svg.content, svg.metadata.name);
+    return IconifyCollection.fromSVG(root, FileReader.getViewBox(svg.metadata));
+  }
+
+  /**
+   * Gets the most frequent value, preferring the first seen on ties
+   */
+  private static mostCommon(values: number[]): number {
+    const counts = new Map<number, number>();
+    let best = IconifyCollection.DEFAULT_SIZE;
+    let bestCount = 0;
+
+    for (const value of values) {
+      const count = (counts.get(value) || 0) + 1;
+      counts.set(value, count);
+
+      if (count > bestCount) {
+        best = value;
+        bestCount = count;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Ensures no two icons map to the same name
+   */
+  private static assertUniqueNames(svgs: ProcessedSVG[], names: string[]): void {
+    const seen = new Map<string, string>();
+
+    svgs.forEach((svg, index) => {
+      const name = names[index] as string;
+
+      if (!name) {
+        throw new ValidationError(
+          `Cannot derive an Iconify icon name from "${svg.metadata.name}"`,
+          { name: svg.metadata.name }
+        );
+      }
+
+      const existing = seen.get(name);
+      if (existing) {
+        throw new ValidationError(
+          `Duplicate Iconify icon name "${name}" for ${existing} and ${svg.metadata.path}`,
+          { name, files: [existing, svg.metadata.path] }
+        );
+      }
+      seen.set(name, svg.metadata.path);
+    });
+  }
+
+  /**
+   * Ensures output directory exists
+   */
+  private static async ensureOutputDirectory(outputDir: string): Promise<void> {
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to create output directory: ${outputDir}`,
+        { originalError: error }
+      );
+    }
+  }
+}
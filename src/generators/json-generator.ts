@@ -5,8 +5,10 @@ import {
   IconifyLoaderOptions,
   JSONOutput,
   GenerationResult,
+  GeneratorOutput,
   FileSystemError
 } from '../types';
+import { Concurrency } from '../utils/concurrency';
 
 /**
  * JSON metadata generator for SVG icons
@@ -23,7 +25,8 @@ export class JSONGenerator {
       success: true,
       files: [],
       errors: [],
-      warnings: []
+      warnings: [],
+      diagnostics: []
     };
 
     try {
@@ -73,10 +76,28 @@ export class JSONGenerator {
     return result;
   }
 
+  /**
+   * Generates the JSON file of a single icon, which is only written alongside an index
+   */
+  static async generateIconOutput(svg: ProcessedSVG, options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return {
+      files: options.generateIndex ? [await this.generateIndividualJSONFile(svg, options)] : [],
+      warnings: [],
+      diagnostics: []
+    };
+  }
+
+  /**
+   * Generates the JSON file with the metadata of the whole icon set
+   */
+  static async generateAggregateOutput(svgs: ProcessedSVG[], options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return { files: [await this.generateJSONFile(svgs, options)], warnings: [], diagnostics: [] };
+  }
+
   /**
    * Generates the main JSON file with all icons metadata
    */
-  private static async generateJSONFile(
+  static async generateJSONFile(
     svgs: ProcessedSVG[],
     options: IconifyLoaderOptions
   ): Promise<string> {
@@ -104,32 +125,36 @@ export class JSONGenerator {
     svgs: ProcessedSVG[],
     options: IconifyLoaderOptions
   ): Promise<string[]> {
-    const files: string[] = [];
+    return Concurrency.map(svgs, options.concurrency, svg => this.generateIndividualJSONFile(svg, options));
+  }
 
-    for (const svg of svgs) {
-      try {
-        const fileName = options.fileNameFormatter
-          ? `${options.fileNameFormatter(svg.metadata.name)}.json`
-          : `${svg.metadata.name}.json`;
+  /**
+   * Generates the JSON file for a single icon
+   */
+  static async generateIndividualJSONFile(
+    svg: ProcessedSVG,
+    options: IconifyLoaderOptions
+  ): Promise<string> {
+    try {
+      const fileName = options.fileNameFormatter
+        ? `${options.fileNameFormatter(svg.metadata.name)}.json`
+        : `${svg.metadata.name}.json`;
 
-        const filePath = options.outputDir
-          ? path.join(options.outputDir, fileName)
-          : `./${fileName}`;
+      const filePath = options.outputDir
+        ? path.join(options.outputDir, fileName)
+        : `./${fileName}`;
 
-        const individualOutput = this.createIndividualJSONOutput(svg);
-        const content = JSON.stringify(individualOutput, null, options.verbose ? 2 : 0);
+      const individualOutput = this.createIndividualJSONOutput(svg);
+      const content = JSON.stringify(individualOutput, null, options.verbose ? 2 : 0);
 
-        await fs.writeFile(filePath, content, 'utf-8');
-        files.push(filePath);
-      } catch (error) {
-        throw new FileSystemError(
-          `Failed to generate individual JSON file for ${svg.metadata.name}`,
-          { originalError: error, iconName: svg.metadata.name }
-        );
-      }
+      await fs.writeFile(filePath, content, 'utf-8');
+      return filePath;
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to generate individual JSON file for ${svg.metadata.name}`,
+        { originalError: error, iconName: svg.metadata.name }
+      );
     }
-
-    return files;
   }
 
   /**
@@ -155,6 +180,9 @@ export class JSONGenerator {
         stroke: svg.metadata.stroke,
         strokeWidth: svg.metadata.strokeWidth,
         className: svg.metadata.className,
+        palette: svg.metadata.palette,
+        colors: svg.metadata.colors,
+        analysis: svg.metadata.analysis,
         // Include SVG content if requested
         ...(options.verbose && { content: svg.content })
       };
@@ -189,6 +217,7 @@ export class JSONGenerator {
       stroke: svg.metadata.stroke,
       strokeWidth: svg.metadata.strokeWidth,
       className: svg.metadata.className,
+      analysis: svg.metadata.analysis,
       content: svg.content,
       optimized: svg.optimized || false,
       metadata: {
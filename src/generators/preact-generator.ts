@@ -0,0 +1,66 @@
+import { ReactComponentTemplate } from '../types';
+import { ComponentGenerator } from './component-generator';
+
+/**
+ * Preact component generator for SVG icons
+ */
+export class PreactGenerator extends ComponentGenerator {
+  protected static override readonly framework = 'Preact';
+
+  /**
+   * Renders the final Preact component
+   */
+  static renderComponent(template: ReactComponentTemplate): string {
+    const { componentName, props, svgContent, typescript, defaultFill, viewBox } = template;
+    const hoistedProps = props.map(prop => `      ${prop}\n`).join('');
+
+    const header = typescript
+      ? `/** @jsxImportSource preact */
+import type { JSX } from 'preact';
+
+export interface ${componentName}Props extends JSX.SVGAttributes<SVGSVGElement> {
+  size?: number | string;
+}
+`
+      : `/** @jsxImportSource preact */
+`;
+
+    return `${header}
+const ${componentName} = ({
+  size = '1em',
+  fill = ${JSON.stringify(defaultFill)},
+  ...props
+}${typescript ? `: ${componentName}Props` : ''}) => {
+  return (
+    <svg
+      width={size}
+      height={size}
+      fill={fill}
+      viewBox="${viewBox}"
+${hoistedProps}      {...props}
+    >
+${svgContent}
+    </svg>
+  );
+};
+
+export default ${componentName};
+`;
+  }
+
+  /**
+   * Renders the index type declarations for JavaScript output
+   */
+  static renderIndexDeclarations(componentNames: string[]): string {
+    const declarations = componentNames.map(name => `export declare const ${name}: FunctionComponent<IconProps>;`);
+
+    return `import type { FunctionComponent, JSX } from 'preact';
+
+export interface IconProps extends JSX.SVGAttributes<SVGSVGElement> {
+  size?: number | string;
+}
+
+${declarations.join('\n')}
+`;
+  }
+}
@@ -4,21 +4,55 @@ import {
   ProcessedSVG,
   IconifyLoaderOptions,
   ReactComponentTemplate,
+  ReactIndexEntry,
+  ReactOptions,
+  ReactTemplate,
+  ReactIndexTemplate,
   GenerationResult,
-  FileSystemError
+  GeneratorOutput,
+  FileSystemError,
+  ValidationError,
+  SVGElementNode
 } from '../types';
+import { SVGParser } from '../utils/svg-parser';
+import { JSXTransformer } from '../utils/jsx-transformer';
+import { Concurrency } from '../utils/concurrency';
+import { Diagnostics } from '../utils/diagnostics';
+import { ModuleLoader } from '../utils/module-loader';
+import { ColorNormalizer } from '../utils/color-normalizer';
+import { StrokeNormalizer } from '../utils/stroke-normalizer';
+import { FileReader } from '../utils/file-reader';
+import { DeclarationsGenerator } from './declarations-generator';
 
 /**
  * React component generator for SVG icons
  */
 export class ReactGenerator {
-  private static defaultProps: Record<string, any> = {
-    width: '1em',
-    height: '1em',
-    fill: 'currentColor',
-    'aria-hidden': 'true'
+  private static defaultProps: Record<string, string> = {
+    fill: 'currentColor'
   };
 
+  private static readonly dynamicIconName = 'Icon';
+
+  /**
+   * Attributes set by the component template itself, including those following the title prop
+   */
+  private static readonly controlledAttributes = [
+    'width',
+    'height',
+    'viewBox',
+    'fill',
+    'role',
+    'aria-hidden',
+    'aria-labelledby',
+    'focusable'
+  ];
+
+  /**
+   * Controlled attributes that `svgProps` may still set, replacing the title-dependent defaults
+   */
+  private static readonly accessibilityAttributes = ['role', 'aria-hidden', 'aria-labelledby', 'focusable'];
+
   /**
    * Generates React components from processed SVGs
    */
@@ -30,7 +64,8 @@ export class ReactGenerator {
       success: true,
       files: [],
       errors: [],
-      warnings: []
+      warnings: [],
+      diagnostics: []
     };
 
     try {
@@ -39,18 +74,30 @@ export class ReactGenerator {
         await this.ensureOutputDirectory(options.outputDir);
       }
 
-      // Generate individual component files
-      for (const svg of svgs) {
+      // Generate individual component files, reporting in input order
+      const outcomes = await Concurrency.map(svgs, options.concurrency, async svg => {
         try {
-          const componentFile = await this.generateComponentFile(svg, options);
+          return { file: await this.generateComponentFile(svg, options) };
+        } catch (error) {
+          return {
+            error: `Failed to generate component for ${svg.metadata.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            diagnostic: Diagnostics.fromError(error, svg.metadata.path, 'generate')
+          };
+        }
+      });
+
+      for (const { file: componentFile, error: errorMessage, diagnostic } of outcomes) {
+        if (componentFile) {
           result.files.push(componentFile);
 
           if (options.verbose) {
             console.log(`Generated React component: ${componentFile}`);
           }
-        } catch (error) {
-          const errorMessage = `Failed to generate component for ${svg.metadata.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        } else if (errorMessage) {
           result.errors.push(errorMessage);
+          if (diagnostic) {
+            result.diagnostics.push(diagnostic);
+          }
 
           if (options.verbose) {
             console.error(errorMessage);
@@ -73,6 +120,21 @@ export class ReactGenerator {
         }
       }
 
+      // Generate the dynamic Icon component if requested
+      if (options.reactOptions?.dynamicIcon) {
+        try {
+          const iconFile = await this.generateDynamicIconFile(svgs, options);
+          result.files.push(iconFile);
+
+          if (options.verbose) {
+            console.log(`Generated dynamic Icon component: ${iconFile}`);
+          }
+        } catch (error) {
+          const errorMessage = `Failed to generate dynamic Icon component: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMessage);
+        }
+      }
+
       result.success = result.errors.length === 0;
     } catch (error) {
       result.success = false;
@@ -82,10 +144,31 @@ export class ReactGenerator {
     return result;
   }
 
+  /**
+   * Generates the component of a single icon
+   */
+  static async generateIconOutput(svg: ProcessedSVG, options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return { files: [await this.generateComponentFile(svg, options)], warnings: [], diagnostics: [] };
+  }
+
+  /**
+   * Generates the index file and the dynamic Icon component of the icon set, when requested
+   */
+  static async generateAggregateOutput(svgs: ProcessedSVG[], options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return {
+      files: [
+        ...(options.generateIndex ? [await this.generateIndexFile(svgs, options)] : []),
+        ...(options.reactOptions?.dynamicIcon ? [await this.generateDynamicIconFile(svgs, options)] : [])
+      ],
+      warnings: [],
+      diagnostics: []
+    };
+  }
+
   /**
    * Generates a single React component file
    */
-  private static async generateComponentFile(
+  static async generateComponentFile(
     svg: ProcessedSVG,
     options: IconifyLoaderOptions
   ): Promise<string> {
@@ -100,7 +183,10 @@ export class ReactGenerator {
       ? path.join(options.outputDir, fileName)
       : `./${fileName}`;
 
-    const content = this.renderComponent(template);
+    const render = await this.loadTemplate(options.reactOptions?.template, 'template');
+    const content = render
+      ? await render(template, svg.metadata)
+      : this.renderComponent(template);
 
     await fs.writeFile(filePath, content, 'utf-8');
 
@@ -110,30 +196,19 @@ export class ReactGenerator {
   /**
    * Generates an index file that exports all components
    */
-  private static async generateIndexFile(
+  static async generateIndexFile(
     svgs: ProcessedSVG[],
     options: IconifyLoaderOptions
   ): Promise<string> {
-    const exports: string[] = [];
-    const types: string[] = [];
-
-    for (const svg of svgs) {
+    const entries: ReactIndexEntry[] = svgs.map(svg => {
       const componentName = this.getComponentName(svg.metadata.name, options);
-      const importPath = `./${componentName}`;
-
-      if (options.typescript) {
-        exports.push(`export { default as ${componentName} } from '${importPath}';`);
-        types.push(`  ${componentName}: typeof ${componentName};`);
-      } else {
-        exports.push(`export { default as ${componentName} } from '${importPath}';`);
-      }
-    }
-
-    let content = exports.join('\n');
+      return { componentName, importPath: `./${componentName}`, metadata: svg.metadata };
+    });
 
-    if (options.typescript && types.length > 0) {
-      content += '\n\nexport interface IconComponents {\n' + types.join('\n') + '\n}\n';
-    }
+    const render = await this.loadTemplate(options.reactOptions?.indexTemplate, 'indexTemplate');
+    const content = render
+      ? await render(entries, options)
+      : this.renderIndex(entries, options.typescript || false);
 
     const indexPath = options.outputDir
       ? path.join(options.outputDir, `index.${options.typescript ? 'ts' : 'js'}`)
@@ -144,6 +219,87 @@ export class ReactGenerator {
     return indexPath;
   }
 
+  /**
+   * Generates an `Icon` component rendering any icon by name, loading each
+   * component on first use through `React.lazy`
+   */
+  static async generateDynamicIconFile(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string> {
+    const icons = svgs.map(svg => ({
+      name: DeclarationsGenerator.getIconName(svg.metadata.name, options),
+      componentName: this.getComponentName(svg.metadata.name, options)
+    }));
+
+    // The Icon file would overwrite an icon's component
+    const clash = svgs.find((_, index) => icons[index]?.componentName === this.dynamicIconName);
+    if (clash) {
+      throw new ValidationError(
+        `${clash.metadata.path} would generate a component named ${this.dynamicIconName}, which is reserved for reactOptions.dynamicIcon`,
+        { file: clash.metadata.path }
+      );
+    }
+
+    const names = new Set<string>();
+    const entries: string[] = [];
+    for (const { name, componentName } of icons) {
+      if (name && !names.has(name)) {
+        names.add(name);
+        entries.push(`  '${name}': React.lazy(() => import('./${componentName}'))`);
+      }
+    }
+
+    const content = this.renderDynamicIcon([...names], entries, options.typescript || false);
+    const fileName = `${this.dynamicIconName}.${options.typescript ? 'tsx' : 'jsx'}`;
+    const filePath = options.outputDir
+      ? path.join(options.outputDir, fileName)
+      : `./${fileName}`;
+
+    await fs.writeFile(filePath, content, 'utf-8');
+
+    return filePath;
+  }
+
+  /**
+   * Validates React options
+   */
+  static validateOptions(reactOptions: ReactOptions): void {
+    for (const key of ['template', 'indexTemplate'] as const) {
+      const template = reactOptions[key];
+
+      if (template !== undefined && typeof template !== 'function' && (typeof template !== 'string' || !template)) {
+        throw new ValidationError(
+          `reactOptions.${key} must be a function or the path of a module exporting one`,
+          { [key]: template }
+        );
+      }
+    }
+  }
+
+  /**
+   * Resolves a template option, loading it from its module when given as a path
+   */
+  private static async loadTemplate<T extends ReactTemplate | ReactIndexTemplate>(
+    template: T | string | undefined,
+    key: 'template' | 'indexTemplate'
+  ): Promise<T | undefined> {
+    if (typeof template !== 'string') {
+      return template;
+    }
+
+    const exported = await ModuleLoader.load(template);
+
+    if (typeof exported !== 'function') {
+      throw new ValidationError(
+        `reactOptions.${key} module must export a function: ${template}`,
+        { [key]: template }
+      );
+    }
+
+    return exported;
+  }
+
   /**
    * Creates a React component template
    */
@@ -152,145 +308,316 @@ export class ReactGenerator {
     componentName: string,
     options: IconifyLoaderOptions
   ): ReactComponentTemplate {
-    const props = this.generateProps(svg, options);
-    const svgContent = this.prepareSVGContent(svg);
+    const root = SVGParser.parse(svg.content, svg.metadata.name);
+    const colors = svg.metadata.colors;
+    if (colors) {
+      ColorNormalizer.applyTheme(root, colors);
+    }
+
+    // In props mode the colour props set the custom properties through the style prop
+    const colorProps = colors?.filter(color => color.prop) || [];
+
+    // Outline icons get a strokeWidth prop, set on the root <svg> and inherited by their shapes
+    const iconStrokeWidth = StrokeNormalizer.getStrokeWidth(root);
+    if (iconStrokeWidth !== undefined) {
+      StrokeNormalizer.inheritStrokeWidth(root, iconStrokeWidth);
+    }
+    const strokeWidth = iconStrokeWidth === undefined
+      ? undefined
+      : String(options.strokeOptions?.strokeWidth ?? iconStrokeWidth);
+    const { props, defaultFill, styleEntries, accessibilityProps } = this.generateProps(root, options, colorProps.length > 0, strokeWidth !== undefined);
+    const defaultTitle = this.extractTitle(root);
+    const svgContent = this.prepareSVGContent(root);
 
     return {
       componentName,
       props,
       svgContent,
-      typescript: options.typescript || false
+      typescript: options.typescript || false,
+      defaultFill,
+      viewBox: FileReader.getViewBox(svg.metadata),
+      ...(defaultTitle && { defaultTitle }),
+      forwardRef: options.reactOptions?.forwardRef || false,
+      memo: options.reactOptions?.memo || false,
+      ...(colorProps.length > 0 && { colors: colorProps, styleEntries }),
+      ...(strokeWidth !== undefined && {
+        strokeWidth,
+        absoluteStrokeWidth: options.strokeOptions?.absoluteStrokeWidth || false
+      }),
+      ...(accessibilityProps.length > 0 && { accessibilityProps })
     };
   }
 
   /**
-   * Generates component props interface
+   * Generates the JSX attributes hoisted from the source <svg> onto the component's <svg>
    */
-  private static generateProps(svg: ProcessedSVG, options: IconifyLoaderOptions): string[] {
-    const props: string[] = [];
-
-    // Merge default props with user-defined props
-    const mergedProps = { ...this.defaultProps, ...options.svgProps };
-
-    // Add SVG attributes from metadata
-    if (svg.metadata['width']) mergedProps['width'] = svg.metadata['width'];
-    if (svg.metadata['height']) mergedProps['height'] = svg.metadata['height'];
-    if (svg.metadata['viewBox']) mergedProps['viewBox'] = svg.metadata['viewBox'];
-    if (svg.metadata['fill']) mergedProps['fill'] = svg.metadata['fill'];
-    if (svg.metadata['stroke']) mergedProps['stroke'] = svg.metadata['stroke'];
-    if (svg.metadata['strokeWidth']) mergedProps['strokeWidth'] = svg.metadata['strokeWidth'];
-    if (svg.metadata['className']) mergedProps['className'] = svg.metadata['className'];
-
-    // Convert props to string array
-    for (const [key, value] of Object.entries(mergedProps)) {
-      if (typeof value === 'string') {
-        props.push(`${key}="${value}"`);
-      } else if (typeof value === 'number' || typeof value === 'boolean') {
-        props.push(`${key}={${value}}`);
-      } else {
-        props.push(`${key}="${String(value)}"`);
+  private static generateProps(
+    root: SVGElementNode,
+    options: IconifyLoaderOptions,
+    mergeStyle = false,
+    controlStrokeWidth = false
+  ): { props: string[]; defaultFill: string; styleEntries: string[]; accessibilityProps: string[] } {
+    // Source attributes take precedence over user-defined defaults, whether given as SVG or JSX names
+    const mergedProps = JSXTransformer.mergeAttributes([this.defaultProps, options.svgProps || {}, root.attributes]);
+
+    const defaultFill = mergedProps['fill'] || 'currentColor';
+
+    // Accessibility attributes given explicitly in svgProps replace the template's defaults
+    const accessibility: Record<string, string> = {};
+    for (const key of this.accessibilityAttributes) {
+      const value = options.svgProps?.[key];
+      if (value !== undefined && value !== null) {
+        accessibility[key] = String(value);
+      }
+    }
+
+    // Attributes controlled by the component template itself
+    const controlled = [...this.controlledAttributes, ...(controlStrokeWidth ? ['stroke-width'] : [])]
+      .map(key => JSXTransformer.toJSXAttributeName(key));
+    for (const key of Object.keys(mergedProps)) {
+      if (controlled.includes(JSXTransformer.toJSXAttributeName(key))) {
+        delete mergedProps[key];
       }
     }
 
-    return props;
+    // The source style is merged into the template's own style prop
+    const style = mergeStyle ? mergedProps['style'] : undefined;
+    if (mergeStyle) {
+      delete mergedProps['style'];
+    }
+
+    return {
+      props: JSXTransformer.renderAttributes(mergedProps),
+      defaultFill,
+      styleEntries: style ? JSXTransformer.renderStyleEntries(JSXTransformer.styleToObject(style)) : [],
+      accessibilityProps: JSXTransformer.renderAttributes(accessibility)
+    };
   }
 
   /**
-   * Prepares SVG content for React component
+   * Removes the source <title>, if SVGO kept it, so its text can become the default title prop
    */
-  private static prepareSVGContent(svg: ProcessedSVG): string {
-    let content = svg.content;
-
-    // Remove XML declaration if present
-    content = content.replace(/<\?xml[^>]*\?>/g, '');
+  private static extractTitle(root: SVGElementNode): string | undefined {
+    const index = root.children.findIndex(child => child.type === 'element' && child.name === 'title');
+    const title = root.children[index];
 
-    // Remove DOCTYPE if present
-    content = content.replace(/<!DOCTYPE[^>]*>/g, '');
+    if (!title || title.type !== 'element') {
+      return undefined;
+    }
 
-    // Remove comments
-    content = content.replace(/<!--[\s\S]*?-->/g, '');
+    root.children.splice(index, 1);
 
-    // Clean up whitespace
-    content = content.replace(/\s+/g, ' ');
-    content = content.replace(/>\s+</g, '><');
+    const text = title.children
+      .map(child => (child.type === 'text' ? child.value : ''))
+      .join('')
+      .trim();
 
-    // Ensure proper indentation for JSX
-    const lines = content.split('\n');
-    const indentedLines = lines.map((line, index) => {
-      const trimmed = line.trim();
-      if (index === 0) return trimmed;
-      if (trimmed) return '      ' + trimmed;
-      return '';
-    });
+    return text || undefined;
+  }
 
-    return indentedLines.join('\n');
+  /**
+   * Converts the children of the source <svg> into JSX
+   */
+  private static prepareSVGContent(root: SVGElementNode): string {
+    return JSXTransformer.renderChildren(root.children, '      ');
   }
 
   /**
-   * Renders the final React component
+   * Renders the default React component. Custom templates may call this to wrap the default output.
    */
-  private static renderComponent(template: ReactComponentTemplate): string {
-    const { componentName, svgContent, typescript } = template;
+  static renderComponent(template: ReactComponentTemplate): string {
+    const { componentName, props, svgContent, typescript, defaultFill, viewBox, defaultTitle, forwardRef, memo } = template;
+    const colors = template.colors || [];
+    const hoistedProps = props.map(prop => `      ${prop}\n`).join('');
+    const titleParam = defaultTitle ? `title = ${JSON.stringify(defaultTitle)}` : 'title';
+    const colorParams = colors.map(({ prop }) => `  ${prop},\n`).join('') + (colors.length > 0 ? '  style,\n' : '');
+    const strokeParams = template.strokeWidth !== undefined
+      ? `  strokeWidth = ${this.toLiteral(template.strokeWidth)},\n  absoluteStrokeWidth = ${template.absoluteStrokeWidth || false},\n`
+      : '';
+
+    const params = `{
+  size = '1em',
+  fill = ${JSON.stringify(defaultFill)},
+  ${titleParam},
+  titleId,
+${strokeParams}${colorParams}  ...props
+}`;
+
+    // Absolute stroke widths are scaled from viewBox units to the rendered size in pixels
+    const viewBoxWidth = Number(viewBox.split(/[\s,]+/)[2]) || 24;
+    const strokeProp = template.strokeWidth !== undefined
+      ? `      strokeWidth={absoluteStrokeWidth && pixels > 0 ? (parseFloat(String(strokeWidth)) * ${viewBoxWidth}) / pixels : strokeWidth}\n`
+      : '';
+    const sizeStatements = template.strokeWidth !== undefined
+      ? `  // Sizes in px, em or rem are converted to pixels, taking 1em as 16px
+  const sizeMatch = /^\\s*(\\d*\\.?\\d+)(px|r?em)?\\s*$/.exec(String(size));
+  const pixels = sizeMatch ? Number(sizeMatch[1]) * (sizeMatch[2] && sizeMatch[2] !== 'px' ? 16 : 1) : 0;
+
+`
+      : '';
+
+    // Unset colour props are left out of the style, so the original colours apply
+    const styleEntries = [
+      ...(template.styleEntries || []),
+      ...colors.map(({ variable, prop }) => `'${variable}': ${prop}`),
+      '...style'
+    ];
+    const styleProp = colors.length > 0
+      ? `      style={{ ${styleEntries.join(', ')} }${typescript ? ' as React.CSSProperties' : ''}}\n`
+      : '';
+
+    // Labelled icons are exposed as images; decorative ones are hidden from assistive technology
+    const accessibility: Record<string, string> = {
+      role: `role={title ? 'img' : undefined}`,
+      'aria-hidden': `aria-hidden={title ? undefined : 'true'}`,
+      'aria-labelledby': `aria-labelledby={title ? titleId : undefined}`,
+      focusable: `focusable={title ? undefined : 'false'}`
+    };
+    for (const prop of template.accessibilityProps || []) {
+      accessibility[prop.slice(0, prop.indexOf('='))] = prop;
+    }
+    const accessibilityProps = Object.values(accessibility).map(prop => `      ${prop}\n`).join('');
 
+    const svgElement = `    <svg
+${forwardRef ? '      ref={ref}\n' : ''}      width={size}
+      height={size}
+      fill={fill}
+${strokeProp}      viewBox="${viewBox}"
+${hoistedProps}${accessibilityProps}      {...props}
+${styleProp}    >
+      {title ? <title id={titleId}>{title}</title> : null}
+${svgContent}
+    </svg>`;
+
+    const body = `{
+${sizeStatements}  return (
+${svgElement}
+  );
+}`;
+
+    let declaration: string;
+    if (forwardRef) {
+      const typeArguments = typescript ? `<SVGSVGElement, ${componentName}Props>` : '';
+      declaration = `const ${componentName} = React.forwardRef${typeArguments}((${params}, ref) => ${body});`;
+    } else {
+      const type = typescript ? `: React.FC<${componentName}Props>` : '';
+      declaration = `const ${componentName}${type} = (${params}) => ${body};`;
+    }
 
+    // Wrapped components are anonymous, so they are named for React DevTools
+    if (forwardRef || memo) {
+      declaration += `\n\n${componentName}.displayName = '${componentName}';`;
+    }
 
-    if (typescript) {
-      return `import React from 'react';
+    // Forwarded refs replace the legacy ref of the props, which may be a string
+    const baseProps = forwardRef ? `Omit<React.SVGProps<SVGSVGElement>, 'ref'>` : 'React.SVGProps<SVGSVGElement>';
+    const header = typescript
+      ? `import React from 'react';
 
-export interface ${componentName}Props extends React.SVGProps<SVGSVGElement> {
+export interface ${componentName}Props extends ${baseProps} {
   size?: number | string;
-}
+  title?: string;
+  titleId?: string;
+${template.strokeWidth !== undefined ? '  absoluteStrokeWidth?: boolean;\n' : ''}${colors.map(({ prop }) => `  ${prop}?: string;\n`).join('')}}
+`
+      : `import React from 'react';
+`;
 
-const ${componentName}: React.FC<${componentName}Props> = ({
-  size = '1em',
-  fill = 'currentColor',
-  ...props
-}) => {
-  return (
-    <svg
-      width={size}
-      height={size}
-      fill={fill}
-      viewBox="0 0 24 24"
-      {...props}
-    >
-${svgContent}
-    </svg>
-  );
-};
+    return `${header}
+${declaration}
 
-export default ${componentName};
+export default ${memo ? `React.memo(${componentName})` : componentName};
 `;
-    } else {
-      return `import React from 'react';
+  }
+
+  /**
+   * Renders a numeric attribute value as a number literal and anything else as a string literal
+   */
+  private static toLiteral(value: string): string {
+    return /^-?\d+(\.\d+)?$/.test(value) ? value : JSON.stringify(value);
+  }
+
+  /**
+   * Renders the dynamic Icon component. Unknown names render nothing.
+   */
+  private static renderDynamicIcon(names: string[], entries: string[], typescript: boolean): string {
+    const component = `const ${this.dynamicIconName} = ({ name, fallback = null, ...props }${typescript ? ': IconProps' : ''}) => {
+  // Names such as "constructor" must not resolve to Object.prototype members
+  const Component = Object.prototype.hasOwnProperty.call(icons, name) ? icons[name] : undefined;
+
+  if (!Component) {
+    return null;
+  }
 
-const ${componentName} = ({
-  size = '1em',
-  fill = 'currentColor',
-  ...props
-}) => {
   return (
-    <svg
-      width={size}
-      height={size}
-      fill={fill}
-      viewBox="0 0 24 24"
-      {...props}
-    >
-${svgContent}
-    </svg>
+    <Suspense fallback={fallback}>
+      <Component {...props} />
+    </Suspense>
   );
 };
 
-export default ${componentName};
+export default ${this.dynamicIconName};
 `;
+
+    if (!typescript) {
+      return `import React, { Suspense } from 'react';
+
+const icons = {
+${entries.join(',\n')}
+};
+
+export const iconNames = Object.keys(icons);
+
+${component}`;
     }
+
+    const union = names.length > 0 ? names.map(name => `'${name}'`).join(' | ') : 'never';
+
+    return `import React, { Suspense } from 'react';
+
+export type IconName = ${union};
+
+type IconComponentProps = Omit<React.SVGProps<SVGSVGElement>, 'ref'> & {
+  size?: number | string;
+  title?: string;
+  titleId?: string;
+};
+
+export interface IconProps extends IconComponentProps {
+  name: IconName;
+  fallback?: React.ReactNode;
+}
+
+const icons: Record<IconName, React.LazyExoticComponent<React.ComponentType<IconComponentProps>>> = {
+${entries.join(',\n')}
+};
+
+export const iconNames = Object.keys(icons) as IconName[];
+
+${component}`;
+  }
+
+  /**
+   * Renders the default index file re-exporting every component
+   */
+  static renderIndex(entries: ReactIndexEntry[], typescript: boolean): string {
+    const exports = entries.map(({ componentName, importPath }) => `export { default as ${componentName} } from '${importPath}';`);
+    let content = exports.join('\n');
+
+    if (typescript && entries.length > 0) {
+      // Re-exports do not bring the components into scope, so their types are imported inline
+      const types = entries.map(({ componentName, importPath }) => `  ${componentName}: typeof import('${importPath}').default;`);
+      content += '\n\nexport interface IconComponents {\n' + types.join('\n') + '\n}\n';
+    }
+
+    return content;
   }
 
   /**
-   * Gets component name using formatter or default logic
+   * Gets component name using formatter or default logic.
+   * Shared by every component generator so all targets name icons alike.
    */
-  private static getComponentName(originalName: string, options: IconifyLoaderOptions): string {
+  static getComponentName(originalName: string, options: IconifyLoaderOptions): string {
     if (options.reactComponentName) {
       return options.reactComponentName(originalName);
     }
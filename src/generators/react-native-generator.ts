@@ -0,0 +1,372 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  ProcessedSVG,
+  IconifyLoaderOptions,
+  ReactNativeComponentTemplate,
+  GenerationResult,
+  GeneratorOutput,
+  FileSystemError,
+  SVGElementNode,
+  SVGNode
+} from '../types';
+import { SVGParser } from '../utils/svg-parser';
+import { JSXTransformer } from '../utils/jsx-transformer';
+import { Concurrency } from '../utils/concurrency';
+import { Diagnostics } from '../utils/diagnostics';
+import { FileReader } from '../utils/file-reader';
+import { ReactGenerator } from './react-generator';
+
+/**
+ * React Native component generator rendering icons with react-native-svg primitives
+ */
+export class ReactNativeGenerator {
+  private static defaultProps: Record<string, string> = {
+    fill: 'currentColor'
+  };
+
+  private static readonly controlledAttributes = ['width', 'height', 'viewBox', 'fill'];
+
+  /**
+   * Non-rendering elements that are dropped without a warning
+   */
+  private static readonly ignoredElements = ['title', 'desc', 'metadata'];
+
+  /**
+   * Generates React Native components from processed SVGs
+   */
+  static async generateComponents(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<GenerationResult> {
+    const result: GenerationResult = {
+      success: true,
+      files: [],
+      errors: [],
+      warnings: [],
+      diagnostics: []
+    };
+
+    try {
+      // Ensure output directory exists
+      if (options.outputDir) {
+        await this.ensureOutputDirectory(options.outputDir);
+      }
+
+      // Generate individual component files, reporting in input order
+      const outcomes = await Concurrency.map(svgs, options.concurrency, async svg => {
+        try {
+          const { files: [file], warnings, diagnostics } = await this.generateIconOutput(svg, options);
+          return { file, warnings, diagnostics };
+        } catch (error) {
+          return {
+            error: `Failed to generate React Native component for ${svg.metadata.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            diagnostic: Diagnostics.fromError(error, svg.metadata.path, 'generate')
+          };
+        }
+      });
+
+      for (const { file: componentFile, warnings, diagnostics, error: errorMessage, diagnostic } of outcomes) {
+        if (componentFile) {
+          result.files.push(componentFile);
+          result.warnings.push(...warnings);
+          result.diagnostics.push(...diagnostics);
+
+          if (options.verbose) {
+            console.log(`Generated React Native component: ${componentFile}`);
+          }
+        } else if (errorMessage) {
+          result.errors.push(errorMessage);
+          if (diagnostic) {
+            result.diagnostics.push(diagnostic);
+          }
+
+          if (options.verbose) {
+            console.error(errorMessage);
+          }
+        }
+      }
+
+      // Generate index file if requested
+      if (options.generateIndex) {
+        try {
+          const indexFiles = await this.generateIndexFiles(svgs, options);
+          result.files.push(...indexFiles);
+
+          if (options.verbose) {
+            console.log(`Generated React Native index files: ${indexFiles.join(', ')}`);
+          }
+        } catch (error) {
+          const errorMessage = `Failed to generate React Native index file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMessage);
+        }
+      }
+
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.success = false;
+      result.errors.push(`React Native generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Generates the component of a single icon, warning about content react-native-svg cannot render
+   */
+  static async generateIconOutput(svg: ProcessedSVG, options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    const { file, warnings } = await this.writeComponentFile(svg, options);
+
+    return {
+      files: [file],
+      warnings: warnings.map(warning => `${svg.metadata.name}: ${warning}`),
+      diagnostics: warnings.map(warning => Diagnostics.warning(svg.metadata.path, 'UNSUPPORTED_CONTENT', warning, 'generate'))
+    };
+  }
+
+  /**
+   * Generates the index files of the icon set, when requested
+   */
+  static async generateAggregateOutput(svgs: ProcessedSVG[], options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return {
+      files: options.generateIndex ? await this.generateIndexFiles(svgs, options) : [],
+      warnings: [],
+      diagnostics: []
+    };
+  }
+
+  /**
+   * Generates a single React Native component file
+   */
+  static async generateComponentFile(
+    svg: ProcessedSVG,
+    options: IconifyLoaderOptions
+  ): Promise<string> {
+    return (await this.writeComponentFile(svg, options)).file;
+  }
+
+  /**
+   * Writes a component file, returning the content that had to be left out
+   */
+  private static async writeComponentFile(
+    svg: ProcessedSVG,
+    options: IconifyLoaderOptions
+  ): Promise<{ file: string; warnings: string[] }> {
+    const componentName = ReactGenerator.getComponentName(svg.metadata.name, options);
+    const { template, warnings } = this.createComponentTemplate(svg, componentName, options);
+
+    const fileName = options.fileNameFormatter
+      ? options.fileNameFormatter(componentName)
+      : `${componentName}.${options.typescript ? 'tsx' : 'jsx'}`;
+
+    const filePath = options.outputDir
+      ? path.join(options.outputDir, fileName)
+      : `./${fileName}`;
+
+    const content = this.renderComponent(template);
+
+    await fs.writeFile(filePath, content, 'utf-8');
+
+    return { file: filePath, warnings };
+  }
+
+  /**
+   * Generates the index file, plus type declarations for JavaScript output
+   */
+  static async generateIndexFiles(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    const componentNames = svgs.map(svg => ReactGenerator.getComponentName(svg.metadata.name, options));
+    const exports = componentNames.map(name => `export { default as ${name} } from './${name}';`);
+    const files: string[] = [];
+
+    if (options.typescript) {
+      const types = componentNames.map(name => `export type { ${name}Props } from './${name}';`);
+      files.push(await this.writeFile('index.ts', [...exports, ...types].join('\n') + '\n', options));
+    } else {
+      const declarations = componentNames.map(name => `export declare const ${name}: FunctionComponent<IconProps>;`);
+      const content = `import type { FunctionComponent } from 'react';
+import type { SvgProps } from 'react-native-svg';
+
+export interface IconProps extends SvgProps {
+  size?: number | string;
+}
+
+${declarations.join('\n')}
+`;
+      files.push(await this.writeFile('index.js', exports.join('\n') + '\n', options));
+      files.push(await this.writeFile('index.d.ts', content, options));
+    }
+
+    return files;
+  }
+
+  /**
+   * Creates a React Native component template, removing content react-native-svg cannot render
+   */
+  private static createComponentTemplate(
+    svg: ProcessedSVG,
+    componentName: string,
+    options: IconifyLoaderOptions
+  ): { template: ReactNativeComponentTemplate; warnings: string[] } {
+    const root = SVGParser.parse(svg.content, svg.metadata.name);
+    const { props, defaultFill } = this.generateProps(root, options);
+    const primitives = new Set<string>();
+    const warnings = new Set<string>();
+    const children = this.toNativeNodes(root.children, primitives, warnings);
+
+    return {
+      template: {
+        componentName,
+        props,
+        svgContent: JSXTransformer.renderChildren(children, '      ', false, 'native'),
+        typescript: options.typescript || false,
+        defaultFill,
+        viewBox: FileReader.getViewBox(svg.metadata),
+        primitives: [...primitives].sort()
+      },
+      warnings: [...warnings]
+    };
+  }
+
+  /**
+   * Drops elements without a react-native-svg primitive, collecting the primitives in use
+   */
+  private static toNativeNodes(nodes: SVGNode[], primitives: Set<string>, warnings: Set<string>): SVGNode[] {
+    const result: SVGNode[] = [];
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        result.push(node);
+        continue;
+      }
+
+      const primitive = JSXTransformer.NATIVE_ELEMENTS[node.name];
+
+      if (!primitive) {
+        // Editor namespaces and descriptive elements render nothing anyway
+        if (!node.name.includes(':') && !this.ignoredElements.includes(node.name)) {
+          warnings.add(`<${node.name}> is not supported by react-native-svg and was removed`);
+        }
+        continue;
+      }
+
+      const attributes = { ...node.attributes };
+      if (attributes['filter'] !== undefined) {
+        delete attributes['filter'];
+        warnings.add('filter attributes are not supported by react-native-svg and were removed');
+      }
+
+      // Nested <svg> elements use the default Svg import
+      if (primitive !== 'Svg') {
+        primitives.add(primitive);
+      }
+      result.push({
+        ...node,
+        attributes,
+        children: this.toNativeNodes(node.children, primitives, warnings)
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Generates the JSX attributes hoisted from the source <svg> onto the component's <svg>
+   */
+  private static generateProps(
+    root: SVGElementNode,
+    options: IconifyLoaderOptions
+  ): { props: string[]; defaultFill: string } {
+    // Source attributes take precedence over user-defined defaults
+    const mergedProps: Record<string, string> = { ...this.defaultProps };
+
+    for (const [key, value] of Object.entries(options.svgProps || {})) {
+      if (value !== undefined && value !== null) {
+        mergedProps[key] = String(value);
+      }
+    }
+    Object.assign(mergedProps, root.attributes);
+
+    const defaultFill = mergedProps['fill'] || 'currentColor';
+
+    // Attributes controlled by the component template itself
+    for (const key of this.controlledAttributes) {
+      delete mergedProps[key];
+    }
+
+    return {
+      props: JSXTransformer.renderAttributes(mergedProps, 'native'),
+      defaultFill
+    };
+  }
+
+  /**
+   * Renders the final React Native component
+   */
+  private static renderComponent(template: ReactNativeComponentTemplate): string {
+    const { componentName, props, svgContent, typescript, defaultFill, viewBox, primitives } = template;
+    const hoistedProps = props.map(prop => `      ${prop}\n`).join('');
+    const namedImports = [...primitives, ...(typescript ? ['type SvgProps'] : [])];
+    const importLine = namedImports.length > 0
+      ? `import Svg, { ${namedImports.join(', ')} } from 'react-native-svg';`
+      : `import Svg from 'react-native-svg';`;
+
+    const header = typescript
+      ? `${importLine}
+
+export interface ${componentName}Props extends SvgProps {
+  size?: number | string;
+}
+`
+      : `${importLine}
+`;
+
+    return `${header}
+const ${componentName} = ({
+  size = 24,
+  fill = ${JSON.stringify(defaultFill)},
+  ...props
+}${typescript ? `: ${componentName}Props` : ''}) => {
+  return (
+    <Svg
+      width={size}
+      height={size}
+      fill={fill}
+      viewBox="${viewBox}"
+${hoistedProps}      {...props}
+    >
+${svgContent}
+    </Svg>
+  );
+};
+
+export default ${componentName};
+`;
+  }
+
+  private static async writeFile(fileName: string, content: string, options: IconifyLoaderOptions): Promise<string> {
+    const filePath = options.outputDir
+      ? path.join(options.outputDir, fileName)
+      : `./${fileName}`;
+
+    await fs.writeFile(filePath, content, 'utf-8');
+
+    return filePath;
+  }
+
+  /**
+   * Ensures output directory exists
+   */
+  private static async ensureOutputDirectory(outputDir: string): Promise<void> {
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to create output directory: ${outputDir}`,
+        { originalError: error }
+      );
+    }
+  }
+}
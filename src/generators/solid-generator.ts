@@ -0,0 +1,85 @@
+import { ReactComponentTemplate } from '../types';
+import { ComponentGenerator } from './component-generator';
+
+/**
+ * SolidJS component generator for SVG icons
+ */
+export class SolidGenerator extends ComponentGenerator {
+  protected static override readonly framework = 'Solid';
+
+  /**
+   * Renders the final Solid component
+   */
+  static renderComponent(template: ReactComponentTemplate): string {
+    const { componentName, props, svgContent, typescript, defaultFill, viewBox } = template;
+    const hoistedProps = props.map(prop => `      ${prop}\n`).join('');
+
+    if (typescript) {
+      return `/** @jsxImportSource solid-js */
+import { splitProps, type JSX } from 'solid-js';
+
+export interface ${componentName}Props extends JSX.SvgSVGAttributes<SVGSVGElement> {
+  size?: number | string;
+}
+
+const ${componentName} = (props: ${componentName}Props) => {
+  // Props stay reactive, so they are split instead of destructured
+  const [local, others] = splitProps(props, ['size', 'fill']);
+
+  return (
+    <svg
+      width={local.size ?? '1em'}
+      height={local.size ?? '1em'}
+      fill={local.fill ?? ${JSON.stringify(defaultFill)}}
+      viewBox="${viewBox}"
+${hoistedProps}      {...others}
+    >
+${svgContent}
+    </svg>
+  );
+};
+
+export default ${componentName};
+`;
+    } else {
+      return `/** @jsxImportSource solid-js */
+import { splitProps } from 'solid-js';
+
+const ${componentName} = (props) => {
+  // Props stay reactive, so they are split instead of destructured
+  const [local, others] = splitProps(props, ['size', 'fill']);
+
+  return (
+    <svg
+      width={local.size ?? '1em'}
+      height={local.size ?? '1em'}
+      fill={local.fill ?? ${JSON.stringify(defaultFill)}}
+      viewBox="${viewBox}"
+${hoistedProps}      {...others}
+    >
+${svgContent}
+    </svg>
+  );
+};
+
+export default ${componentName};
+`;
+    }
+  }
+
+  /**
+   * Renders the index type declarations for JavaScript output
+   */
+  static renderIndexDeclarations(componentNames: string[]): string {
+    const declarations = componentNames.map(name => `export declare const ${name}: Component<IconProps>;`);
+
+    return `import type { Component, JSX } from 'solid-js';
+
+export interface IconProps extends JSX.SvgSVGAttributes<SVGSVGElement> {
+  size?: number | string;
+}
+
+${declarations.join('\n')}
+`;
+  }
+}
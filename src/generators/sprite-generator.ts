@@ -0,0 +1,341 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  ProcessedSVG,
+  IconifyLoaderOptions,
+  GenerationResult,
+  GeneratorOutput,
+  SVGElementNode,
+  FileSystemError,
+  ValidationError
+} from '../types';
+import { SVGParser } from '../utils/svg-parser';
+import { Diagnostics } from '../utils/diagnostics';
+import { FileReader } from '../utils/file-reader';
+import { IconNaming } from '../utils/icon-naming';
+
+/**
+ * SVG sprite generator combining all icons into a single sheet of <symbol> elements
+ */
+export class SpriteGenerator {
+  static readonly SPRITE_FILE = 'sprite.svg';
+
+  /**
+   * Root attributes that only make sense on a standalone <svg> and are dropped from symbols
+   */
+  private static readonly rootOnlyAttributes = [
+    'width',
+    'height',
+    'x',
+    'y',
+    'id',
+    'viewBox',
+    'version',
+    'baseProfile',
+    'xmlns'
+  ];
+
+  /**
+   * Attributes holding a whitespace-separated list of element ids
+   */
+  private static readonly idListAttributes = ['aria-labelledby', 'aria-describedby'];
+
+  /**
+   * Generates the sprite sheet and, when requested, its id manifest
+   */
+  static async generateSprite(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<GenerationResult> {
+    const result: GenerationResult = {
+      success: true,
+      files: [],
+      errors: [],
+      warnings: [],
+      diagnostics: []
+    };
+
+    try {
+      // Ensure output directory exists
+      if (options.outputDir) {
+        await this.ensureOutputDirectory(options.outputDir);
+      }
+
+      // Icons that cannot be converted are left out of the sheet
+      const symbols: ProcessedSVG[] = [];
+      for (const svg of svgs) {
+        try {
+          this.createSymbol(svg, options);
+          symbols.push(svg);
+        } catch (error) {
+          const errorMessage = `Failed to add ${svg.metadata.name} to sprite: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMessage);
+          result.diagnostics.push(Diagnostics.fromError(error, svg.metadata.path, 'generate'));
+
+          if (options.verbose) {
+            console.error(errorMessage);
+          }
+        }
+      }
+
+      const spriteFile = await this.generateSpriteFile(symbols, options);
+      result.files.push(spriteFile);
+
+      if (options.verbose) {
+        console.log(`Generated sprite with ${symbols.length} symbols: ${spriteFile}`);
+      }
+
+      // Generate index file if requested
+      if (options.generateIndex) {
+        try {
+          const indexFile = await this.generateIndexFile(symbols, options);
+          result.files.push(indexFile);
+
+          if (options.verbose) {
+            console.log(`Generated sprite index file: ${indexFile}`);
+          }
+        } catch (error) {
+          const errorMessage = `Failed to generate sprite index file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMessage);
+        }
+      }
+
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.success = false;
+      result.errors.push(`Sprite generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks that a single icon can become a symbol, which is written with the whole sheet
+   */
+  static async generateIconOutput(svg: ProcessedSVG, options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    this.createSymbol(svg, options);
+    return { files: [], warnings: [], diagnostics: [] };
+  }
+
+  /**
+   * Generates the sprite sheet and, when requested, its id manifest
+   */
+  static async generateAggregateOutput(svgs: ProcessedSVG[], options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return {
+      files: [
+        await this.generateSpriteFile(svgs, options),
+        ...(options.generateIndex ? [await this.generateIndexFile(svgs, options)] : [])
+      ],
+      warnings: [],
+      diagnostics: []
+    };
+  }
+
+  /**
+   * Writes the sprite sheet containing one <symbol> per icon
+   */
+  static async generateSpriteFile(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string> {
+    this.assertUniqueIds(svgs, options);
+
+    const symbols = svgs.map(svg => `  ${this.createSymbol(svg, options)}`);
+    const content = [
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" style="display: none;">',
+      ...symbols,
+      '</svg>',
+      ''
+    ].join('\n');
+
+    const filePath = options.outputDir
+      ? path.join(options.outputDir, this.SPRITE_FILE)
+      : `./${this.SPRITE_FILE}`;
+
+    await fs.writeFile(filePath, content, 'utf-8');
+
+    return filePath;
+  }
+
+  /**
+   * Generates an index file listing the symbol ids, typed as a union in TypeScript mode
+   */
+  static async generateIndexFile(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string> {
+    const ids = svgs.map(svg => this.getSymbolId(svg.metadata.name, options));
+    const idList = ids.map(id => `  '${id}'`).join(',\n');
+
+    let content: string;
+
+    if (options.typescript) {
+      content = `export const spriteIds = [
+${idList}
+] as const;
+
+export type SpriteId = typeof spriteIds[number];
+
+export const spriteFile = '${this.SPRITE_FILE}';
+
+export function spriteHref(id: SpriteId, url: string = ''): string {
+  return \`\${url}#\${id}\`;
+}
+`;
+    } else {
+      content = `export const spriteIds = [
+${idList}
+];
+
+export const spriteFile = '${this.SPRITE_FILE}';
+
+export function spriteHref(id, url = '') {
+  return \`\${url}#\${id}\`;
+}
+`;
+    }
+
+    const indexPath = options.outputDir
+      ? path.join(options.outputDir, `index.${options.typescript ? 'ts' : 'js'}`)
+      : `./index.${options.typescript ? 'ts' : 'js'}`;
+
+    await fs.writeFile(indexPath, content, 'utf-8');
+
+    return indexPath;
+  }
+
+  /**
+   * Gets the symbol id for an icon, keeping its original case
+   */
+  static getSymbolId(originalName: string, options: IconifyLoaderOptions): string {
+    return IconNaming.getId(originalName, options);
+  }
+
+  /**
+   * Converts an icon into a <symbol> element keeping its own viewBox
+   */
+  private static createSymbol(svg: ProcessedSVG, options: IconifyLoaderOptions): string {
+    const root = SVGParser.parse(svg.content, svg.metadata.name);
+    const id = this.getSymbolId(svg.metadata.name, options);
+
+    if (!id) {
+      throw new ValidationError(
+        `Cannot derive a symbol id from "${svg.metadata.name}"`,
+        { name: svg.metadata.name }
+      );
+    }
+
+    const attributes: Record<string, string> = {
+      id,
+      viewBox: FileReader.getViewBox(svg.metadata)
+    };
+
+    // Presentation attributes on the root (fill, stroke, ...) are valid on <symbol>
+    for (const [name, value] of Object.entries(root.attributes)) {
+      if (!this.rootOnlyAttributes.includes(name) && !name.startsWith('xmlns:')) {
+        attributes[name] = value;
+      }
+    }
+
+    const symbol: SVGElementNode = {
+      type: 'element',
+      name: 'symbol',
+      attributes,
+      children: root.children
+    };
+    this.prefixIds(symbol, id);
+
+    return SVGParser.stringify(symbol);
+  }
+
+  /**
+   * Prefixes the ids inside a symbol (gradients, clip paths, masks, ...) and every reference
+   * to them with the symbol id, so icons sharing the sprite cannot resolve each other's ids
+   */
+  private static prefixIds(symbol: SVGElementNode, prefix: string): void {
+    const ids = new Map<string, string>();
+
+    const collect = (node: SVGElementNode): void => {
+      for (const child of node.children) {
+        if (child.type !== 'element') {
+          continue;
+        }
+
+        const id = child.attributes['id'];
+        if (id) {
+          ids.set(id, `${prefix}-${id}`);
+          child.attributes['id'] = `${prefix}-${id}`;
+        }
+        collect(child);
+      }
+    };
+    collect(symbol);
+
+    if (ids.size === 0) {
+      return;
+    }
+
+    const replaceUrls = (value: string): string =>
+      value.replace(/url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g, (match, quote: string, id: string) =>
+        ids.has(id) ? `url(${quote}#${ids.get(id)}${quote})` : match
+      );
+
+    const rewrite = (node: SVGElementNode): void => {
+      for (const [name, value] of Object.entries(node.attributes)) {
+        if ((name === 'href' || name === 'xlink:href') && value.startsWith('#')) {
+          node.attributes[name] = `#${ids.get(value.slice(1)) ?? value.slice(1)}`;
+        } else if (this.idListAttributes.includes(name)) {
+          node.attributes[name] = value.split(/\s+/).map(id => ids.get(id) ?? id).join(' ');
+        } else {
+          node.attributes[name] = replaceUrls(value);
+        }
+      }
+
+      for (const child of node.children) {
+        if (child.type === 'element') {
+          rewrite(child);
+        } else if (node.name === 'style') {
+          // Stylesheets may select elements by id as well as reference them through url()
+          child.value = child.value.replace(/#([\w-]+)/g, (match, id: string) =>
+            ids.has(id) ? `#${ids.get(id)}` : match
+          );
+        }
+      }
+    };
+    rewrite(symbol);
+  }
+
+  /**
+   * Ensures no two icons map to the same symbol id
+   */
+  private static assertUniqueIds(svgs: ProcessedSVG[], options: IconifyLoaderOptions): void {
+    const seen = new Map<string, string>();
+
+    for (const svg of svgs) {
+      const id = this.getSymbolId(svg.metadata.name, options);
+      const existing = seen.get(id);
+
+      if (existing) {
+        throw new ValidationError(
+          `Duplicate sprite id "${id}" for ${existing} and ${svg.metadata.path}`,
+          { id, files: [existing, svg.metadata.path] }
+        );
+      }
+      seen.set(id, svg.metadata.path);
+    }
+  }
+
+  /**
+   * Ensures output directory exists
+   */
+  private static async ensureOutputDirectory(outputDir: string): Promise<void> {
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to create output directory: ${outputDir}`,
+        { originalError: error }
+      );
+    }
+  }
+}
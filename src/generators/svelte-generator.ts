@@ -0,0 +1,129 @@
+import {
+  ProcessedSVG,
+  IconifyLoaderOptions,
+  ReactComponentTemplate,
+  SVGNode
+} from '../types';
+import { SVGParser } from '../utils/svg-parser';
+import { ComponentGenerator } from './component-generator';
+import { ReactGenerator } from './react-generator';
+
+/**
+ * Svelte component generator for SVG icons
+ */
+export class SvelteGenerator extends ComponentGenerator {
+  protected static override readonly framework = 'Svelte';
+
+  /**
+   * Generates the index file and its type declarations
+   */
+  static override async generateIndexFiles(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    const componentNames = svgs.map(svg => ReactGenerator.getComponentName(svg.metadata.name, options));
+    const exports = componentNames.map(name => `export { default as ${name} } from './${name}.svelte';`);
+
+    // .svelte files are compiled by the consumer, so the barrel is plain JavaScript
+    return [
+      await this.writeFile('index.js', exports.join('\n') + '\n', options),
+      await this.writeFile('index.d.ts', this.renderIndexDeclarations(componentNames), options)
+    ];
+  }
+
+  protected static override getFileExtension(): string {
+    return 'svelte';
+  }
+
+  /**
+   * Renders the attributes hoisted onto the component's <svg> as Svelte markup
+   */
+  protected static override renderProps(attributes: Record<string, string>): string[] {
+    return Object.entries(attributes)
+      .filter(([name]) => name !== 'xmlns')
+      .map(([name, value]) => `${name}="${this.escape(value)}"`);
+  }
+
+  /**
+   * Renders the final Svelte component
+   */
+  static renderComponent(template: ReactComponentTemplate): string {
+    const { props, svgContent, typescript, defaultFill, viewBox } = template;
+    const hoistedProps = props.map(prop => `  ${prop}\n`).join('');
+
+    const script = typescript
+      ? `<script lang="ts">
+  import type { SVGAttributes } from 'svelte/elements';
+
+  interface $$Props extends SVGAttributes<SVGSVGElement> {
+    size?: number | string;
+  }
+
+  export let size: number | string = '1em';
+  export let fill: string = ${JSON.stringify(defaultFill)};
+</script>`
+      : `<script>
+  export let size = '1em';
+  export let fill = ${JSON.stringify(defaultFill)};
+</script>`;
+
+    return `${script}
+
+<svg
+  width={size}
+  height={size}
+  {fill}
+  viewBox="${viewBox}"
+${hoistedProps}  {...$$restProps}
+>
+${svgContent}
+</svg>
+`;
+  }
+
+  /**
+   * Renders the index type declarations
+   */
+  static renderIndexDeclarations(componentNames: string[]): string {
+    const declarations = componentNames.map(name => `export declare class ${name} extends SvelteComponent<IconProps> {}`);
+
+    return `import type { SvelteComponent } from 'svelte';
+import type { SVGAttributes } from 'svelte/elements';
+
+export interface IconProps extends SVGAttributes<SVGSVGElement> {
+  size?: number | string;
+}
+
+${declarations.join('\n')}
+`;
+  }
+
+  /**
+   * Serializes the children of the source <svg> as Svelte markup, one top-level element per line
+   */
+  protected static override renderMarkup(children: SVGNode[]): string {
+    return children
+      .filter(child => child.type === 'element' || child.cdata || child.value.trim() !== '')
+      .map(child => `  ${this.escapeBraces(SVGParser.stringify(child))}`)
+      .join('\n');
+  }
+
+  /**
+   * Escapes an attribute value for Svelte markup
+   */
+  private static escape(value: string): string {
+    return this.escapeBraces(
+      value
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+    );
+  }
+
+  /**
+   * Braces start Svelte expressions, so literal ones are written as character references
+   */
+  private static escapeBraces(markup: string): string {
+    return markup.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+  }
+}
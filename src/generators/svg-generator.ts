@@ -4,8 +4,16 @@ import {
   ProcessedSVG,
   IconifyLoaderOptions,
   GenerationResult,
-  FileSystemError
+  GeneratorOutput,
+  FileSystemError,
+  SVGElementNode,
+  StrokeOptions
 } from '../types';
+import { SVGParser } from '../utils/svg-parser';
+import { ColorNormalizer } from '../utils/color-normalizer';
+import { StrokeNormalizer } from '../utils/stroke-normalizer';
+import { Concurrency } from '../utils/concurrency';
+import { Diagnostics } from '../utils/diagnostics';
 
 /**
  * SVG string generator for optimized SVG content
@@ -22,7 +30,8 @@ export class SVGGenerator {
       success: true,
       files: [],
       errors: [],
-      warnings: []
+      warnings: [],
+      diagnostics: []
     };
 
     try {
@@ -31,18 +40,30 @@ export class SVGGenerator {
         await this.ensureOutputDirectory(options.outputDir);
       }
 
-      // Generate individual SVG files
-      for (const svg of svgs) {
+      // Generate individual SVG files, reporting in input order
+      const outcomes = await Concurrency.map(svgs, options.concurrency, async svg => {
         try {
-          const svgFile = await this.generateSVGFile(svg, options);
+          return { file: await this.generateSVGFile(svg, options) };
+        } catch (error) {
+          return {
+            error: `Failed to generate SVG for ${svg.metadata.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            diagnostic: Diagnostics.fromError(error, svg.metadata.path, 'generate')
+          };
+        }
+      });
+
+      for (const { file: svgFile, error: errorMessage, diagnostic } of outcomes) {
+        if (svgFile) {
           result.files.push(svgFile);
 
           if (options.verbose) {
             console.log(`Generated SVG file: ${svgFile}`);
           }
-        } catch (error) {
-          const errorMessage = `Failed to generate SVG for ${svg.metadata.name}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        } else if (errorMessage) {
           result.errors.push(errorMessage);
+          if (diagnostic) {
+            result.diagnostics.push(diagnostic);
+          }
 
           if (options.verbose) {
             console.error(errorMessage);
@@ -74,10 +95,28 @@ export class SVGGenerator {
     return result;
   }
 
+  /**
+   * Generates the SVG file of a single icon
+   */
+  static async generateIconOutput(svg: ProcessedSVG, options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return { files: [await this.generateSVGFile(svg, options)], warnings: [], diagnostics: [] };
+  }
+
+  /**
+   * Generates the index file of the icon set, when requested
+   */
+  static async generateAggregateOutput(svgs: ProcessedSVG[], options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return {
+      files: options.generateIndex ? [await this.generateIndexFile(svgs, options)] : [],
+      warnings: [],
+      diagnostics: []
+    };
+  }
+
   /**
    * Generates a single SVG file
    */
-  private static async generateSVGFile(
+  static async generateSVGFile(
     svg: ProcessedSVG,
     options: IconifyLoaderOptions
   ): Promise<string> {
@@ -100,7 +139,7 @@ export class SVGGenerator {
   /**
    * Generates an index file that exports SVG content as strings
    */
-  private static async generateIndexFile(
+  static async generateIndexFile(
     svgs: ProcessedSVG[],
     options: IconifyLoaderOptions
   ): Promise<string> {
@@ -147,6 +186,20 @@ export class SVGGenerator {
   private static prepareSVGContent(svg: ProcessedSVG, options: IconifyLoaderOptions): string {
     let content = svg.content;
 
+    if (svg.metadata.colors || options.strokeOptions) {
+      const root = SVGParser.parse(content, svg.metadata.name);
+
+      // Theme colours through CSS custom properties
+      if (svg.metadata.colors) {
+        ColorNormalizer.applyTheme(root, svg.metadata.colors);
+      }
+      if (options.strokeOptions) {
+        this.applyStrokeOptions(root, options.strokeOptions);
+      }
+
+      content = SVGParser.stringify(root);
+    }
+
     // Add custom attributes if specified
     if (options.svgProps) {
       content = this.addCustomAttributes(content, options.svgProps);
@@ -167,6 +220,24 @@ export class SVGGenerator {
     return content;
   }
 
+  /**
+   * Overrides the stroke width of outline icons and, for absolute stroke widths,
+   * keeps strokes from scaling with the rendered size
+   */
+  private static applyStrokeOptions(root: SVGElementNode, strokeOptions: StrokeOptions): void {
+    const strokeWidth = StrokeNormalizer.getStrokeWidth(root);
+
+    if (strokeWidth !== undefined && strokeOptions.strokeWidth !== undefined) {
+      // Shapes drawn at the icon's own width follow the new width set on the root
+      StrokeNormalizer.inheritStrokeWidth(root, strokeWidth);
+      root.attributes['stroke-width'] = String(strokeOptions.strokeWidth);
+    }
+
+    if (strokeOptions.absoluteStrokeWidth) {
+      StrokeNormalizer.applyNonScalingStroke(root);
+    }
+  }
+
   /**
    * Adds custom attributes to SVG element
    */
@@ -0,0 +1,299 @@
+import {
+  ProcessedSVG,
+  IconifyLoaderOptions,
+  ReactComponentTemplate,
+  VueOptions,
+  ValidationError,
+  SVGNode
+} from '../types';
+import { ComponentGenerator } from './component-generator';
+import { ReactGenerator } from './react-generator';
+
+/**
+ * Vue 3 component generator for SVG icons, emitting single-file components
+ * or defineComponent render-function modules
+ */
+export class VueGenerator extends ComponentGenerator {
+  protected static override readonly framework = 'Vue';
+
+  private static readonly TEXT_ELEMENTS = ['text', 'tspan', 'textPath', 'title', 'desc', 'style'];
+
+  /**
+   * Generates the index file, plus type declarations for JavaScript output
+   */
+  static override async generateIndexFiles(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    const componentNames = svgs.map(svg => ReactGenerator.getComponentName(svg.metadata.name, options));
+    const importExtension = this.getMode(options) === 'sfc' ? '.vue' : '';
+    const exports = componentNames.map(name => `export { default as ${name} } from './${name}${importExtension}';`);
+
+    if (options.typescript) {
+      const imports = componentNames.map(name => `import ${name} from './${name}${importExtension}';`);
+      const types = componentNames.map(name => `  ${name}: typeof ${name};`);
+      const content = `${imports.join('\n')}
+
+${exports.join('\n')}
+
+export interface IconComponents {
+${types.join('\n')}
+}
+`;
+      return [await this.writeFile('index.ts', content, options)];
+    }
+
+    return [
+      await this.writeFile('index.js', exports.join('\n') + '\n', options),
+      await this.writeFile('index.d.ts', this.renderIndexDeclarations(componentNames), options)
+    ];
+  }
+
+  /**
+   * Validates Vue options
+   */
+  static validateOptions(vueOptions: VueOptions): void {
+    if (vueOptions.mode !== undefined && vueOptions.mode !== 'sfc' && vueOptions.mode !== 'render') {
+      throw new ValidationError(
+        'vueOptions.mode must be "sfc" or "render"',
+        { mode: vueOptions.mode }
+      );
+    }
+  }
+
+  /**
+   * Renders the final Vue component in the configured mode
+   */
+  static renderComponent(template: ReactComponentTemplate, options: IconifyLoaderOptions): string {
+    return this.getMode(options) === 'sfc'
+      ? this.renderSFC(template)
+      : this.renderModule(template);
+  }
+
+  /**
+   * Renders the index type declarations for JavaScript output
+   */
+  static renderIndexDeclarations(componentNames: string[]): string {
+    const declarations = componentNames.map(name => `export declare const ${name}: DefineComponent<IconProps>;`);
+
+    return `import type { DefineComponent } from 'vue';
+
+export interface IconProps {
+  size?: number | string;
+  fill?: string;
+}
+
+${declarations.join('\n')}
+`;
+  }
+
+  protected static override getFileExtension(options: IconifyLoaderOptions): string {
+    if (this.getMode(options) === 'sfc') {
+      return 'vue';
+    }
+    return options.typescript ? 'ts' : 'js';
+  }
+
+  /**
+   * Renders the children of the source <svg> as template markup or h() calls
+   */
+  protected static override renderMarkup(children: SVGNode[], options: IconifyLoaderOptions): string {
+    const isSFC = this.getMode(options) === 'sfc';
+
+    return this.trimWhitespace(children)
+      .map(child => isSFC ? `    ${this.renderNode(child)}` : this.renderVNode(child, '      '))
+      .join(isSFC ? '\n' : ',\n');
+  }
+
+  /**
+   * Renders the attributes hoisted onto the component's <svg> as template attributes or h() props
+   */
+  protected static override renderProps(attributes: Record<string, string>, options: IconifyLoaderOptions): string[] {
+    const isSFC = this.getMode(options) === 'sfc';
+
+    // Vue adds the SVG namespace when rendering
+    return Object.entries(attributes)
+      .filter(([name]) => name !== 'xmlns')
+      .map(([name, value]) => isSFC
+        ? `${name}="${this.escapeAttribute(value)}"`
+        : `${this.renderKey(name)}: ${this.quote(value)}`);
+  }
+
+  /**
+   * Renders a single-file component
+   */
+  private static renderSFC(template: ReactComponentTemplate): string {
+    const { componentName, props, svgContent, typescript, defaultFill, viewBox } = template;
+    const staticAttributes = [`viewBox="${this.escapeAttribute(viewBox)}"`, ...props]
+      .map(prop => `    ${prop}\n`)
+      .join('');
+
+    const script = typescript
+      ? `<script lang="ts">
+export interface ${componentName}Props {
+  size?: number | string;
+  fill?: string;
+}
+</script>
+
+<script setup lang="ts">
+withDefaults(defineProps<${componentName}Props>(), {
+  size: '1em',
+  fill: ${JSON.stringify(defaultFill)}
+});
+</script>`
+      : `<script setup>
+defineProps({
+  size: { type: [Number, String], default: '1em' },
+  fill: { type: String, default: ${JSON.stringify(defaultFill)} }
+});
+</script>`;
+
+    return `${script}
+
+<template>
+  <svg
+    :width="size"
+    :height="size"
+    :fill="fill"
+${staticAttributes}  >
+${svgContent}
+  </svg>
+</template>
+`;
+  }
+
+  /**
+   * Renders a defineComponent module with a render function
+   */
+  private static renderModule(template: ReactComponentTemplate): string {
+    const { componentName, props, svgContent, typescript, defaultFill, viewBox } = template;
+    const staticAttributes = [`viewBox: ${this.quote(viewBox)}`, ...props]
+      .map(prop => `,\n      ${prop}`)
+      .join('');
+
+    const imports = typescript
+      ? `import { defineComponent, h, type PropType } from 'vue';`
+      : `import { defineComponent, h } from 'vue';`;
+    const sizeType = typescript
+      ? `[Number, String] as PropType<number | string>`
+      : `[Number, String]`;
+
+    return `${imports}
+
+export default defineComponent({
+  name: '${componentName}',
+  props: {
+    size: { type: ${sizeType}, default: '1em' },
+    fill: { type: String, default: ${JSON.stringify(defaultFill)} }
+  },
+  setup(props) {
+    return () => h('svg', {
+      width: props.size,
+      height: props.size,
+      fill: props.fill${staticAttributes}
+    }, [
+${svgContent}
+    ]);
+  }
+});
+`;
+  }
+
+  /**
+   * Serializes a node as template markup. <style> is rendered through
+   * <component> because Vue templates drop style tags.
+   */
+  private static renderNode(node: SVGNode): string {
+    if (node.type === 'text') {
+      return this.escapeText(node.value);
+    }
+
+    const isStyle = node.name === 'style';
+    const name = isStyle ? 'component' : node.name;
+    const attributes = (isStyle ? ' is="style"' : '') + Object.entries(node.attributes)
+      .map(([attribute, value]) => ` ${attribute}="${this.escapeAttribute(value)}"`)
+      .join('');
+
+    if (node.children.length === 0) {
+      return `<${name}${attributes}/>`;
+    }
+
+    const children = node.children.map(child => this.renderNode(child)).join('');
+    return `<${name}${attributes}>${children}</${name}>`;
+  }
+
+  /**
+   * Renders a node as an h() call or a text child
+   */
+  private static renderVNode(node: SVGNode, indent: string): string {
+    if (node.type === 'text') {
+      return `${indent}${this.quote(node.value)}`;
+    }
+
+    const attributes = Object.entries(node.attributes)
+      .map(([name, value]) => `${this.renderKey(name)}: ${this.quote(value)}`)
+      .join(', ');
+    const props = attributes ? `{ ${attributes} }` : 'null';
+    const children = this.TEXT_ELEMENTS.includes(node.name)
+      ? node.children
+      : this.trimWhitespace(node.children);
+
+    if (children.length === 0) {
+      return `${indent}h('${node.name}', ${props})`;
+    }
+
+    const first = children[0] as SVGNode;
+    if (children.length === 1 && first.type === 'text') {
+      return `${indent}h('${node.name}', ${props}, ${this.quote(first.value)})`;
+    }
+
+    const rendered = children
+      .map(child => this.renderVNode(child, `${indent}  `))
+      .join(',\n');
+    return `${indent}h('${node.name}', ${props}, [\n${rendered}\n${indent}])`;
+  }
+
+  /**
+   * Drops whitespace-only text between elements
+   */
+  private static trimWhitespace(children: SVGNode[]): SVGNode[] {
+    return children.filter(child => child.type === 'element' || child.cdata || child.value.trim() !== '');
+  }
+
+  private static getMode(options: IconifyLoaderOptions): 'sfc' | 'render' {
+    return options.vueOptions?.mode || 'sfc';
+  }
+
+  private static renderKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : this.quote(name);
+  }
+
+  private static quote(value: string): string {
+    return `'${value
+      .replace(/\\/g, '\\\\')
+      .replace(/'/g, "\\'")
+      .replace(/\r/g, '\\r')
+      .replace(/\n/g, '\\n')}'`;
+  }
+
+  private static escapeAttribute(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;');
+  }
+
+  /**
+   * Escapes template text, including CDATA content. Braces are written as character
+   * references so that literal `{{ }}` is not compiled as an interpolation.
+   */
+  private static escapeText(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\{/g, '&#123;')
+      .replace(/\}/g, '&#125;');
+  }
+}
@@ -0,0 +1,554 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  ProcessedSVG,
+  IconifyLoaderOptions,
+  GenerationResult,
+  GeneratorOutput,
+  SVGElementNode,
+  WebComponentOptions,
+  FileSystemError,
+  ValidationError
+} from '../types';
+import { SVGParser } from '../utils/svg-parser';
+import { Concurrency } from '../utils/concurrency';
+import { Diagnostics } from '../utils/diagnostics';
+import { FileReader } from '../utils/file-reader';
+import { IconNaming } from '../utils/icon-naming';
+import { ReactGenerator } from './react-generator';
+
+/**
+ * Web Components generator: one custom element per icon, or a single
+ * <icon-set name="..."> element backed by a map of every icon
+ */
+export class WebComponentGenerator {
+  static readonly BASE_FILE = 'icon-element';
+
+  private static readonly defaults: Required<WebComponentOptions> = {
+    mode: 'element',
+    tagPrefix: 'icon',
+    setTagName: 'icon-set',
+    shadow: true
+  };
+
+  private static defaultProps: Record<string, string> = {
+    fill: 'currentColor'
+  };
+
+  /**
+   * Sizing is controlled by the element's size attribute
+   */
+  private static readonly controlledAttributes = ['width', 'height', 'viewBox'];
+
+  /**
+   * Generates the custom element modules and their type declarations
+   */
+  static async generateWebComponents(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<GenerationResult> {
+    const result: GenerationResult = {
+      success: true,
+      files: [],
+      errors: [],
+      warnings: [],
+      diagnostics: []
+    };
+
+    try {
+      // Ensure output directory exists
+      if (options.outputDir) {
+        await this.ensureOutputDirectory(options.outputDir);
+      }
+
+      const { mode } = this.resolveOptions(options);
+      let icons = svgs;
+
+      if (mode === 'element') {
+        const outcomes = await Concurrency.map(svgs, options.concurrency, async svg => {
+          try {
+            return { files: await this.generateElementFiles(svg, options) };
+          } catch (error) {
+            return {
+              error: `Failed to generate custom element for ${svg.metadata.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              diagnostic: Diagnostics.fromError(error, svg.metadata.path, 'generate')
+            };
+          }
+        });
+
+        for (const { files, error: errorMessage, diagnostic } of outcomes) {
+          if (files) {
+            result.files.push(...files);
+
+            if (options.verbose) {
+              console.log(`Generated custom element: ${files[0]}`);
+            }
+          } else if (errorMessage) {
+            result.errors.push(errorMessage);
+            if (diagnostic) {
+              result.diagnostics.push(diagnostic);
+            }
+
+            if (options.verbose) {
+              console.error(errorMessage);
+            }
+          }
+        }
+      } else {
+        // Icons that cannot be converted are left out of the set
+        icons = [];
+        for (const svg of svgs) {
+          try {
+            this.createMarkup(svg, options);
+            icons.push(svg);
+          } catch (error) {
+            const errorMessage = `Failed to add ${svg.metadata.name} to icon set: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            result.errors.push(errorMessage);
+            result.diagnostics.push(Diagnostics.fromError(error, svg.metadata.path, 'generate'));
+
+            if (options.verbose) {
+              console.error(errorMessage);
+            }
+          }
+        }
+      }
+
+      const sharedFiles = await this.generateSharedFiles(icons, options);
+      result.files.push(...sharedFiles);
+
+      if (options.verbose) {
+        console.log(`Generated web component files: ${sharedFiles.join(', ')}`);
+      }
+
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.success = false;
+      result.errors.push(`Web component generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Generates the custom element of a single icon. In 'set' mode the icon is only
+   * checked, as it is written with the whole set.
+   */
+  static async generateIconOutput(svg: ProcessedSVG, options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    if (this.resolveOptions(options).mode === 'set') {
+      this.createMarkup(svg, options);
+    }
+
+    return { files: await this.generateElementFiles(svg, options), warnings: [], diagnostics: [] };
+  }
+
+  /**
+   * Generates the base element, the index or icon set and their declarations
+   */
+  static async generateAggregateOutput(svgs: ProcessedSVG[], options: IconifyLoaderOptions): Promise<GeneratorOutput> {
+    return { files: await this.generateSharedFiles(svgs, options), warnings: [], diagnostics: [] };
+  }
+
+  /**
+   * Generates the module and declarations of a single icon's custom element.
+   * Icons live in the shared set file in 'set' mode, so nothing is written per icon.
+   */
+  static async generateElementFiles(
+    svg: ProcessedSVG,
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    if (this.resolveOptions(options).mode === 'set') {
+      return [];
+    }
+
+    const tagName = this.getTagName(svg.metadata.name, options);
+    const className = this.getClassName(svg.metadata.name, options);
+    const markup = this.createMarkup(svg, options);
+
+    const module = `import { IconElement } from './${this.BASE_FILE}.js';
+
+export class ${className} extends IconElement {
+  static svg = ${JSON.stringify(markup)};
+}
+
+if (!customElements.get('${tagName}')) {
+  customElements.define('${tagName}', ${className});
+}
+`;
+
+    const declarations = `import { IconElement } from './${this.BASE_FILE}.js';
+
+export declare class ${className} extends IconElement {
+  static readonly svg: string;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    '${tagName}': ${className};
+  }
+}
+`;
+
+    return [
+      await this.writeFile(`${tagName}.js`, module, options),
+      await this.writeFile(`${tagName}.d.ts`, declarations, options)
+    ];
+  }
+
+  /**
+   * Generates the files built from the whole icon set: the shared base element,
+   * then either the <icon-set> element or, when requested, an index of every element
+   */
+  static async generateSharedFiles(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    this.assertUniqueIds(svgs, options);
+
+    const { mode } = this.resolveOptions(options);
+    const files = await this.generateBaseFiles(options);
+
+    if (mode === 'set') {
+      files.push(...await this.generateSetFiles(svgs, options));
+    } else if (options.generateIndex) {
+      files.push(...await this.generateIndexFiles(svgs, options));
+    }
+
+    return files;
+  }
+
+  /**
+   * Gets the icon id used in tag names, as the <icon-set> name and as the Iconify icon name. A custom
+   * fileNameFormatter decides the id, with any .svg extension removed.
+   */
+  static getIconId(originalName: string, options: IconifyLoaderOptions): string {
+    // Custom element names must be lowercase
+    return IconNaming.getKebabId(originalName, options);
+  }
+
+  /**
+   * Gets the custom element tag name for an icon
+   */
+  static getTagName(originalName: string, options: IconifyLoaderOptions): string {
+    return `${this.resolveOptions(options).tagPrefix}-${this.getIconId(originalName, options)}`;
+  }
+
+  /**
+   * Validates web component options
+   */
+  static validateOptions(webComponentOptions: WebComponentOptions): void {
+    const { mode, tagPrefix, setTagName } = webComponentOptions;
+
+    if (mode !== undefined && mode !== 'element' && mode !== 'set') {
+      throw new ValidationError(
+        'webComponentOptions.mode must be "element" or "set"',
+        { mode }
+      );
+    }
+
+    if (tagPrefix !== undefined && !/^[a-z][a-z0-9-]*$/.test(tagPrefix)) {
+      throw new ValidationError(
+        'webComponentOptions.tagPrefix must start with a lowercase letter and contain only lowercase letters, digits and hyphens',
+        { tagPrefix }
+      );
+    }
+
+    if (setTagName !== undefined && !/^[a-z][a-z0-9]*-[a-z0-9-]*$/.test(setTagName)) {
+      throw new ValidationError(
+        'webComponentOptions.setTagName must be a valid custom element name containing a hyphen',
+        { setTagName }
+      );
+    }
+  }
+
+  /**
+   * Writes the base element shared by every icon element and the <icon-set> element
+   */
+  private static async generateBaseFiles(options: IconifyLoaderOptions): Promise<string[]> {
+    const { shadow } = this.resolveOptions(options);
+
+    const module = `const templates = new Map();
+
+/**
+ * Base class of the generated icon elements.
+ * Observes size, color and title and renders the icon${shadow ? ' into a shadow root' : ' as a child'}.
+ */
+export class IconElement extends HTMLElement {
+  static observedAttributes = ['size', 'color', 'title'];
+${shadow ? `
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' });
+  }
+` : ''}
+  connectedCallback() {
+    this.render();
+  }
+
+  attributeChangedCallback() {
+    if (this.isConnected) {
+      this.render();
+    }
+  }
+
+  getSVG() {
+    return this.constructor.svg;
+  }
+
+  render() {
+    const root = this.shadowRoot ?? this;
+    const markup = this.getSVG();
+    root.replaceChildren();
+
+    if (!markup) {
+      return;
+    }
+
+    let template = templates.get(markup);
+    if (!template) {
+      template = document.createElement('template');
+      template.innerHTML = markup;
+      templates.set(markup, template);
+    }
+
+    const svg = template.content.firstElementChild.cloneNode(true);
+    const size = this.getAttribute('size') ?? '1em';
+    const color = this.getAttribute('color');
+    const title = this.getAttribute('title');
+
+    svg.setAttribute('width', size);
+    svg.setAttribute('height', size);
+
+    if (color) {
+      svg.style.color = color;
+    }
+
+    if (title) {
+      // A <title> kept from the source SVG is replaced rather than repeated
+      let titleElement = Array.from(svg.children).find(child => child.localName === 'title');
+      if (!titleElement) {
+        titleElement = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+        svg.prepend(titleElement);
+      }
+      titleElement.textContent = title;
+      svg.setAttribute('role', 'img');
+      svg.setAttribute('aria-label', title);
+    } else {
+      svg.setAttribute('aria-hidden', 'true');
+      svg.setAttribute('focusable', 'false');
+    }
+${shadow ? `
+    const style = document.createElement('style');
+    style.textContent = ':host { display: inline-block; line-height: 0; }';
+    root.append(style);
+` : ''}
+    root.append(svg);
+  }
+}
+`;
+
+    const declarations = `export declare class IconElement extends HTMLElement {
+  static readonly observedAttributes: string[];
+  connectedCallback(): void;
+  attributeChangedCallback(): void;
+  render(): void;
+  protected getSVG(): string | undefined;
+}
+`;
+
+    return [
+      await this.writeFile(`${this.BASE_FILE}.js`, module, options),
+      await this.writeFile(`${this.BASE_FILE}.d.ts`, declarations, options)
+    ];
+  }
+
+  /**
+   * Writes the <icon-set> element and the map of icons it renders by name
+   */
+  private static async generateSetFiles(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    const { setTagName } = this.resolveOptions(options);
+    const ids = svgs.map(svg => this.getIconId(svg.metadata.name, options));
+    const entries = svgs.map((svg, index) =>
+      `  ${JSON.stringify(ids[index])}: ${JSON.stringify(this.createMarkup(svg, options))}`
+    );
+
+    const module = `import { IconElement } from './${this.BASE_FILE}.js';
+
+export const icons = {
+${entries.join(',\n')}
+};
+
+export class IconSetElement extends IconElement {
+  static observedAttributes = [...IconElement.observedAttributes, 'name'];
+
+  getSVG() {
+    const name = this.getAttribute('name');
+    return name !== null && Object.hasOwn(icons, name) ? icons[name] : undefined;
+  }
+}
+
+if (!customElements.get('${setTagName}')) {
+  customElements.define('${setTagName}', IconSetElement);
+}
+`;
+
+    const nameUnion = ids.length > 0 ? ids.map(id => `'${id}'`).join(' | ') : 'never';
+    const declarations = `import { IconElement } from './${this.BASE_FILE}.js';
+
+export type IconSetName = ${nameUnion};
+
+export declare const icons: Readonly<Record<IconSetName, string>>;
+
+export declare class IconSetElement extends IconElement {}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    '${setTagName}': IconSetElement;
+  }
+}
+`;
+
+    return [
+      await this.writeFile(`${setTagName}.js`, module, options),
+      await this.writeFile(`${setTagName}.d.ts`, declarations, options)
+    ];
+  }
+
+  /**
+   * Writes an index that registers every icon element and re-exports the classes
+   */
+  private static async generateIndexFiles(
+    svgs: ProcessedSVG[],
+    options: IconifyLoaderOptions
+  ): Promise<string[]> {
+    const elements = svgs.map(svg => ({
+      tagName: this.getTagName(svg.metadata.name, options),
+      className: this.getClassName(svg.metadata.name, options)
+    }));
+
+    const exports = [
+      `export { IconElement } from './${this.BASE_FILE}.js';`,
+      ...elements.map(({ tagName, className }) => `export { ${className} } from './${tagName}.js';`)
+    ].join('\n');
+
+    const tagList = elements.map(({ tagName }) => `  '${tagName}'`).join(',\n');
+    const tagUnion = elements.length > 0 ? elements.map(({ tagName }) => `'${tagName}'`).join(' | ') : 'never';
+
+    const module = `${exports}
+
+export const iconTagNames = [
+${tagList}
+];
+`;
+
+    const declarations = `${exports}
+
+export type IconTagName = ${tagUnion};
+
+export declare const iconTagNames: readonly IconTagName[];
+`;
+
+    return [
+      await this.writeFile('index.js', module, options),
+      await this.writeFile('index.d.ts', declarations, options)
+    ];
+  }
+
+  /**
+   * Serializes an icon as a standalone <svg> with its own viewBox
+   */
+  private static createMarkup(svg: ProcessedSVG, options: IconifyLoaderOptions): string {
+    const root = SVGParser.parse(svg.content, svg.metadata.name);
+
+    if (!this.getIconId(svg.metadata.name, options)) {
+      throw new ValidationError(
+        `Cannot derive a custom element name from "${svg.metadata.name}"`,
+        { name: svg.metadata.name }
+      );
+    }
+
+    // Source attributes take precedence over user-defined defaults
+    const attributes: Record<string, string> = { ...this.defaultProps };
+
+    for (const [key, value] of Object.entries(options.svgProps || {})) {
+      if (value !== undefined && value !== null) {
+        attributes[key] = String(value);
+      }
+    }
+    Object.assign(attributes, root.attributes);
+
+    for (const key of this.controlledAttributes) {
+      delete attributes[key];
+    }
+
+    const element: SVGElementNode = {
+      type: 'element',
+      name: 'svg',
+      attributes: {
+        xmlns: 'http://www.w3.org/2000/svg',
+        viewBox: FileReader.getViewBox(svg.metadata),
+        ...attributes
+      },
+      children: root.children
+    };
+
+    return SVGParser.stringify(element);
+  }
+
+  /**
+   * Gets the element class name, following the component naming of the other targets
+   */
+  private static getClassName(originalName: string, options: IconifyLoaderOptions): string {
+    return `${ReactGenerator.getComponentName(originalName, options)}Element`;
+  }
+
+  /**
+   * Ensures no two icons map to the same tag or set name
+   */
+  private static assertUniqueIds(svgs: ProcessedSVG[], options: IconifyLoaderOptions): void {
+    const seen = new Map<string, string>();
+
+    for (const svg of svgs) {
+      const id = this.getIconId(svg.metadata.name, options);
+      const existing = seen.get(id);
+
+      if (existing) {
+        throw new ValidationError(
+          `Duplicate icon id "${id}" for ${existing} and ${svg.metadata.path}`,
+          { id, files: [existing, svg.metadata.path] }
+        );
+      }
+      seen.set(id, svg.metadata.path);
+    }
+  }
+
+  private static resolveOptions(options: IconifyLoaderOptions): Required<WebComponentOptions> {
+    return { ...this.defaults, ...options.webComponentOptions };
+  }
+
+  private static async writeFile(fileName: string, content: string, options: IconifyLoaderOptions): Promise<string> {
+    const filePath = options.outputDir
+      ? path.join(options.outputDir, fileName)
+      : `./${fileName}`;
+
+    await fs.writeFile(filePath, content, 'utf-8');
+
+    return filePath;
+  }
+
+  /**
+   * Ensures output directory exists
+   */
+  private static async ensureOutputDirectory(outputDir: string): Promise<void> {
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to create output directory: ${outputDir}`,
+        { originalError: error }
+      );
+    }
+  }
+}
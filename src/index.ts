@@ -2,32 +2,83 @@
  * @thecoderzeus/iconify-loader
  *
  * A TypeScript library to load and convert SVG files into React components,
- * optimized SVG strings, or JSON metadata with SVGO optimization support.
+ * optimized SVG strings, SVG sprite sheets, icon fonts, or JSON metadata with SVGO optimization support.
  */
 
 // Main exports
 export { IconifyLoader } from './core/iconify-loader';
+export { ConfigLoader, defineConfig } from './core/config-loader';
+export { IconWatcher } from './core/icon-watcher';
 export { FileReader } from './utils/file-reader';
+export { IconifyCollection } from './utils/iconify-collection';
+export { ColorNormalizer } from './utils/color-normalizer';
+export { StrokeNormalizer } from './utils/stroke-normalizer';
+export { IconNaming } from './utils/icon-naming';
+export { SVGSanitizer } from './utils/svg-sanitizer';
 export { SVGOptimizer } from './utils/svg-optimizer';
 export { ReactGenerator } from './generators/react-generator';
 export { SVGGenerator } from './generators/svg-generator';
 export { JSONGenerator } from './generators/json-generator';
+export { SpriteGenerator } from './generators/sprite-generator';
+export { FontGenerator } from './generators/font-generator';
+export { VueGenerator } from './generators/vue-generator';
+export { ComponentGenerator } from './generators/component-generator';
+export { SvelteGenerator } from './generators/svelte-generator';
+export { SolidGenerator } from './generators/solid-generator';
+export { PreactGenerator } from './generators/preact-generator';
+export { WebComponentGenerator } from './generators/web-component-generator';
+export { IconifyGenerator } from './generators/iconify-generator';
+export { ReactNativeGenerator } from './generators/react-native-generator';
+export { DeclarationsGenerator } from './generators/declarations-generator';
 
 // Type exports
 export type {
   OutputFormat,
   SVGMetadata,
+  SVGAnalysis,
   SVGOOptions,
   IconifyLoaderOptions,
+  IconifyLoaderConfig,
+  ConfigJob,
   ProcessedSVG,
   GenerationResult,
+  GeneratorOutput,
+  FormatGenerator,
+  ComponentRenderer,
+  Diagnostic,
+  DiagnosticPhase,
+  DiagnosticSeverity,
+  ColorOptions,
+  ColorTheme,
+  IconColor,
+  StrokeOptions,
+  SanitizeOptions,
+  ProcessingResult,
   ReactComponentTemplate,
+  ReactNativeComponentTemplate,
+  ReactOptions,
+  ReactTemplate,
+  ReactIndexTemplate,
+  ReactIndexEntry,
+  VueOptions,
+  VueComponentMode,
+  JSXDialect,
+  WebComponentOptions,
+  WebComponentMode,
+  IconifyOptions,
+  IconifyJSON,
+  IconifyIcon,
+  IconifyAlias,
   JSONOutput,
+  FontOptions,
+  FontType,
+  FontStylesheet,
   FileExtension,
   FileInfo
 } from './types';
 
 export {
+  OUTPUT_FORMATS,
   IconifyLoaderError,
   SVGProcessingError,
   FileSystemError,
@@ -2,7 +2,9 @@
  * @thecoderzeus/iconify-loader - TypeScript type definitions
  */
 
-export type OutputFormat = 'svg' | 'react' | 'json';
+export type OutputFormat = 'svg' | 'react' | 'json' | 'sprite' | 'font' | 'vue' | 'svelte' | 'solid' | 'preact' | 'web-component' | 'iconify' | 'react-native';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['svg', 'react', 'json', 'sprite', 'font', 'vue', 'svelte', 'solid', 'preact', 'web-component', 'iconify', 'react-native'];
 
 export interface SVGMetadata {
   name: string;
@@ -16,6 +18,26 @@ export interface SVGMetadata {
   stroke?: string;
   strokeWidth?: number;
   className?: string;
+  palette?: string[];
+  colors?: IconColor[];
+  analysis?: SVGAnalysis;
+}
+
+export interface SVGAnalysis {
+  elementCount: number;
+  elements: Record<string, number>;
+  pathCount: number;
+  hasImage: boolean;
+  hasScript: boolean;
+  hasStyle: boolean;
+  hasUse: boolean;
+  hasGradients: boolean;
+}
+
+export interface IconColor {
+  color: string;
+  variable: string;
+  prop?: string;
 }
 
 export interface SVGOOptions {
@@ -80,6 +102,154 @@ export interface IconifyLoaderOptions {
   includeSubdirs?: boolean;
   ignorePatterns?: string[];
   verbose?: boolean;
+  cache?: boolean;
+  cacheDir?: string;
+  concurrency?: number;
+  failOnError?: boolean;
+  fontOptions?: FontOptions;
+  vueOptions?: VueOptions;
+  webComponentOptions?: WebComponentOptions;
+  iconifyOptions?: IconifyOptions;
+  iconifyCollections?: string[];
+  reactOptions?: ReactOptions;
+  declarations?: boolean;
+  colorOptions?: ColorOptions;
+  strokeOptions?: StrokeOptions;
+  sanitize?: boolean;
+  sanitizeOptions?: SanitizeOptions;
+}
+
+export interface SanitizeOptions {
+  scripts?: boolean;
+  eventHandlers?: boolean;
+  javascriptUrls?: boolean;
+  externalReferences?: boolean;
+  foreignObjects?: boolean;
+  remoteImports?: boolean;
+}
+
+export interface StrokeOptions {
+  strokeWidth?: number;
+  absoluteStrokeWidth?: boolean;
+}
+
+export type ColorTheme = 'css-variables' | 'props';
+
+export interface ColorOptions {
+  normalize?: boolean;
+  theme?: ColorTheme;
+  variablePrefix?: string;
+}
+
+export interface ReactOptions {
+  forwardRef?: boolean;
+  memo?: boolean;
+  dynamicIcon?: boolean;
+  template?: ReactTemplate | string;
+  indexTemplate?: ReactIndexTemplate | string;
+}
+
+export type ReactTemplate = (
+  template: ReactComponentTemplate,
+  metadata: SVGMetadata
+) => string | Promise<string>;
+
+export interface ReactIndexEntry {
+  componentName: string;
+  importPath: string;
+  metadata: SVGMetadata;
+}
+
+export type ReactIndexTemplate = (
+  entries: ReactIndexEntry[],
+  options: IconifyLoaderOptions
+) => string | Promise<string>;
+
+export type VueComponentMode = 'sfc' | 'render';
+
+export interface VueOptions {
+  mode?: VueComponentMode;
+}
+
+export type WebComponentMode = 'element' | 'set';
+
+export interface WebComponentOptions {
+  mode?: WebComponentMode;
+  tagPrefix?: string;
+  setTagName?: string;
+  shadow?: boolean;
+}
+
+export interface IconifyOptions {
+  prefix?: string;
+}
+
+export interface IconifyDimensions {
+  left?: number;
+  top?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface IconifyTransformations {
+  rotate?: number;
+  hFlip?: boolean;
+  vFlip?: boolean;
+}
+
+export interface IconifyIcon extends IconifyDimensions, IconifyTransformations {
+  body: string;
+  hidden?: boolean;
+}
+
+export interface IconifyAlias extends IconifyDimensions, IconifyTransformations {
+  parent: string;
+  hidden?: boolean;
+}
+
+export interface IconifyJSON extends IconifyDimensions, IconifyTransformations {
+  prefix: string;
+  icons: Record<string, IconifyIcon>;
+  aliases?: Record<string, IconifyAlias>;
+}
+
+export type FontType = 'ttf' | 'woff' | 'woff2';
+
+export type FontStylesheet = 'css' | 'scss';
+
+export interface FontOptions {
+  fontName?: string;
+  types?: FontType[];
+  stylesheets?: FontStylesheet[];
+  classPrefix?: string;
+  fontUrl?: string;
+  startCodepoint?: number;
+}
+
+export interface GlyphPoint {
+  x: number;
+  y: number;
+  onCurve: boolean;
+}
+
+export type GlyphContour = GlyphPoint[];
+
+export type TransformMatrix = [number, number, number, number, number, number];
+
+export interface FontGlyph {
+  name: string;
+  codepoint: number;
+  advanceWidth: number;
+  contours: GlyphContour[];
+}
+
+export interface IconifyLoaderConfig extends Partial<IconifyLoaderOptions> {
+  jobs?: Record<string, Partial<IconifyLoaderOptions>>;
+}
+
+export interface ConfigJob {
+  name: string;
+  options: IconifyLoaderOptions;
 }
 
 export interface ProcessedSVG {
@@ -88,11 +258,47 @@ export interface ProcessedSVG {
   optimized?: boolean;
 }
 
+export type DiagnosticPhase = 'read' | 'validate' | 'optimize' | 'sanitize' | 'normalize' | 'generate';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  file: string;
+  code: string;
+  message: string;
+  phase: DiagnosticPhase;
+  severity: DiagnosticSeverity;
+}
+
+export interface ProcessingResult {
+  svgs: ProcessedSVG[];
+  diagnostics: Diagnostic[];
+}
+
 export interface GenerationResult {
   success: boolean;
   files: string[];
   errors: string[];
   warnings: string[];
+  diagnostics: Diagnostic[];
+}
+
+export interface GeneratorOutput {
+  files: string[];
+  warnings: string[];
+  diagnostics: Diagnostic[];
+}
+
+// Implemented by every output format's generator, per icon and for the whole icon set
+export interface FormatGenerator {
+  generateIconOutput(svg: ProcessedSVG, options: IconifyLoaderOptions): Promise<GeneratorOutput>;
+  generateAggregateOutput(svgs: ProcessedSVG[], options: IconifyLoaderOptions): Promise<GeneratorOutput>;
+}
+
+// Rendering hooks each ComponentGenerator subclass implements; TypeScript has no abstract static members
+export interface ComponentRenderer {
+  renderComponent(template: ReactComponentTemplate, options: IconifyLoaderOptions): string;
+  renderIndexDeclarations(componentNames: string[]): string;
 }
 
 export interface ReactComponentTemplate {
@@ -100,6 +306,22 @@ export interface ReactComponentTemplate {
   props: string[];
   svgContent: string;
   typescript: boolean;
+  defaultFill: string;
+  viewBox: string;
+  defaultTitle?: string;
+  forwardRef?: boolean;
+  memo?: boolean;
+  colors?: IconColor[];
+  styleEntries?: string[];
+  strokeWidth?: string;
+  absoluteStrokeWidth?: boolean;
+  accessibilityProps?: string[];
+}
+
+export type JSXDialect = 'react' | 'dom' | 'native';
+
+export interface ReactNativeComponentTemplate extends ReactComponentTemplate {
+  primitives: string[];
 }
 
 export interface JSONOutput {
@@ -121,6 +343,36 @@ export interface JSONOutput {
   };
 }
 
+// Build cache types
+export interface BuildCacheEntry {
+  key: string;
+  content: string;
+  optimized: boolean;
+  diagnostics: Diagnostic[];
+  output: GeneratorOutput | null;
+}
+
+export interface BuildCacheFile {
+  version: number;
+  entries: Record<string, BuildCacheEntry>;
+}
+
+// Parsed SVG document types
+export interface SVGElementNode {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: SVGNode[];
+}
+
+export interface SVGTextNode {
+  type: 'text';
+  value: string;
+  cdata?: boolean;
+}
+
+export type SVGNode = SVGElementNode | SVGTextNode;
+
 // Utility types
 export type FileExtension = '.svg' | '.tsx' | '.ts' | '.json';
 
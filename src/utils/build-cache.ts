@@ -0,0 +1,195 @@
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import {
+  IconifyLoaderOptions,
+  BuildCacheEntry,
+  BuildCacheFile,
+  GeneratorOutput
+} from '../types';
+
+/**
+ * On-disk cache of optimized SVG content and generated files,
+ * keyed by source content hash plus the effective options
+ */
+export class BuildCache {
+  static readonly DEFAULT_DIR = path.join('node_modules', '.cache', 'iconify-loader');
+  private static readonly VERSION = 2;
+
+  private readonly used = new Set<string>();
+  hits = 0;
+  misses = 0;
+
+  private constructor(
+    private readonly filePath: string,
+    private readonly optionsHash: string,
+    private readonly entries: Record<string, BuildCacheEntry>
+  ) {}
+
+  /**
+   * Loads the cache for the given options, starting empty when missing or unreadable.
+   * Each format/output directory pair gets its own cache file, so jobs sharing
+   * an input directory do not evict each other's entries.
+   */
+  static async load(options: IconifyLoaderOptions): Promise<BuildCache> {
+    const cacheDir = path.resolve(options.cacheDir || this.DEFAULT_DIR);
+    const jobId = this.hash(`${options.format}:${path.resolve(options.outputDir || '.')}`).slice(0, 16);
+    const filePath = path.join(cacheDir, `cache-${jobId}.json`);
+    let entries: Record<string, BuildCacheEntry> = {};
+
+    try {
+      const data: BuildCacheFile = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      if (data.version === this.VERSION && data.entries) {
+        entries = data.entries;
+      }
+    } catch {
+      // Missing or corrupt cache: start fresh
+    }
+
+    return new BuildCache(filePath, this.hashOptions(options, await this.readTemplateSources(options)), entries);
+  }
+
+  /**
+   * Computes the cache key for a source file's content
+   */
+  getKey(content: string): string {
+    return BuildCache.hash(`${this.optionsHash}:${BuildCache.hash(content)}`);
+  }
+
+  /**
+   * Returns the entry for a source file when its key still matches
+   */
+  get(sourcePath: string, key: string): BuildCacheEntry | undefined {
+    this.used.add(sourcePath);
+    const entry = this.entries[sourcePath];
+
+    if (entry && entry.key === key) {
+      this.hits++;
+      return entry;
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Stores the processed content for a source file
+   */
+  set(sourcePath: string, entry: BuildCacheEntry): void {
+    this.used.add(sourcePath);
+    this.entries[sourcePath] = entry;
+  }
+
+  /**
+   * Records the files, warnings and diagnostics generated for a source file
+   */
+  setOutput(sourcePath: string, output: GeneratorOutput): void {
+    const entry = this.entries[sourcePath];
+    if (entry) {
+      entry.output = output;
+    }
+  }
+
+  /**
+   * Returns the previously generated output for a source file if its files all still exist
+   */
+  async getReusableOutput(sourcePath: string): Promise<GeneratorOutput | null> {
+    const output = this.entries[sourcePath]?.output;
+    if (!output || output.files.length === 0) {
+      return null;
+    }
+
+    for (const file of output.files) {
+      try {
+        await fs.access(file);
+      } catch {
+        return null;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Prunes entries for files not seen in this run and writes the cache to disk
+   */
+  async save(): Promise<number> {
+    let pruned = 0;
+
+    for (const sourcePath of Object.keys(this.entries)) {
+      if (!this.used.has(sourcePath)) {
+        delete this.entries[sourcePath];
+        pruned++;
+      }
+    }
+
+    const data: BuildCacheFile = {
+      version: BuildCache.VERSION,
+      entries: this.entries
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(data), 'utf-8');
+
+    return pruned;
+  }
+
+  /**
+   * Hashes the options that affect optimized and generated output.
+   * Function-valued options are hashed by their source, template files by their content.
+   */
+  private static hashOptions(options: IconifyLoaderOptions, templateSources: string[]): string {
+    const relevant = {
+      version: require('../../package.json').version,
+      format: options.format,
+      outputDir: options.outputDir,
+      optimize: options.optimize,
+      svgoOptions: options.svgoOptions,
+      generateIndex: options.generateIndex,
+      typescript: options.typescript,
+      svgProps: options.svgProps,
+      reactComponentName: options.reactComponentName?.toString(),
+      fileNameFormatter: options.fileNameFormatter?.toString(),
+      fontOptions: options.fontOptions,
+      vueOptions: options.vueOptions,
+      webComponentOptions: options.webComponentOptions,
+      iconifyOptions: options.iconifyOptions,
+      iconifyCollections: options.iconifyCollections,
+      reactOptions: options.reactOptions && {
+        ...options.reactOptions,
+        template: options.reactOptions.template?.toString(),
+        indexTemplate: options.reactOptions.indexTemplate?.toString()
+      },
+      templateSources,
+      colorOptions: options.colorOptions,
+      strokeOptions: options.strokeOptions,
+      sanitize: options.sanitize,
+      sanitizeOptions: options.sanitizeOptions,
+      // JSON output formatting depends on verbose
+      verbose: options.format === 'json' ? options.verbose : undefined
+    };
+
+    return this.hash(JSON.stringify(relevant));
+  }
+
+  /**
+   * Reads React template files so edits to them invalidate the cache
+   */
+  private static async readTemplateSources(options: IconifyLoaderOptions): Promise<string[]> {
+    const { template, indexTemplate } = options.reactOptions || {};
+    const sources: string[] = [];
+
+    for (const file of [template, indexTemplate]) {
+      if (typeof file === 'string') {
+        // Unreadable templates fail generation instead
+        sources.push(await fs.readFile(file, 'utf-8').catch(() => ''));
+      }
+    }
+
+    return sources;
+  }
+
+  private static hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
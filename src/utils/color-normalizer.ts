@@ -0,0 +1,242 @@
+import {
+  SVGElementNode,
+  SVGNode,
+  ColorOptions,
+  IconColor,
+  ValidationError
+} from '../types';
+import { SVGParser } from './svg-parser';
+
+/**
+ * Detects the colours an icon paints with and rewrites single-colour icons to currentColor
+ */
+export class ColorNormalizer {
+  static readonly DEFAULT_VARIABLE_PREFIX = 'icon-color';
+
+  /**
+   * Attributes (and style properties) holding paint colours
+   */
+  static readonly PAINT_PROPERTIES = ['fill', 'stroke', 'stop-color'];
+
+  /**
+   * Values that do not hard-code a colour
+   */
+  private static readonly NON_COLORS = ['none', 'currentcolor', 'inherit', 'transparent', 'initial', 'unset'];
+
+  /**
+   * Animation elements, whose `fill` attribute is the animation's end state (`freeze`, `remove`)
+   */
+  private static readonly ANIMATION_ELEMENTS = ['animate', 'animateColor', 'animateMotion', 'animateTransform', 'set'];
+
+  /**
+   * CSS named colours
+   */
+  private static readonly NAMED_COLORS = new Set([
+    'aliceblue', 'antiquewhite', 'aqua', 'aquamarine', 'azure', 'beige', 'bisque', 'black', 'blanchedalmond',
+    'blue', 'blueviolet', 'brown', 'burlywood', 'cadetblue', 'chartreuse', 'chocolate', 'coral',
+    'cornflowerblue', 'cornsilk', 'crimson', 'cyan', 'darkblue', 'darkcyan', 'darkgoldenrod', 'darkgray',
+    'darkgreen', 'darkgrey', 'darkkhaki', 'darkmagenta', 'darkolivegreen', 'darkorange', 'darkorchid',
+    'darkred', 'darksalmon', 'darkseagreen', 'darkslateblue', 'darkslategray', 'darkslategrey',
+    'darkturquoise', 'darkviolet', 'deeppink', 'deepskyblue', 'dimgray', 'dimgrey', 'dodgerblue', 'firebrick',
+    'floralwhite', 'forestgreen', 'fuchsia', 'gainsboro', 'ghostwhite', 'gold', 'goldenrod', 'gray', 'green',
+    'greenyellow', 'grey', 'honeydew', 'hotpink', 'indianred', 'indigo', 'ivory', 'khaki', 'lavender',
+    'lavenderblush', 'lawngreen', 'lemonchiffon', 'lightblue', 'lightcoral', 'lightcyan',
+    'lightgoldenrodyellow', 'lightgray', 'lightgreen', 'lightgrey', 'lightpink', 'lightsalmon',
+    'lightseagreen', 'lightskyblue', 'lightslategray', 'lightslategrey', 'lightsteelblue', 'lightyellow',
+    'lime', 'limegreen', 'linen', 'magenta', 'maroon', 'mediumaquamarine', 'mediumblue', 'mediumorchid',
+    'mediumpurple', 'mediumseagreen', 'mediumslateblue', 'mediumspringgreen', 'mediumturquoise',
+    'mediumvioletred', 'midnightblue', 'mintcream', 'mistyrose', 'moccasin', 'navajowhite', 'navy', 'oldlace',
+    'olive', 'olivedrab', 'orange', 'orangered', 'orchid', 'palegoldenrod', 'palegreen', 'paleturquoise',
+    'palevioletred', 'papayawhip', 'peachpuff', 'peru', 'pink', 'plum', 'powderblue', 'purple',
+    'rebeccapurple', 'red', 'rosybrown', 'royalblue', 'saddlebrown', 'salmon', 'sandybrown', 'seagreen',
+    'seashell', 'sienna', 'silver', 'skyblue', 'slateblue', 'slategray', 'slategrey', 'snow', 'springgreen',
+    'steelblue', 'tan', 'teal', 'thistle', 'tomato', 'turquoise', 'violet', 'wheat', 'white', 'whitesmoke',
+    'yellow', 'yellowgreen'
+  ]);
+
+  /**
+   * Colour functions with three channels and an optional alpha, comma- or space-separated
+   */
+  private static readonly COLOR_FUNCTION = (() => {
+    const number = '[+-]?(?:\\d+\\.?\\d*|\\.\\d+)(?:e[+-]?\\d+)?(?:%|deg|grad|rad|turn)?';
+    return new RegExp(`^(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch)\\(\\s*${number}(?:\\s*[,\\s/]\\s*${number}){2,3}\\s*\\)$`);
+  })();
+
+  private static readonly ORDINALS = [
+    'primary',
+    'secondary',
+    'tertiary',
+    'quaternary',
+    'quinary',
+    'senary',
+    'septenary',
+    'octonary',
+    'nonary',
+    'denary'
+  ];
+
+  /**
+   * Rewrites every colour of a single-colour icon to currentColor.
+   * `fill="none"` and other non-colour values are left intact; icons painting
+   * with more than one colour are returned unchanged.
+   */
+  static normalize(content: string, fileName?: string): { content: string; palette: string[]; normalized: boolean } {
+    const root = SVGParser.parse(content, fileName);
+    const palette = this.getPalette(root);
+
+    if (palette.length !== 1) {
+      return { content, palette, normalized: false };
+    }
+
+    this.replaceColors(root, () => 'currentColor');
+
+    return { content: SVGParser.stringify(root), palette, normalized: true };
+  }
+
+  /**
+   * Maps each palette colour to a numbered CSS custom property and, in `props` mode,
+   * to a component prop (primaryColor, secondaryColor, ...)
+   */
+  static getColorMap(palette: string[], colorOptions: ColorOptions): IconColor[] {
+    const prefix = colorOptions.variablePrefix || this.DEFAULT_VARIABLE_PREFIX;
+
+    return palette.map((color, index) => ({
+      color,
+      variable: `--${prefix}-${index + 1}`,
+      ...(colorOptions.theme === 'props' && { prop: this.getColorPropName(index) })
+    }));
+  }
+
+  /**
+   * Replaces each mapped colour with `var(--icon-color-N, <original>)`
+   */
+  static applyTheme(root: SVGElementNode, colors: IconColor[]): void {
+    const values = new Map(colors.map(({ color, variable }) => [color, `var(${variable}, ${color})`]));
+    this.replaceColors(root, color => values.get(color));
+  }
+
+  /**
+   * Validates colour options
+   */
+  static validateOptions(colorOptions: ColorOptions): void {
+    const { theme, variablePrefix } = colorOptions;
+
+    if (theme !== undefined && theme !== 'css-variables' && theme !== 'props') {
+      throw new ValidationError(
+        'colorOptions.theme must be "css-variables" or "props"',
+        { theme }
+      );
+    }
+
+    if (variablePrefix !== undefined && !/^[a-zA-Z][\w-]*$/.test(variablePrefix)) {
+      throw new ValidationError(
+        'colorOptions.variablePrefix must start with a letter and contain only letters, digits, hyphens and underscores',
+        { variablePrefix }
+      );
+    }
+  }
+
+  /**
+   * Gets the distinct colours used by an icon, in document order
+   */
+  static getPalette(root: SVGElementNode): string[] {
+    const palette = new Set<string>();
+
+    this.replaceColors(root, color => {
+      palette.add(color);
+      return undefined;
+    });
+
+    return [...palette];
+  }
+
+  /**
+   * Gets the component prop for the colour at the given palette index
+   */
+  private static getColorPropName(index: number): string {
+    const ordinal = this.ORDINALS[index];
+    return ordinal ? `${ordinal}Color` : `color${index + 1}`;
+  }
+
+  /**
+   * Parses a paint value into a lowercase `#rrggbb` (or `#rrggbbaa`) colour.
+   * Named colours and other colour functions are kept as lowercase text. Returns undefined
+   * for values that do not hard-code a colour, such as `none`, `currentColor` or `url(#gradient)`,
+   * and for anything that is not valid colour syntax.
+   */
+  static parseColor(value: string): string | undefined {
+    const color = value.trim().toLowerCase();
+
+    if (!color || this.NON_COLORS.includes(color)) {
+      return undefined;
+    }
+
+    const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(color);
+    if (hex) {
+      const digits = hex[1] as string;
+      return digits.length <= 4
+        ? `#${[...digits].map(digit => digit + digit).join('')}`
+        : `#${digits}`;
+    }
+
+    const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*1(?:\.0*)?\s*)?\)$/.exec(color);
+    if (rgb) {
+      return `#${rgb.slice(1, 4).map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0')).join('')}`;
+    }
+
+    // Other notations, such as translucent rgba() or hsl(), are compared as written
+    if (this.COLOR_FUNCTION.test(color) || this.NAMED_COLORS.has(color)) {
+      return color;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Visits every hard-coded paint colour in attributes and inline styles,
+   * replacing it when the callback returns a value
+   */
+  static replaceColors(node: SVGNode, replace: (color: string) => string | undefined): void {
+    if (node.type !== 'element') {
+      return;
+    }
+
+    for (const property of this.PAINT_PROPERTIES) {
+      if (property === 'fill' && this.ANIMATION_ELEMENTS.includes(node.name)) {
+        continue;
+      }
+
+      const value = node.attributes[property];
+      const color = value === undefined ? undefined : this.parseColor(value);
+      const replacement = color === undefined ? undefined : replace(color);
+
+      if (replacement !== undefined) {
+        node.attributes[property] = replacement;
+      }
+    }
+
+    const style = node.attributes['style'];
+    if (style) {
+      node.attributes['style'] = style
+        .split(';')
+        .map(declaration => {
+          const separator = declaration.indexOf(':');
+          const property = declaration.slice(0, separator).trim().toLowerCase();
+
+          if (separator === -1 || !this.PAINT_PROPERTIES.includes(property)) {
+            return declaration;
+          }
+
+          const color = this.parseColor(declaration.slice(separator + 1));
+          const replacement = color === undefined ? undefined : replace(color);
+
+          return replacement === undefined ? declaration : `${declaration.slice(0, separator + 1)}${replacement}`;
+        })
+        .join(';');
+    }
+
+    for (const child of node.children) {
+      this.replaceColors(child, replace);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Bounded concurrency helpers for the processing pipeline
+ */
+export class Concurrency {
+  static readonly DEFAULT_LIMIT = 8;
+
+  /**
+   * Maps items through an async worker with at most `limit` tasks in flight.
+   * Results keep the order of the input items regardless of completion order.
+   */
+  static async map<T, R>(
+    items: T[],
+    limit: number | undefined,
+    worker: (item: T, index: number) => Promise<R>
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    const size = Math.max(1, Math.min(limit || this.DEFAULT_LIMIT, items.length));
+    let next = 0;
+    let failed = false;
+
+    const run = async (): Promise<void> => {
+      while (!failed && next < items.length) {
+        const index = next++;
+        try {
+          results[index] = await worker(items[index] as T, index);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: size }, run));
+
+    return results;
+  }
+}
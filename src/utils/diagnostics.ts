@@ -0,0 +1,48 @@
+import {
+  Diagnostic,
+  DiagnosticPhase,
+  DiagnosticSeverity,
+  IconifyLoaderError
+} from '../types';
+
+/**
+ * Helpers for building and formatting per-file diagnostics
+ */
+export class Diagnostics {
+  /**
+   * Creates a diagnostic from a caught error
+   */
+  static fromError(
+    error: unknown,
+    file: string,
+    phase: DiagnosticPhase,
+    severity: DiagnosticSeverity = 'error'
+  ): Diagnostic {
+    return {
+      file,
+      code: error instanceof IconifyLoaderError ? error.code : 'UNKNOWN_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      phase,
+      severity
+    };
+  }
+
+  /**
+   * Creates a warning diagnostic for a problem that did not stop processing
+   */
+  static warning(
+    file: string,
+    code: string,
+    message: string,
+    phase: DiagnosticPhase
+  ): Diagnostic {
+    return { file, code, message, phase, severity: 'warning' };
+  }
+
+  /**
+   * Formats a diagnostic as a single human-readable line
+   */
+  static format(diagnostic: Diagnostic): string {
+    return `${diagnostic.file} [${diagnostic.phase}] ${diagnostic.code}: ${diagnostic.message}`;
+  }
+}
@@ -5,19 +5,43 @@ import {
   FileExtension,
   FileSystemError,
   ValidationError,
-  SVGProcessingError
+  SVGElementNode,
+  SVGMetadata,
+  SVGAnalysis
 } from '../types';
+import { Concurrency } from './concurrency';
+import { SVGParser } from './svg-parser';
+import { IconifyCollection } from './iconify-collection';
 
 /**
  * File reader utilities for SVG processing
  */
 export class FileReader {
+  static readonly DEFAULT_VIEWBOX = '0 0 24 24';
+
   private static readonly SVG_EXTENSIONS: FileExtension[] = ['.svg'];
 
   /**
    * Recursively reads SVG files from a directory
    */
   static async readSVGFiles(
+    inputDir: string,
+    includeSubdirs: boolean = true,
+    ignorePatterns: string[] = [],
+    concurrency?: number
+  ): Promise<FileInfo[]> {
+    const files = await this.listSVGFiles(inputDir, includeSubdirs, ignorePatterns);
+
+    return Concurrency.map(files, concurrency, async file => ({
+      ...file,
+      content: await this.readFileContent(file.path)
+    }));
+  }
+
+  /**
+   * Recursively lists SVG files in a directory, sorted by path, without reading their content
+   */
+  static async listSVGFiles(
     inputDir: string,
     includeSubdirs: boolean = true,
     ignorePatterns: string[] = []
@@ -25,7 +49,9 @@ export class FileReader {
     try {
       const files: FileInfo[] = [];
       await this.readDirectoryRecursive(inputDir, files, includeSubdirs, ignorePatterns);
-      return files.filter(file => this.SVG_EXTENSIONS.includes(file.extension as FileExtension));
+      return files
+        .filter(file => this.SVG_EXTENSIONS.includes(file.extension as FileExtension))
+        .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
     } catch (error) {
       throw new FileSystemError(
         `Failed to read SVG files from directory: ${inputDir}`,
@@ -35,7 +61,44 @@ export class FileReader {
   }
 
   /**
-   * Recursively reads all files in a directory
+   * Reads Iconify JSON collections, resolving every icon and alias into an SVG file.
+   * Icons get a virtual `<collection>#<name>` path.
+   */
+  static async readIconifyCollections(filePaths: string[]): Promise<FileInfo[]> {
+    const files: FileInfo[] = [];
+
+    for (const filePath of filePaths) {
+      const collection = IconifyCollection.parse(await this.readFileContent(filePath), filePath);
+
+      for (const { name, svg } of IconifyCollection.toSVGs(collection)) {
+        files.push({
+          path: `${filePath}#${name}`,
+          name,
+          extension: '.svg',
+          content: svg
+        });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Reads the content of a single file
+   */
+  static async readFileContent(filePath: string): Promise<string> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to read file: ${filePath}`,
+        { originalError: error, filePath }
+      );
+    }
+  }
+
+  /**
+   * Recursively collects all files in a directory
    */
   private static async readDirectoryRecursive(
     dirPath: string,
@@ -57,7 +120,7 @@ export class FileReader {
         if (entry.isDirectory() && includeSubdirs) {
           await this.readDirectoryRecursive(fullPath, files, includeSubdirs, ignorePatterns);
         } else if (entry.isFile()) {
-          const fileInfo = await this.getFileInfo(fullPath);
+          const fileInfo = await this.getFileInfo(fullPath, false);
           if (fileInfo) {
             files.push(fileInfo);
           }
@@ -74,7 +137,7 @@ export class FileReader {
   /**
    * Gets file information for a given path
    */
-  private static async getFileInfo(filePath: string): Promise<FileInfo | null> {
+  static async getFileInfo(filePath: string, readContent: boolean = true): Promise<FileInfo | null> {
     try {
       const extension = path.extname(filePath).toLowerCase() as FileExtension;
       const name = path.basename(filePath, extension);
@@ -84,7 +147,7 @@ export class FileReader {
         path: filePath,
         name,
         extension,
-        content: await fs.readFile(filePath, 'utf-8')
+        ...(readContent && { content: await fs.readFile(filePath, 'utf-8') })
       };
     } catch (error) {
       throw new FileSystemError(
@@ -97,7 +160,7 @@ export class FileReader {
   /**
    * Checks if a path should be ignored based on patterns
    */
-  private static shouldIgnorePath(filePath: string, ignorePatterns: string[]): boolean {
+  static shouldIgnorePath(filePath: string, ignorePatterns: string[]): boolean {
     return ignorePatterns.some(pattern => {
       const regex = new RegExp(pattern);
       return regex.test(filePath);
@@ -105,9 +168,10 @@ export class FileReader {
   }
 
   /**
-   * Validates if a file is a valid SVG
+   * Validates that a file is a well-formed SVG document and returns its root <svg> element.
+   * Parse errors report the line and column of the problem.
    */
-  static validateSVGContent(content: string, fileName: string): void {
+  static validateSVGContent(content: string, fileName: string): SVGElementNode {
     if (!content || typeof content !== 'string') {
       throw new ValidationError(
         `Invalid SVG content in file: ${fileName}`,
@@ -115,63 +179,126 @@ export class FileReader {
       );
     }
 
-    const trimmedContent = content.trim();
-
-    if (!trimmedContent.startsWith('<svg') && !trimmedContent.includes('<svg')) {
-      throw new SVGProcessingError(
-        `File does not appear to be a valid SVG: ${fileName}`,
-        { fileName, contentPreview: trimmedContent.substring(0, 100) }
-      );
-    }
-
-    // Basic XML validation
-    if (!trimmedContent.includes('</svg>') && !trimmedContent.endsWith('/>')) {
-      throw new SVGProcessingError(
-        `SVG file appears to be malformed: ${fileName}`,
-        { fileName, contentPreview: trimmedContent.substring(0, 100) }
-      );
-    }
+    return SVGParser.parse(content, fileName);
   }
 
   /**
-   * Extracts basic metadata from SVG content
+   * Extracts metadata from the root <svg> element's attributes.
+   * Lengths are kept when they are plain numbers or pixels.
    */
-  static extractSVGAttributes(content: string): Record<string, string | undefined> {
-    const attributes: Record<string, string | undefined> = {};
+  static extractSVGAttributes(content: string | SVGElementNode): Partial<SVGMetadata> {
+    const root = typeof content === 'string' ? SVGParser.parse(content) : content;
+    const attrs = root.attributes;
+    const attributes: Partial<SVGMetadata> = {};
+
+    const viewBox = attrs['viewBox']?.trim();
+    if (viewBox) {
+      attributes.viewBox = viewBox;
+    }
+
+    const width = this.parseLength(attrs['width']);
+    if (width !== undefined) {
+      attributes.width = width;
+    }
 
-    // Extract viewBox
-    const viewBoxMatch = content.match(/viewBox\s*=\s*["']([^"']+)["']/i);
-    if (viewBoxMatch) {
-      attributes['viewBox'] = viewBoxMatch[1];
+    const height = this.parseLength(attrs['height']);
+    if (height !== undefined) {
+      attributes.height = height;
     }
 
-    // Extract width
-    const widthMatch = content.match(/width\s*=\s*["']([^"']+)["']/i);
-    if (widthMatch) {
-      attributes['width'] = widthMatch[1];
+    if (attrs['fill']) {
+      attributes.fill = attrs['fill'];
     }
 
-    // Extract height
-    const heightMatch = content.match(/height\s*=\s*["']([^"']+)["']/i);
-    if (heightMatch) {
-      attributes['height'] = heightMatch[1];
+    if (attrs['stroke']) {
+      attributes.stroke = attrs['stroke'];
     }
 
-    // Extract fill
-    const fillMatch = content.match(/fill\s*=\s*["']([^"']+)["']/i);
-    if (fillMatch) {
-      attributes['fill'] = fillMatch[1];
+    const strokeWidth = this.parseLength(attrs['stroke-width']);
+    if (strokeWidth !== undefined) {
+      attributes.strokeWidth = strokeWidth;
     }
 
-    // Extract stroke
-    const strokeMatch = content.match(/stroke\s*=\s*["']([^"']+)["']/i);
-    if (strokeMatch) {
-      attributes['stroke'] = strokeMatch[1];
+    if (attrs['class']) {
+      attributes.className = attrs['class'];
     }
 
     return attributes;
   }
 
+  /**
+   * Gets an icon's viewBox, falling back to its width/height and then to a 24x24 box
+   */
+  static getViewBox(metadata: SVGMetadata): string {
+    if (metadata.viewBox && this.parseViewBox(metadata.viewBox)) {
+      return metadata.viewBox;
+    }
+
+    const width = parseFloat(String(metadata.width));
+    const height = parseFloat(String(metadata.height));
+
+    if (width > 0 && height > 0) {
+      return `0 0 ${width} ${height}`;
+    }
+
+    return this.DEFAULT_VIEWBOX;
+  }
+
+  /**
+   * Parses a viewBox into `[minX, minY, width, height]`.
+   * Returns null unless it holds four numbers with a positive width and height.
+   */
+  static parseViewBox(viewBox: string): [number, number, number, number] | null {
+    const parts = viewBox.trim().split(/[\s,]+/).map(Number);
+    const [minX = 0, minY = 0, width = 0, height = 0] = parts;
+
+    return parts.length === 4 && parts.every(Number.isFinite) && width > 0 && height > 0
+      ? [minX, minY, width, height]
+      : null;
+  }
+
+  /**
+   * Counts the elements of an SVG document and flags content that needs attention
+   * (embedded images, scripts, stylesheets, references and gradients)
+   */
+  static analyzeSVG(root: SVGElementNode): SVGAnalysis {
+    const elements: Record<string, number> = {};
+    let elementCount = 0;
+
+    const visit = (node: SVGElementNode): void => {
+      elementCount++;
+      elements[node.name] = (elements[node.name] || 0) + 1;
+
+      for (const child of node.children) {
+        if (child.type === 'element') {
+          visit(child);
+        }
+      }
+    };
+    visit(root);
+
+    const has = (...names: string[]) => names.some(name => (elements[name] || 0) > 0);
+
+    return {
+      elementCount,
+      elements,
+      pathCount: elements['path'] || 0,
+      hasImage: has('image'),
+      hasScript: has('script'),
+      hasStyle: has('style'),
+      hasUse: has('use'),
+      hasGradients: has('linearGradient', 'radialGradient')
+    };
+  }
+
+  /**
+   * Parses a unitless or pixel length
+   */
+  private static parseLength(value: string | undefined): number | undefined {
+    const match = value === undefined ? null : /^\s*(\d*\.?\d+(?:e[+-]?\d+)?)(?:px)?\s*$/i.exec(value);
+    return match ? Number(match[1]) : undefined;
+  }
+
   /**
    * Checks if a directory exists
    */
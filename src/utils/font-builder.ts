@@ -0,0 +1,548 @@
+import * as zlib from 'zlib';
+import { FontGlyph, GlyphPoint } from '../types';
+
+interface FontTable {
+  tag: string;
+  data: Buffer;
+}
+
+interface EncodedGlyph {
+  data: Buffer;
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+  points: number;
+  contours: number;
+}
+
+/**
+ * Builds TrueType fonts from glyph outlines and wraps them as WOFF and WOFF2
+ */
+export class FontBuilder {
+  static readonly UNITS_PER_EM = 1000;
+  static readonly ASCENT = 850;
+  static readonly DESCENT = -150;
+
+  /**
+   * Table tags known to WOFF2, indexed by their directory flag value
+   */
+  private static readonly WOFF2_KNOWN_TAGS = [
+    'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post',
+    'cvt ', 'fpgm', 'glyf', 'loca', 'prep'
+  ];
+
+  /**
+   * Builds a TrueType font. Glyphs are mapped by codepoint and must be in the Basic Multilingual Plane.
+   */
+  static buildTTF(fontName: string, glyphs: FontGlyph[]): Buffer {
+    const sorted = [...glyphs].sort((a, b) => a.codepoint - b.codepoint);
+    const notdef: FontGlyph = { name: '.notdef', codepoint: 0, advanceWidth: this.UNITS_PER_EM, contours: [] };
+    const allGlyphs = [notdef, ...sorted];
+    const encoded = allGlyphs.map(glyph => this.encodeGlyph(glyph));
+
+    const tables: FontTable[] = [
+      { tag: 'OS/2', data: this.createOS2Table(sorted, encoded) },
+      { tag: 'cmap', data: this.createCmapTable(sorted) },
+      { tag: 'head', data: this.createHeadTable(encoded) },
+      { tag: 'hhea', data: this.createHheaTable(allGlyphs, encoded) },
+      { tag: 'hmtx', data: this.createHmtxTable(allGlyphs, encoded) },
+      { tag: 'maxp', data: this.createMaxpTable(encoded) },
+      { tag: 'name', data: this.createNameTable(fontName) },
+      { tag: 'post', data: this.createPostTable() },
+      ...this.createGlyfAndLocaTables(encoded)
+    ];
+
+    return this.assembleSfnt(tables);
+  }
+
+  /**
+   * Wraps a TrueType font as WOFF 1.0 with zlib-compressed tables
+   */
+  static toWOFF(ttf: Buffer): Buffer {
+    const tables = this.readTables(ttf);
+    const headerSize = 44 + tables.length * 20;
+    const directory = Buffer.alloc(headerSize);
+    const chunks: Buffer[] = [];
+    let offset = headerSize;
+
+    tables.forEach((table, index) => {
+      const compressed = zlib.deflateSync(table.data);
+      const stored = compressed.length < table.data.length ? compressed : table.data;
+      const entry = 44 + index * 20;
+
+      directory.write(table.tag, entry, 4, 'latin1');
+      directory.writeUInt32BE(offset, entry + 4);
+      directory.writeUInt32BE(stored.length, entry + 8);
+      directory.writeUInt32BE(table.data.length, entry + 12);
+      directory.writeUInt32BE(table.checksum, entry + 16);
+
+      const padded = this.pad(stored);
+      chunks.push(padded);
+      offset += padded.length;
+    });
+
+    directory.writeUInt32BE(0x774f4646, 0); // 'wOFF'
+    directory.writeUInt32BE(ttf.readUInt32BE(0), 4);
+    directory.writeUInt32BE(offset, 8);
+    directory.writeUInt16BE(tables.length, 12);
+    directory.writeUInt32BE(ttf.length, 16);
+    directory.writeUInt16BE(1, 20);
+
+    return Buffer.concat([directory, ...chunks]);
+  }
+
+  /**
+   * Wraps a TrueType font as WOFF2 with Brotli compression. The glyf and loca
+   * tables use the null transform, which every WOFF2 decoder must support.
+   */
+  static toWOFF2(ttf: Buffer): Buffer {
+    // loca must directly follow glyf in the WOFF2 table directory
+    const tables = this.readTables(ttf).filter(table => table.tag !== 'loca');
+    const loca = this.readTables(ttf).find(table => table.tag === 'loca');
+    if (loca) {
+      tables.splice(tables.findIndex(table => table.tag === 'glyf') + 1, 0, loca);
+    }
+
+    const directory: number[] = [];
+    for (const table of tables) {
+      const known = this.WOFF2_KNOWN_TAGS.indexOf(table.tag);
+      const nullTransform = table.tag === 'glyf' || table.tag === 'loca' ? 3 << 6 : 0;
+
+      if (known === -1) {
+        directory.push(63 | nullTransform, ...Buffer.from(table.tag, 'latin1'));
+      } else {
+        directory.push(known | nullTransform);
+      }
+      directory.push(...this.encodeUIntBase128(table.data.length));
+    }
+
+    const compressed = zlib.brotliCompressSync(Buffer.concat(tables.map(table => table.data)), {
+      params: {
+        [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_FONT,
+        [zlib.constants.BROTLI_PARAM_QUALITY]: 11
+      }
+    });
+
+    const header = Buffer.alloc(48);
+    const body = this.pad(Buffer.concat([Buffer.from(directory), compressed]));
+
+    header.writeUInt32BE(0x774f4632, 0); // 'wOF2'
+    header.writeUInt32BE(ttf.readUInt32BE(0), 4);
+    header.writeUInt32BE(header.length + body.length, 8);
+    header.writeUInt16BE(tables.length, 12);
+    header.writeUInt32BE(ttf.length, 16);
+    header.writeUInt32BE(compressed.length, 20);
+    header.writeUInt16BE(1, 24);
+
+    return Buffer.concat([header, body]);
+  }
+
+  /**
+   * Checks that a glyph fits the 16-bit glyf and hmtx fields: its advance width,
+   * its rounded coordinates and the steps between consecutive points
+   */
+  static isEncodable(contours: GlyphPoint[][], advanceWidth: number): boolean {
+    const fitsInt16 = (value: number): boolean => value >= -0x8000 && value <= 0x7fff;
+    let previous = { x: 0, y: 0 };
+
+    if (advanceWidth < 0 || advanceWidth > 0xffff) {
+      return false;
+    }
+
+    for (const point of contours.filter(contour => contour.length >= 3).flat()) {
+      const x = Math.round(point.x);
+      const y = Math.round(point.y);
+
+      if (!fitsInt16(x) || !fitsInt16(y) || !fitsInt16(x - previous.x) || !fitsInt16(y - previous.y)) {
+        return false;
+      }
+      previous = { x, y };
+    }
+
+    return true;
+  }
+
+  /**
+   * Encodes a simple glyph, rounding coordinates to font units
+   */
+  private static encodeGlyph(glyph: FontGlyph): EncodedGlyph {
+    const contours = glyph.contours
+      .map(contour => contour.map(point => ({ x: Math.round(point.x), y: Math.round(point.y), onCurve: point.onCurve })))
+      .filter(contour => contour.length >= 3);
+
+    if (contours.length === 0) {
+      return { data: Buffer.alloc(0), xMin: 0, yMin: 0, xMax: 0, yMax: 0, points: 0, contours: 0 };
+    }
+
+    const points: GlyphPoint[] = contours.flat();
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const bounds = {
+      xMin: Math.min(...xs),
+      yMin: Math.min(...ys),
+      xMax: Math.max(...xs),
+      yMax: Math.max(...ys)
+    };
+
+    const header = Buffer.alloc(10 + contours.length * 2 + 2);
+    header.writeInt16BE(contours.length, 0);
+    header.writeInt16BE(bounds.xMin, 2);
+    header.writeInt16BE(bounds.yMin, 4);
+    header.writeInt16BE(bounds.xMax, 6);
+    header.writeInt16BE(bounds.yMax, 8);
+
+    let endPoint = -1;
+    contours.forEach((contour, index) => {
+      endPoint += contour.length;
+      header.writeUInt16BE(endPoint, 10 + index * 2);
+    });
+    // instructionLength stays 0
+
+    const flags = Buffer.from(points.map(point => (point.onCurve ? 1 : 0)));
+    const xCoordinates = Buffer.alloc(points.length * 2);
+    const yCoordinates = Buffer.alloc(points.length * 2);
+    let previous = { x: 0, y: 0 };
+
+    points.forEach((point, index) => {
+      xCoordinates.writeInt16BE(point.x - previous.x, index * 2);
+      yCoordinates.writeInt16BE(point.y - previous.y, index * 2);
+      previous = point;
+    });
+
+    return {
+      data: this.pad(Buffer.concat([header, flags, xCoordinates, yCoordinates])),
+      ...bounds,
+      points: points.length,
+      contours: contours.length
+    };
+  }
+
+  private static createHeadTable(glyphs: EncodedGlyph[]): Buffer {
+    const bounds = this.getFontBounds(glyphs);
+    const table = Buffer.alloc(54);
+
+    table.writeUInt32BE(0x00010000, 0); // version
+    table.writeUInt32BE(0x00010000, 4); // fontRevision
+    // checkSumAdjustment (8) is filled in once the font is assembled
+    table.writeUInt32BE(0x5f0f3cf5, 12); // magicNumber
+    table.writeUInt16BE(0x000b, 16); // flags
+    table.writeUInt16BE(this.UNITS_PER_EM, 18);
+    // created (20) and modified (28) stay zero so builds are reproducible
+    table.writeInt16BE(bounds.xMin, 36);
+    table.writeInt16BE(bounds.yMin, 38);
+    table.writeInt16BE(bounds.xMax, 40);
+    table.writeInt16BE(bounds.yMax, 42);
+    table.writeUInt16BE(0, 44); // macStyle
+    table.writeUInt16BE(8, 46); // lowestRecPPEM
+    table.writeInt16BE(2, 48); // fontDirectionHint
+    table.writeInt16BE(1, 50); // indexToLocFormat: long offsets
+    table.writeInt16BE(0, 52); // glyphDataFormat
+
+    return table;
+  }
+
+  private static createHheaTable(glyphs: FontGlyph[], encoded: EncodedGlyph[]): Buffer {
+    const table = Buffer.alloc(36);
+    const drawn = encoded.filter(glyph => glyph.contours > 0);
+    const advances = glyphs.map(glyph => glyph.advanceWidth);
+
+    table.writeUInt32BE(0x00010000, 0);
+    table.writeInt16BE(this.ASCENT, 4);
+    table.writeInt16BE(this.DESCENT, 6);
+    table.writeInt16BE(0, 8); // lineGap
+    table.writeUInt16BE(Math.max(...advances), 10);
+    table.writeInt16BE(drawn.length ? Math.min(...drawn.map(glyph => glyph.xMin)) : 0, 12);
+    table.writeInt16BE(drawn.length
+      ? Math.min(...encoded.map((glyph, index) => glyph.contours > 0 ? (advances[index] as number) - glyph.xMax : Infinity))
+      : 0, 14);
+    table.writeInt16BE(drawn.length ? Math.max(...drawn.map(glyph => glyph.xMax)) : 0, 16);
+    table.writeInt16BE(1, 18); // caretSlopeRise
+    table.writeUInt16BE(glyphs.length, 34); // numberOfHMetrics
+
+    return table;
+  }
+
+  private static createHmtxTable(glyphs: FontGlyph[], encoded: EncodedGlyph[]): Buffer {
+    const table = Buffer.alloc(glyphs.length * 4);
+
+    glyphs.forEach((glyph, index) => {
+      table.writeUInt16BE(glyph.advanceWidth, index * 4);
+      table.writeInt16BE((encoded[index] as EncodedGlyph).xMin, index * 4 + 2);
+    });
+
+    return table;
+  }
+
+  private static createMaxpTable(glyphs: EncodedGlyph[]): Buffer {
+    const table = Buffer.alloc(32);
+
+    table.writeUInt32BE(0x00010000, 0);
+    table.writeUInt16BE(glyphs.length, 4);
+    table.writeUInt16BE(Math.max(0, ...glyphs.map(glyph => glyph.points)), 6);
+    table.writeUInt16BE(Math.max(0, ...glyphs.map(glyph => glyph.contours)), 8);
+    table.writeUInt16BE(2, 14); // maxZones
+
+    return table;
+  }
+
+  private static createOS2Table(glyphs: FontGlyph[], encoded: EncodedGlyph[]): Buffer {
+    const table = Buffer.alloc(96);
+    const codepoints = glyphs.map(glyph => glyph.codepoint);
+    const advances = glyphs.map(glyph => glyph.advanceWidth);
+    const averageWidth = advances.length
+      ? Math.round(advances.reduce((sum, width) => sum + width, 0) / advances.length)
+      : this.UNITS_PER_EM;
+    const bounds = this.getFontBounds(encoded);
+
+    table.writeUInt16BE(4, 0); // version
+    table.writeInt16BE(averageWidth, 2);
+    table.writeUInt16BE(400, 4); // usWeightClass
+    table.writeUInt16BE(5, 6); // usWidthClass
+    table.writeInt16BE(650, 10); // ySubscriptXSize
+    table.writeInt16BE(700, 12); // ySubscriptYSize
+    table.writeInt16BE(140, 16); // ySubscriptYOffset
+    table.writeInt16BE(650, 18); // ySuperscriptXSize
+    table.writeInt16BE(700, 20); // ySuperscriptYSize
+    table.writeInt16BE(480, 24); // ySuperscriptYOffset
+    table.writeInt16BE(50, 26); // yStrikeoutSize
+    table.writeInt16BE(250, 28); // yStrikeoutPosition
+    table.writeUInt32BE(1 << 28, 46); // ulUnicodeRange2: Private Use Area
+    table.write('    ', 58, 4, 'latin1'); // achVendID
+    table.writeUInt16BE(0x0040, 62); // fsSelection: REGULAR
+    table.writeUInt16BE(codepoints.length ? Math.min(...codepoints) : 0, 64);
+    table.writeUInt16BE(codepoints.length ? Math.max(...codepoints) : 0, 66);
+    table.writeInt16BE(this.ASCENT, 68); // sTypoAscender
+    table.writeInt16BE(this.DESCENT, 70); // sTypoDescender
+    table.writeInt16BE(0, 72); // sTypoLineGap
+    table.writeUInt16BE(Math.max(this.ASCENT, bounds.yMax), 74); // usWinAscent
+    table.writeUInt16BE(Math.max(-this.DESCENT, -bounds.yMin), 76); // usWinDescent
+    table.writeUInt32BE(1, 78); // ulCodePageRange1: Latin 1
+    table.writeUInt16BE(32, 92); // usBreakChar
+
+    return table;
+  }
+
+  /**
+   * Creates a cmap with a single format 4 subtable shared by the Unicode and Windows platforms
+   */
+  private static createCmapTable(glyphs: FontGlyph[]): Buffer {
+    // Consecutive codepoints map to consecutive glyph ids, so every segment can use idDelta
+    const segments: Array<{ start: number; end: number; delta: number }> = [];
+    glyphs.forEach((glyph, index) => {
+      const glyphId = index + 1;
+      const last = segments[segments.length - 1];
+      if (last && glyph.codepoint === last.end + 1) {
+        last.end = glyph.codepoint;
+      } else {
+        segments.push({ start: glyph.codepoint, end: glyph.codepoint, delta: glyphId - glyph.codepoint });
+      }
+    });
+    segments.push({ start: 0xffff, end: 0xffff, delta: 1 });
+
+    const segCount = segments.length;
+    const searchRange = 2 * 2 ** Math.floor(Math.log2(segCount));
+    const subtable = Buffer.alloc(16 + segCount * 8);
+
+    subtable.writeUInt16BE(4, 0); // format
+    subtable.writeUInt16BE(subtable.length, 2);
+    subtable.writeUInt16BE(segCount * 2, 6);
+    subtable.writeUInt16BE(searchRange, 8);
+    subtable.writeUInt16BE(Math.log2(searchRange / 2), 10);
+    subtable.writeUInt16BE(segCount * 2 - searchRange, 12);
+
+    segments.forEach((segment, index) => {
+      subtable.writeUInt16BE(segment.end, 14 + index * 2);
+      subtable.writeUInt16BE(segment.start, 16 + segCount * 2 + index * 2);
+      subtable.writeUInt16BE((segment.delta + 0x10000) % 0x10000, 16 + segCount * 4 + index * 2);
+      // idRangeOffset stays 0
+    });
+
+    const header = Buffer.alloc(4 + 2 * 8);
+    header.writeUInt16BE(0, 0); // version
+    header.writeUInt16BE(2, 2); // numTables
+    header.writeUInt16BE(0, 4); // Unicode platform
+    header.writeUInt16BE(3, 6); // Unicode 2.0 BMP
+    header.writeUInt32BE(header.length, 8);
+    header.writeUInt16BE(3, 12); // Windows platform
+    header.writeUInt16BE(1, 14); // Unicode BMP
+    header.writeUInt32BE(header.length, 16);
+
+    return Buffer.concat([header, subtable]);
+  }
+
+  /**
+   * Creates Windows (UTF-16BE) name records for the font family
+   */
+  private static createNameTable(fontName: string): Buffer {
+    const postScriptName = fontName.replace(/[^\x21-\x7e]|[[\](){}<>/%]/g, '').slice(0, 63) || 'icons';
+    const names: Array<[number, string]> = [
+      [1, fontName],
+      [2, 'Regular'],
+      [3, `${fontName}:Regular`],
+      [4, fontName],
+      [5, 'Version 1.0'],
+      [6, postScriptName]
+    ];
+
+    const strings = names.map(([, value]) => this.encodeUTF16BE(value));
+    const header = Buffer.alloc(6 + names.length * 12);
+    let offset = 0;
+
+    header.writeUInt16BE(0, 0); // format
+    header.writeUInt16BE(names.length, 2);
+    header.writeUInt16BE(header.length, 4); // stringOffset
+
+    names.forEach(([nameId], index) => {
+      const record = 6 + index * 12;
+      const value = strings[index] as Buffer;
+      header.writeUInt16BE(3, record); // platformID
+      header.writeUInt16BE(1, record + 2); // encodingID
+      header.writeUInt16BE(0x0409, record + 4); // languageID: en-US
+      header.writeUInt16BE(nameId, record + 6);
+      header.writeUInt16BE(value.length, record + 8);
+      header.writeUInt16BE(offset, record + 10);
+      offset += value.length;
+    });
+
+    return Buffer.concat([header, ...strings]);
+  }
+
+  private static createPostTable(): Buffer {
+    const table = Buffer.alloc(32);
+
+    table.writeUInt32BE(0x00030000, 0); // version 3: no glyph names
+    table.writeInt16BE(-75, 8); // underlinePosition
+    table.writeInt16BE(50, 10); // underlineThickness
+
+    return table;
+  }
+
+  private static createGlyfAndLocaTables(glyphs: EncodedGlyph[]): FontTable[] {
+    const loca = Buffer.alloc((glyphs.length + 1) * 4);
+    let offset = 0;
+
+    glyphs.forEach((glyph, index) => {
+      loca.writeUInt32BE(offset, index * 4);
+      offset += glyph.data.length;
+    });
+    loca.writeUInt32BE(offset, glyphs.length * 4);
+
+    return [
+      { tag: 'glyf', data: Buffer.concat(glyphs.map(glyph => glyph.data)) },
+      { tag: 'loca', data: loca }
+    ];
+  }
+
+  /**
+   * Writes the sfnt header, table directory and tables, then sets head.checkSumAdjustment
+   */
+  private static assembleSfnt(tables: FontTable[]): Buffer {
+    const sorted = [...tables].sort((a, b) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+    const numTables = sorted.length;
+    const searchRange = 16 * 2 ** Math.floor(Math.log2(numTables));
+    const header = Buffer.alloc(12 + numTables * 16);
+
+    header.writeUInt32BE(0x00010000, 0);
+    header.writeUInt16BE(numTables, 4);
+    header.writeUInt16BE(searchRange, 6);
+    header.writeUInt16BE(Math.log2(searchRange / 16), 8);
+    header.writeUInt16BE(numTables * 16 - searchRange, 10);
+
+    const chunks: Buffer[] = [];
+    let offset = header.length;
+    let headOffset = 0;
+
+    sorted.forEach((table, index) => {
+      const entry = 12 + index * 16;
+      header.write(table.tag, entry, 4, 'latin1');
+      header.writeUInt32BE(this.checksum(table.data), entry + 4);
+      header.writeUInt32BE(offset, entry + 8);
+      header.writeUInt32BE(table.data.length, entry + 12);
+
+      if (table.tag === 'head') {
+        headOffset = offset;
+      }
+
+      const padded = this.pad(table.data);
+      chunks.push(padded);
+      offset += padded.length;
+    });
+
+    const font = Buffer.concat([header, ...chunks]);
+    font.writeUInt32BE((0xb1b0afba - this.checksum(font) + 0x100000000) % 0x100000000, headOffset + 8);
+
+    return font;
+  }
+
+  /**
+   * Reads the tables of an assembled TrueType font
+   */
+  private static readTables(ttf: Buffer): Array<FontTable & { checksum: number }> {
+    const numTables = ttf.readUInt16BE(4);
+    const tables: Array<FontTable & { checksum: number }> = [];
+
+    for (let index = 0; index < numTables; index++) {
+      const entry = 12 + index * 16;
+      const offset = ttf.readUInt32BE(entry + 8);
+      tables.push({
+        tag: ttf.toString('latin1', entry, entry + 4),
+        checksum: ttf.readUInt32BE(entry + 4),
+        data: ttf.subarray(offset, offset + ttf.readUInt32BE(entry + 12))
+      });
+    }
+
+    return tables;
+  }
+
+  private static getFontBounds(glyphs: EncodedGlyph[]): { xMin: number; yMin: number; xMax: number; yMax: number } {
+    const drawn = glyphs.filter(glyph => glyph.contours > 0);
+
+    if (drawn.length === 0) {
+      return { xMin: 0, yMin: 0, xMax: 0, yMax: 0 };
+    }
+
+    return {
+      xMin: Math.min(...drawn.map(glyph => glyph.xMin)),
+      yMin: Math.min(...drawn.map(glyph => glyph.yMin)),
+      xMax: Math.max(...drawn.map(glyph => glyph.xMax)),
+      yMax: Math.max(...drawn.map(glyph => glyph.yMax))
+    };
+  }
+
+  private static checksum(data: Buffer): number {
+    const padded = this.pad(data);
+    let sum = 0;
+
+    for (let offset = 0; offset < padded.length; offset += 4) {
+      sum = (sum + padded.readUInt32BE(offset)) % 0x100000000;
+    }
+
+    return sum;
+  }
+
+  private static pad(data: Buffer): Buffer {
+    const remainder = data.length % 4;
+    return remainder === 0 ? data : Buffer.concat([data, Buffer.alloc(4 - remainder)]);
+  }
+
+  private static encodeUTF16BE(value: string): Buffer {
+    const buffer = Buffer.from(value, 'utf16le');
+    return buffer.swap16();
+  }
+
+  /**
+   * Encodes a WOFF2 UIntBase128 value
+   */
+  private static encodeUIntBase128(value: number): number[] {
+    const bytes = [value & 0x7f];
+    let rest = Math.floor(value / 128);
+
+    while (rest > 0) {
+      bytes.unshift((rest & 0x7f) | 0x80);
+      rest = Math.floor(rest / 128);
+    }
+
+    return bytes;
+  }
+}
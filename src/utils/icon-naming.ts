@@ -0,0 +1,46 @@
+import { IconifyLoaderOptions } from '../types';
+
+/**
+ * Derives the ids icons are emitted under. A custom fileNameFormatter decides
+ * the name, with any .svg extension removed.
+ */
+export class IconNaming {
+  /**
+   * Gets a case-preserving id of letters, digits, underscores and hyphens,
+   * as used for sprite symbols and font glyphs
+   */
+  static getId(originalName: string, options: IconifyLoaderOptions): string {
+    return this.getBaseName(originalName, options)
+      .trim()
+      .replace(/[^a-zA-Z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  /**
+   * Gets a lowercase kebab-case id, as used for custom element tags and Iconify icon names
+   */
+  static getKebabId(originalName: string, options: IconifyLoaderOptions): string {
+    return this.getBaseName(originalName, options)
+      .trim()
+      .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  /**
+   * Gets the id an icon is referenced by in the configured output format.
+   * Sprites and fonts keep the original case; every other format uses kebab-case ids.
+   */
+  static getFormatId(originalName: string, options: IconifyLoaderOptions): string {
+    return options.format === 'sprite' || options.format === 'font'
+      ? this.getId(originalName, options)
+      : this.getKebabId(originalName, options);
+  }
+
+  private static getBaseName(originalName: string, options: IconifyLoaderOptions): string {
+    return options.fileNameFormatter
+      ? options.fileNameFormatter(originalName).replace(/\.svg$/i, '')
+      : originalName;
+  }
+}
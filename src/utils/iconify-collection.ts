@@ -0,0 +1,221 @@
+import {
+  IconifyJSON,
+  IconifyIcon,
+  IconifyAlias,
+  SVGElementNode,
+  ValidationError
+} from '../types';
+import { SVGParser } from './svg-parser';
+
+type ResolvedIcon = Required<Omit<IconifyIcon, 'hidden'>>;
+
+/**
+ * Conversion between SVG markup and Iconify JSON collections
+ */
+export class IconifyCollection {
+  /**
+   * Iconify's default icon size when a collection does not set one
+   */
+  static readonly DEFAULT_SIZE = 16;
+
+  private static readonly MAX_ALIAS_DEPTH = 32;
+
+  /**
+   * Root attributes describing the <svg> element itself rather than its content
+   */
+  private static readonly rootOnlyAttributes = [
+    'width',
+    'height',
+    'x',
+    'y',
+    'id',
+    'viewBox',
+    'version',
+    'baseProfile',
+    'preserveAspectRatio',
+    'xmlns'
+  ];
+
+  /**
+   * Parses and validates an Iconify JSON collection
+   */
+  static parse(content: string, fileName: string): IconifyJSON {
+    let data: unknown;
+
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid Iconify JSON in ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { fileName }
+      );
+    }
+
+    const collection = data as Partial<IconifyJSON> | null;
+
+    if (!collection || typeof collection !== 'object' || typeof collection.prefix !== 'string') {
+      throw new ValidationError(
+        `Iconify collection ${fileName} is missing a prefix`,
+        { fileName }
+      );
+    }
+
+    if (!collection.icons || typeof collection.icons !== 'object') {
+      throw new ValidationError(
+        `Iconify collection ${fileName} is missing icons`,
+        { fileName, prefix: collection.prefix }
+      );
+    }
+
+    for (const [name, icon] of Object.entries(collection.icons)) {
+      if (!icon || typeof icon.body !== 'string') {
+        throw new ValidationError(
+          `Icon "${name}" in ${fileName} has no body`,
+          { fileName, name }
+        );
+      }
+    }
+
+    return collection as IconifyJSON;
+  }
+
+  /**
+   * Resolves every visible icon and alias of a collection into standalone SVG markup
+   */
+  static toSVGs(collection: IconifyJSON): Array<{ name: string; svg: string }> {
+    const entries = [
+      ...Object.entries(collection.icons),
+      ...Object.entries(collection.aliases || {})
+    ];
+
+    // Hidden icons only remain in collections for backwards compatibility
+    return entries
+      .filter(([, icon]) => !icon.hidden)
+      .map(([name]) => ({ name, svg: this.toSVG(this.resolveIcon(collection, name)) }));
+  }
+
+  /**
+   * Splits an SVG into Iconify icon data: the viewBox dimensions and the content
+   * without the outer <svg>. Presentation attributes of the root are kept on a wrapping <g>.
+   */
+  static fromSVG(root: SVGElementNode, viewBox: string): IconifyIcon {
+    const [left = 0, top = 0, width = this.DEFAULT_SIZE, height = this.DEFAULT_SIZE] = viewBox
+      .trim()
+      .split(/[\s,]+/)
+      .map(value => parseFloat(value));
+
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(root.attributes)) {
+      if (!this.rootOnlyAttributes.includes(name) && !name.startsWith('xmlns:')) {
+        attributes[name] = value;
+      }
+    }
+
+    const body = Object.keys(attributes).length > 0
+      ? SVGParser.stringify({ type: 'element', name: 'g', attributes, children: root.children })
+      : SVGParser.stringifyChildren(root);
+
+    return {
+      body,
+      ...(left !== 0 && { left }),
+      ...(top !== 0 && { top }),
+      width,
+      height
+    };
+  }
+
+  /**
+   * Resolves an icon or alias, applying collection defaults and alias overrides
+   */
+  private static resolveIcon(collection: IconifyJSON, name: string): ResolvedIcon {
+    const aliases = collection.aliases || {};
+    const chain: IconifyAlias[] = [];
+    let current = name;
+
+    while (!collection.icons[current]) {
+      const alias = aliases[current];
+
+      if (!alias || chain.length >= this.MAX_ALIAS_DEPTH) {
+        throw new ValidationError(
+          `Cannot resolve Iconify icon "${name}" in collection "${collection.prefix}"`,
+          { prefix: collection.prefix, name }
+        );
+      }
+
+      chain.unshift(alias);
+      current = alias.parent;
+    }
+
+    const icon = collection.icons[current] as IconifyIcon;
+    const resolved: ResolvedIcon = {
+      body: icon.body,
+      left: icon.left ?? collection.left ?? 0,
+      top: icon.top ?? collection.top ?? 0,
+      width: icon.width ?? collection.width ?? this.DEFAULT_SIZE,
+      height: icon.height ?? collection.height ?? this.DEFAULT_SIZE,
+      rotate: icon.rotate ?? collection.rotate ?? 0,
+      hFlip: icon.hFlip ?? collection.hFlip ?? false,
+      vFlip: icon.vFlip ?? collection.vFlip ?? false
+    };
+
+    // Aliases override dimensions and stack transformations on top of their parent
+    for (const alias of chain) {
+      resolved.left = alias.left ?? resolved.left;
+      resolved.top = alias.top ?? resolved.top;
+      resolved.width = alias.width ?? resolved.width;
+      resolved.height = alias.height ?? resolved.height;
+      resolved.rotate += alias.rotate ?? 0;
+      resolved.hFlip = resolved.hFlip !== Boolean(alias.hFlip);
+      resolved.vFlip = resolved.vFlip !== Boolean(alias.vFlip);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Renders resolved icon data as an <svg>, turning rotation and flips into transforms
+   */
+  private static toSVG(icon: ResolvedIcon): string {
+    let { left, top, width, height, rotate } = icon;
+    const transforms: string[] = [];
+
+    if (icon.hFlip) {
+      if (icon.vFlip) {
+        rotate += 2;
+      } else {
+        transforms.push(`translate(${width + left} ${0 - top})`, 'scale(-1 1)');
+        left = top = 0;
+      }
+    } else if (icon.vFlip) {
+      transforms.push(`translate(${0 - left} ${height + top})`, 'scale(1 -1)');
+      left = top = 0;
+    }
+
+    rotate = ((rotate % 4) + 4) % 4;
+
+    switch (rotate) {
+      case 1:
+        transforms.unshift(`rotate(90 ${height / 2 + top} ${height / 2 + top})`);
+        break;
+      case 2:
+        transforms.unshift(`rotate(180 ${width / 2 + left} ${height / 2 + top})`);
+        break;
+      case 3:
+        transforms.unshift(`rotate(-90 ${width / 2 + left} ${width / 2 + left})`);
+        break;
+    }
+
+    // Quarter turns swap the box
+    if (rotate % 2 === 1) {
+      [left, top] = [top, left];
+      [width, height] = [height, width];
+    }
+
+    const body = transforms.length > 0
+      ? `<g transform="${transforms.join(' ')}">${icon.body}</g>`
+      : icon.body;
+    const xlink = body.includes('xlink:') ? ' xmlns:xlink="http://www.w3.org/1999/xlink"' : '';
+
+    return `<svg xmlns="http://www.w3.org/2000/svg"${xlink} width="${width}" height="${height}" viewBox="${left} ${top} ${width} ${height}">${body}</svg>`;
+  }
+}
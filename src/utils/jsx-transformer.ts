@@ -0,0 +1,332 @@
+import { SVGNode, SVGTextNode, JSXDialect } from '../types';
+
+/**
+ * Converts parsed SVG elements into JSX markup.
+ * The `react` dialect uses React prop names (className, strokeWidth, style objects);
+ * the `dom` dialect keeps SVG attribute names and inline styles, as Solid and Preact expect;
+ * the `native` dialect renders react-native-svg primitives (`Path`, `G`, ...) with camelCased props.
+ */
+export class JSXTransformer {
+  private static readonly ATTRIBUTE_NAMES: Record<string, string> = {
+    class: 'className',
+    for: 'htmlFor',
+    tabindex: 'tabIndex'
+  };
+
+  private static readonly NAMESPACE_PREFIXES: Record<string, string> = {
+    xlink: 'xlink',
+    xml: 'xml',
+    xmlns: 'xmlns'
+  };
+
+  /**
+   * SVG elements and the react-native-svg primitives rendering them
+   */
+  static readonly NATIVE_ELEMENTS: Record<string, string> = {
+    svg: 'Svg',
+    circle: 'Circle',
+    ellipse: 'Ellipse',
+    g: 'G',
+    text: 'Text',
+    tspan: 'TSpan',
+    textPath: 'TextPath',
+    path: 'Path',
+    polygon: 'Polygon',
+    polyline: 'Polyline',
+    line: 'Line',
+    rect: 'Rect',
+    use: 'Use',
+    image: 'Image',
+    symbol: 'Symbol',
+    defs: 'Defs',
+    linearGradient: 'LinearGradient',
+    radialGradient: 'RadialGradient',
+    stop: 'Stop',
+    clipPath: 'ClipPath',
+    pattern: 'Pattern',
+    mask: 'Mask',
+    marker: 'Marker'
+  };
+
+  /**
+   * Elements whose whitespace-only text children are significant
+   */
+  private static readonly TEXT_ELEMENTS = ['text', 'tspan', 'textPath', 'title', 'desc', 'style'];
+
+  /**
+   * Converts an SVG attribute name to its JSX equivalent.
+   * Returns null for editor namespaces that have no JSX representation, and for
+   * inline event handlers, which JSX only accepts as functions.
+   */
+  static toJSXAttributeName(name: string): string | null {
+    if (this.isEventHandler(name)) {
+      return null;
+    }
+
+    const mapped = this.ATTRIBUTE_NAMES[name];
+    if (mapped) {
+      return mapped;
+    }
+
+    if (name.startsWith('data-') || name.startsWith('aria-')) {
+      return name;
+    }
+
+    if (name.includes(':')) {
+      const [prefix, localName] = name.split(':') as [string, string];
+      const jsxPrefix = this.NAMESPACE_PREFIXES[prefix];
+      if (!jsxPrefix) {
+        return null;
+      }
+      return jsxPrefix + localName.charAt(0).toUpperCase() + this.camelCase(localName.slice(1));
+    }
+
+    if (name === 'xmlns') {
+      return name;
+    }
+
+    return this.camelCase(name);
+  }
+
+  /**
+   * Converts an inline style string into a style object
+   */
+  static styleToObject(style: string): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    for (const declaration of style.split(';')) {
+      const separator = declaration.indexOf(':');
+      if (separator === -1) continue;
+
+      const property = declaration.slice(0, separator).trim();
+      const value = declaration.slice(separator + 1).trim();
+      if (!property || !value) continue;
+
+      result[this.toStylePropertyName(property)] = value;
+    }
+
+    return result;
+  }
+
+  /**
+   * Keeps an SVG attribute name for the dom dialect.
+   * `xlink:href` becomes the SVG 2 `href`; other namespaced attributes are typed
+   * differently by Solid and Preact (or not at all), so null is returned for them.
+   */
+  static toDOMAttributeName(name: string): string | null {
+    if (this.isEventHandler(name)) {
+      return null;
+    }
+    if (name === 'xlink:href') {
+      return 'href';
+    }
+    return name.includes(':') ? null : name;
+  }
+
+  /**
+   * Converts an SVG attribute name to its react-native-svg prop.
+   * Returns null for attributes without a native equivalent (classes, namespaces, aria-*, data-*).
+   */
+  static toNativeAttributeName(name: string): string | null {
+    if (name === 'xlink:href') {
+      return 'href';
+    }
+
+    if (this.isEventHandler(name) || name === 'class' || name === 'xmlns' || name.includes(':') || name.startsWith('data-') || name.startsWith('aria-')) {
+      return null;
+    }
+
+    return this.camelCase(name);
+  }
+
+  /**
+   * Merges attribute sets in order of precedence, treating names that render as the same
+   * prop (`class` and `className`) as one attribute. The name of the winning source is kept.
+   */
+  static mergeAttributes(
+    sources: Array<Record<string, string | number | boolean | null | undefined>>,
+    dialect: JSXDialect = 'react'
+  ): Record<string, string> {
+    const merged = new Map<string, [string, string]>();
+
+    for (const source of sources) {
+      for (const [name, value] of Object.entries(source)) {
+        if (value === undefined || value === null) continue;
+
+        const key = this.toPropName(name, dialect) ?? name;
+        merged.set(key, [name, String(value)]);
+      }
+    }
+
+    return Object.fromEntries(merged.values());
+  }
+
+  /**
+   * Gets the prop an SVG attribute renders as in a dialect, or null when it is dropped
+   */
+  static toPropName(name: string, dialect: JSXDialect = 'react'): string | null {
+    return dialect === 'dom'
+      ? this.toDOMAttributeName(name)
+      : dialect === 'native' ? this.toNativeAttributeName(name) : this.toJSXAttributeName(name);
+  }
+
+  /**
+   * Renders element attributes as JSX attribute strings
+   */
+  static renderAttributes(attributes: Record<string, string>, dialect: JSXDialect = 'react'): string[] {
+    const rendered: string[] = [];
+
+    for (const [name, value] of Object.entries(attributes)) {
+      // Both dialects render xlink:href as href, which must not be repeated
+      if (name === 'xlink:href' && dialect !== 'react' && attributes['href'] !== undefined) continue;
+
+      const jsxName = this.toPropName(name, dialect);
+      if (!jsxName) continue;
+
+      if (jsxName === 'style' && dialect === 'native') {
+        // react-native-svg takes presentation properties as props rather than styles
+        for (const [property, declaration] of Object.entries(this.styleToObject(value))) {
+          // Vendor-prefixed and custom properties have no native equivalent
+          if (!/^(--|[A-Z]|ms[A-Z])/.test(property)) {
+            rendered.push(this.renderAttribute(property, declaration));
+          }
+        }
+      } else if (jsxName === 'style' && dialect === 'react') {
+        rendered.push(this.renderStyle(this.styleToObject(value)));
+      } else {
+        rendered.push(this.renderAttribute(jsxName, value));
+      }
+    }
+
+    return rendered;
+  }
+
+  /**
+   * Renders a single JSX attribute, escaping the value when needed
+   */
+  static renderAttribute(name: string, value: string): string {
+    if (/["&\\\n]/.test(value)) {
+      return `${name}={${JSON.stringify(value)}}`;
+    }
+    return `${name}="${value}"`;
+  }
+
+  /**
+   * Renders a style object as a JSX style attribute
+   */
+  static renderStyle(style: Record<string, string>): string {
+    return `style={{ ${this.renderStyleEntries(style).join(', ')} }}`;
+  }
+
+  /**
+   * Renders the entries of a style object literal
+   */
+  static renderStyleEntries(style: Record<string, string>): string[] {
+    return Object.entries(style).map(([property, value]) => {
+      const key = /^[A-Za-z_$][\w$]*$/.test(property) ? property : `'${property}'`;
+      return `${key}: '${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    });
+  }
+
+  /**
+   * Renders a list of nodes as indented JSX
+   */
+  static renderChildren(
+    children: SVGNode[],
+    indent: string,
+    preserveWhitespace = false,
+    dialect: JSXDialect = 'react'
+  ): string {
+    return children
+      .map(child => this.renderNode(child, indent, preserveWhitespace, dialect))
+      .filter(line => line !== '')
+      .join('\n');
+  }
+
+  /**
+   * Renders a single node as indented JSX
+   */
+  private static renderNode(
+    node: SVGNode,
+    indent: string,
+    preserveWhitespace: boolean,
+    dialect: JSXDialect
+  ): string {
+    if (node.type === 'text') {
+      return this.renderText(node.value, indent, preserveWhitespace || Boolean(node.cdata));
+    }
+
+    if (node.name.includes(':')) {
+      // Editor-specific elements (sodipodi:namedview etc.) are not valid JSX
+      return '';
+    }
+
+    const name = dialect === 'native' ? this.NATIVE_ELEMENTS[node.name] : node.name;
+    if (!name) {
+      return '';
+    }
+
+    const attributes = this.renderAttributes(node.attributes, dialect);
+    const openTag = attributes.length > 0
+      ? `<${name} ${attributes.join(' ')}`
+      : `<${name}`;
+
+    if (node.children.length === 0) {
+      return `${indent}${openTag} />`;
+    }
+
+    const isTextElement = this.TEXT_ELEMENTS.includes(node.name);
+    const textNodes = node.children.filter((child): child is SVGTextNode => child.type === 'text');
+
+    if (textNodes.length === node.children.length) {
+      const text = textNodes.map(child => child.value).join('');
+      const value = isTextElement ? text : text.trim();
+      if (!value) {
+        return `${indent}${openTag} />`;
+      }
+      return `${indent}${openTag}>${this.renderText(value, '', true)}</${name}>`;
+    }
+
+    const children = this.renderChildren(node.children, indent + '  ', isTextElement, dialect);
+    return `${indent}${openTag}>\n${children}\n${indent}</${name}>`;
+  }
+
+  /**
+   * Renders text content, falling back to a string expression for special characters
+   */
+  private static renderText(value: string, indent: string, preserveWhitespace: boolean): string {
+    const text = preserveWhitespace ? value : value.trim();
+    if (!text) {
+      return preserveWhitespace && value ? `${indent}{' '}` : '';
+    }
+    if (/[{}<>&\n]/.test(text) || text !== text.trim()) {
+      return `${indent}{${JSON.stringify(text)}}`;
+    }
+    return `${indent}${text}`;
+  }
+
+  /**
+   * Converts a CSS property name to its React style key
+   */
+  private static toStylePropertyName(property: string): string {
+    if (property.startsWith('--')) {
+      return property;
+    }
+    if (property.startsWith('-ms-')) {
+      return this.camelCase(property.slice(1));
+    }
+    if (property.startsWith('-')) {
+      const name = this.camelCase(property.slice(1));
+      return name.charAt(0).toUpperCase() + name.slice(1);
+    }
+    return this.camelCase(property);
+  }
+
+  private static isEventHandler(name: string): boolean {
+    return /^on/i.test(name);
+  }
+
+  private static camelCase(value: string): string {
+    return value.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+  }
+}
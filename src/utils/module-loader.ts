@@ -0,0 +1,90 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { FileSystemError, ValidationError } from '../types';
+
+/**
+ * Loads user-supplied JavaScript and TypeScript modules such as config and template files
+ */
+export class ModuleLoader {
+  private static readonly loaded = new Map<string, { mtimeMs: number; exported: any }>();
+
+  /**
+   * Loads a module file and returns its default export, reusing it until the file changes
+   */
+  static async load(filePath: string): Promise<any> {
+    const resolved = path.resolve(filePath);
+    let mtimeMs: number;
+    let source: string;
+
+    try {
+      mtimeMs = (await fs.stat(resolved)).mtimeMs;
+      const cached = this.loaded.get(resolved);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.exported;
+      }
+      source = await fs.readFile(resolved, 'utf-8');
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to read module: ${resolved}`,
+        { originalError: error, filePath: resolved }
+      );
+    }
+
+    const exported = this.evaluate(source, resolved);
+    this.loaded.set(resolved, { mtimeMs, exported });
+
+    return exported;
+  }
+
+  /**
+   * Evaluates module source as if located at filePath and returns its default export.
+   * TypeScript sources (.ts) are compiled first.
+   */
+  static evaluate(source: string, filePath: string): any {
+    const code = path.extname(filePath).toLowerCase() === '.ts'
+      ? this.transpileTypeScript(source, filePath)
+      : source;
+    const exported = this.evaluateModule(code, filePath);
+
+    return exported && exported.__esModule && 'default' in exported
+      ? exported.default
+      : exported;
+  }
+
+  /**
+   * Compiles TypeScript source to CommonJS using the typescript peer dependency
+   */
+  private static transpileTypeScript(source: string, filePath: string): string {
+    let ts: typeof import('typescript');
+
+    try {
+      ts = require('typescript');
+    } catch (error) {
+      throw new ValidationError(
+        `Loading ${path.basename(filePath)} requires the "typescript" package to be installed`,
+        { originalError: error, filePath }
+      );
+    }
+
+    return ts.transpileModule(source, {
+      fileName: filePath,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true
+      }
+    }).outputText;
+  }
+
+  /**
+   * Evaluates CommonJS source as a module located at filePath
+   */
+  private static evaluateModule(code: string, filePath: string): any {
+    const Module = require('module');
+    const mod = new Module(filePath, module);
+    mod.filename = filePath;
+    mod.paths = Module._nodeModulePaths(path.dirname(filePath));
+    mod._compile(code, filePath);
+    return mod.exports;
+  }
+}
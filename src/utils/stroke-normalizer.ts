@@ -0,0 +1,148 @@
+import { SVGElementNode } from '../types';
+
+/**
+ * Detects outline icons and moves control of their stroke width to the root <svg>
+ */
+export class StrokeNormalizer {
+  /**
+   * Elements painting a stroke of their own
+   */
+  static readonly SHAPE_ELEMENTS = ['path', 'circle', 'ellipse', 'line', 'polygon', 'polyline', 'rect', 'text'];
+
+  /**
+   * Elements whose content is only rendered by reference, such as clip paths and masks
+   */
+  private static readonly NON_RENDERING_ELEMENTS = ['defs', 'clipPath', 'mask', 'symbol', 'pattern', 'marker'];
+
+  /**
+   * Gets the stroke width of an outline icon, in which most shapes paint a stroke.
+   * The root's `stroke-width` wins, then the width most stroked shapes use, then the SVG default of 1.
+   * Widths are numbers in user units; widths in other units than `px` are ignored.
+   * Returns undefined for filled icons, including those with a few stroked details.
+   */
+  static getStrokeWidth(root: SVGElementNode): number | undefined {
+    const widths = new Map<number, number>();
+    let shapes = 0;
+    let stroked = 0;
+
+    const visit = (node: SVGElementNode, inherited: { stroke: string; width: number | undefined }): void => {
+      if (this.NON_RENDERING_ELEMENTS.includes(node.name)) {
+        return;
+      }
+
+      const state = {
+        stroke: this.getProperty(node, 'stroke') ?? inherited.stroke,
+        width: this.parseWidth(this.getProperty(node, 'stroke-width')) ?? inherited.width
+      };
+
+      if (this.SHAPE_ELEMENTS.includes(node.name)) {
+        shapes++;
+        if (state.stroke !== 'none') {
+          stroked++;
+          if (state.width !== undefined) {
+            widths.set(state.width, (widths.get(state.width) || 0) + 1);
+          }
+        }
+      }
+
+      for (const child of node.children) {
+        if (child.type === 'element') {
+          visit(child, state);
+        }
+      }
+    };
+    visit(root, { stroke: 'none', width: undefined });
+
+    if (stroked === 0 || stroked * 2 <= shapes) {
+      return undefined;
+    }
+
+    const rootWidth = this.parseWidth(this.getProperty(root, 'stroke-width'));
+    if (rootWidth !== undefined) {
+      return rootWidth;
+    }
+
+    let common: number | undefined;
+    for (const [width, count] of widths) {
+      if (common === undefined || count > (widths.get(common) || 0)) {
+        common = width;
+      }
+    }
+
+    return common ?? 1;
+  }
+
+  /**
+   * Removes `stroke-width` attributes and inline style declarations equal to the icon's stroke
+   * width, so the width set on the root <svg> applies to every shape drawn at it.
+   * Shapes with a deliberately different width keep it.
+   */
+  static inheritStrokeWidth(root: SVGElementNode, strokeWidth: number): void {
+    const visit = (node: SVGElementNode): void => {
+      if (this.parseWidth(node.attributes['stroke-width']) === strokeWidth) {
+        delete node.attributes['stroke-width'];
+      }
+
+      const style = node.attributes['style'];
+      if (style !== undefined) {
+        const declarations = style.split(';').filter(declaration => {
+          const [name, value] = declaration.split(':');
+          return name?.trim().toLowerCase() !== 'stroke-width' || this.parseWidth(value) !== strokeWidth;
+        });
+        const remaining = declarations.filter(declaration => declaration.trim()).join(';');
+
+        if (!remaining) {
+          delete node.attributes['style'];
+        } else if (declarations.length !== style.split(';').length) {
+          node.attributes['style'] = remaining;
+        }
+      }
+
+      for (const child of node.children) {
+        if (child.type === 'element') {
+          visit(child);
+        }
+      }
+    };
+    visit(root);
+  }
+
+  /**
+   * Keeps strokes from scaling with the rendered size. vector-effect is not inherited,
+   * so every shape gets its own.
+   */
+  static applyNonScalingStroke(root: SVGElementNode): void {
+    const visit = (node: SVGElementNode): void => {
+      if (this.SHAPE_ELEMENTS.includes(node.name)) {
+        node.attributes['vector-effect'] = 'non-scaling-stroke';
+      }
+      for (const child of node.children) {
+        if (child.type === 'element') {
+          visit(child);
+        }
+      }
+    };
+    visit(root);
+  }
+
+  /**
+   * Parses a stroke width given as a number or in pixels
+   */
+  private static parseWidth(value: string | undefined): number | undefined {
+    const match = value === undefined ? null : /^\s*(\+?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(?:px)?\s*$/i.exec(value);
+    return match ? Number(match[1]) : undefined;
+  }
+
+  /**
+   * Reads a presentation property from an attribute or the inline style
+   */
+  private static getProperty(node: SVGElementNode, property: string): string | undefined {
+    const declaration = (node.attributes['style'] || '')
+      .split(';')
+      .map(entry => entry.split(':'))
+      .find(([name]) => name?.trim().toLowerCase() === property);
+    const value = declaration?.[1]?.trim() ?? node.attributes[property]?.trim();
+
+    return value || undefined;
+  }
+}
@@ -0,0 +1,604 @@
+import {
+  SVGElementNode,
+  GlyphPoint,
+  GlyphContour,
+  TransformMatrix
+} from '../types';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Converts SVG shapes into filled quadratic outlines, as used by TrueType glyphs
+ */
+export class SVGOutline {
+  static readonly IDENTITY: TransformMatrix = [1, 0, 0, 1, 0, 0];
+
+  private static readonly SHAPE_ELEMENTS = ['path', 'rect', 'circle', 'ellipse', 'polygon', 'polyline', 'line'];
+  private static readonly CONTAINER_ELEMENTS = ['svg', 'g', 'a', 'switch'];
+  private static readonly UNSUPPORTED_ELEMENTS = ['text', 'image', 'use', 'foreignObject'];
+
+  /**
+   * Collects the filled outlines of an SVG document, mapped through the given matrix.
+   * Curves are approximated within `tolerance` output units. Content that cannot be
+   * represented as a filled outline (strokes, text, images, ...) is reported in `warnings`.
+   */
+  static fromSVG(
+    root: SVGElementNode,
+    matrix: TransformMatrix = this.IDENTITY,
+    tolerance: number = 1
+  ): { contours: GlyphContour[]; warnings: string[] } {
+    const contours: GlyphContour[] = [];
+    const warnings = new Set<string>();
+
+    this.walk(root, matrix, { fill: 'black', fillRule: 'nonzero', stroke: 'none' }, tolerance, contours, warnings);
+
+    return { contours, warnings: [...warnings] };
+  }
+
+  /**
+   * Parses an SVG transform attribute into a matrix
+   */
+  static parseTransform(value: string): TransformMatrix {
+    let matrix = this.IDENTITY;
+    const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(value)) !== null) {
+      const args = (match[2] as string).trim().split(/[\s,]+/).filter(Boolean).map(Number);
+      const [a = 0, b = 0, c = 0, d = 0, e = 0, f = 0] = args;
+      let next: TransformMatrix;
+
+      switch (match[1]) {
+        case 'matrix':
+          next = [a, b, c, d, e, f];
+          break;
+        case 'translate':
+          next = [1, 0, 0, 1, a, args.length > 1 ? b : 0];
+          break;
+        case 'scale':
+          next = [a, 0, 0, args.length > 1 ? b : a, 0, 0];
+          break;
+        case 'rotate': {
+          const angle = (a * Math.PI) / 180;
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          next = [cos, sin, -sin, cos, 0, 0];
+          if (args.length > 2) {
+            next = this.multiply(this.multiply([1, 0, 0, 1, b, c], next), [1, 0, 0, 1, -b, -c]);
+          }
+          break;
+        }
+        case 'skewX':
+          next = [1, 0, Math.tan((a * Math.PI) / 180), 1, 0, 0];
+          break;
+        default:
+          next = [1, Math.tan((a * Math.PI) / 180), 0, 1, 0, 0];
+      }
+
+      matrix = this.multiply(matrix, next);
+    }
+
+    return matrix;
+  }
+
+  /**
+   * Multiplies two matrices; the result applies `right` first, then `left`
+   */
+  static multiply(left: TransformMatrix, right: TransformMatrix): TransformMatrix {
+    const [a1, b1, c1, d1, e1, f1] = left;
+    const [a2, b2, c2, d2, e2, f2] = right;
+
+    return [
+      a1 * a2 + c1 * b2,
+      b1 * a2 + d1 * b2,
+      a1 * c2 + c1 * d2,
+      b1 * c2 + d1 * d2,
+      a1 * e2 + c1 * f2 + e1,
+      b1 * e2 + d1 * f2 + f1
+    ];
+  }
+
+  /**
+   * Walks the element tree, inheriting fill state and transforms
+   */
+  private static walk(
+    node: SVGElementNode,
+    parentMatrix: TransformMatrix,
+    inherited: { fill: string; fillRule: string; stroke: string },
+    tolerance: number,
+    contours: GlyphContour[],
+    warnings: Set<string>
+  ): void {
+    if (this.getProperty(node, 'display') === 'none') {
+      return;
+    }
+
+    const state = {
+      fill: this.getProperty(node, 'fill') ?? inherited.fill,
+      fillRule: this.getProperty(node, 'fill-rule') ?? inherited.fillRule,
+      stroke: this.getProperty(node, 'stroke') ?? inherited.stroke
+    };
+    const transform = node.name === 'svg' ? undefined : node.attributes['transform'];
+    const matrix = transform ? this.multiply(parentMatrix, this.parseTransform(transform)) : parentMatrix;
+
+    if (this.CONTAINER_ELEMENTS.includes(node.name)) {
+      for (const child of node.children) {
+        if (child.type === 'element') {
+          this.walk(child, matrix, state, tolerance, contours, warnings);
+        }
+      }
+      return;
+    }
+
+    if (this.UNSUPPORTED_ELEMENTS.includes(node.name)) {
+      warnings.add(`<${node.name}> elements cannot be converted to glyph outlines and were skipped`);
+      return;
+    }
+
+    if (!this.SHAPE_ELEMENTS.includes(node.name)) {
+      // Non-rendering content such as <defs>, <title> or gradients
+      return;
+    }
+
+    if (state.fill === 'none') {
+      if (state.stroke !== 'none') {
+        warnings.add('Stroked shapes cannot be represented in a font and were skipped; convert strokes to fills first');
+      }
+      return;
+    }
+
+    const pathData = this.toPathData(node);
+    if (!pathData) {
+      return;
+    }
+
+    const shape = this.parsePath(pathData, matrix, tolerance);
+    this.orientContours(shape, state.fillRule === 'evenodd');
+    contours.push(...shape);
+  }
+
+  /**
+   * Reads a presentation property from the style attribute or the attribute itself
+   */
+  private static getProperty(node: SVGElementNode, name: string): string | undefined {
+    const style = node.attributes['style'];
+    if (style) {
+      const match = new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`).exec(style);
+      if (match) {
+        return (match[1] as string).trim();
+      }
+    }
+
+    const value = node.attributes[name];
+    return value === undefined || value === 'inherit' ? undefined : value.trim();
+  }
+
+  /**
+   * Converts a basic shape into equivalent path data
+   */
+  private static toPathData(node: SVGElementNode): string | null {
+    const attr = (name: string): number => parseFloat(node.attributes[name] || '0') || 0;
+
+    switch (node.name) {
+      case 'path':
+        return node.attributes['d'] || null;
+
+      case 'rect': {
+        const x = attr('x');
+        const y = attr('y');
+        const width = attr('width');
+        const height = attr('height');
+        if (width <= 0 || height <= 0) return null;
+
+        let rx = node.attributes['rx'] !== undefined ? attr('rx') : attr('ry');
+        let ry = node.attributes['ry'] !== undefined ? attr('ry') : rx;
+        rx = Math.min(Math.max(rx, 0), width / 2);
+        ry = Math.min(Math.max(ry, 0), height / 2);
+
+        if (rx === 0 || ry === 0) {
+          return `M${x} ${y}H${x + width}V${y + height}H${x}Z`;
+        }
+        return `M${x + rx} ${y}H${x + width - rx}A${rx} ${ry} 0 0 1 ${x + width} ${y + ry}` +
+          `V${y + height - ry}A${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height}` +
+          `H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + height - ry}` +
+          `V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`;
+      }
+
+      case 'circle':
+      case 'ellipse': {
+        const cx = attr('cx');
+        const cy = attr('cy');
+        const rx = node.name === 'circle' ? attr('r') : attr('rx');
+        const ry = node.name === 'circle' ? attr('r') : attr('ry');
+        if (rx <= 0 || ry <= 0) return null;
+
+        return `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`;
+      }
+
+      case 'polygon':
+      case 'polyline': {
+        const points = (node.attributes['points'] || '').trim();
+        return points ? `M${points}${node.name === 'polygon' ? 'Z' : ''}` : null;
+      }
+
+      default:
+        // <line> has no area to fill
+        return null;
+    }
+  }
+
+  /**
+   * Parses path data into closed quadratic contours in output coordinates
+   */
+  private static parsePath(d: string, matrix: TransformMatrix, tolerance: number): GlyphContour[] {
+    const contours: GlyphContour[] = [];
+    const numberPattern = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+    let index = 0;
+    let command = '';
+    let current: Point = { x: 0, y: 0 };
+    let start: Point = { x: 0, y: 0 };
+    let lastControl: Point | null = null;
+    let lastFamily = '';
+    let contour: GlyphContour = [];
+
+    const skipSeparators = (): void => {
+      while (index < d.length && /[\s,]/.test(d.charAt(index))) index++;
+    };
+    const readNumber = (): number => {
+      skipSeparators();
+      numberPattern.lastIndex = index;
+      const match = numberPattern.exec(d);
+      if (!match) {
+        throw new Error(`Invalid path data at offset ${index}`);
+      }
+      index += match[0].length;
+      return parseFloat(match[0]);
+    };
+    const readFlag = (): boolean => {
+      skipSeparators();
+      const flag = d.charAt(index++);
+      if (flag !== '0' && flag !== '1') {
+        throw new Error(`Invalid arc flag at offset ${index - 1}`);
+      }
+      return flag === '1';
+    };
+    const reflect = (families: string[]): Point => lastControl && families.includes(lastFamily)
+      ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+      : { ...current };
+
+    const transform = (point: Point): Point => ({
+      x: matrix[0] * point.x + matrix[2] * point.y + matrix[4],
+      y: matrix[1] * point.x + matrix[3] * point.y + matrix[5]
+    });
+    const closeContour = (): void => {
+      this.finishContour(contour, contours);
+      contour = [];
+    };
+    const moveTo = (point: Point): void => {
+      closeContour();
+      contour.push({ ...transform(point), onCurve: true });
+      current = start = point;
+    };
+    const lineTo = (point: Point): void => {
+      contour.push({ ...transform(point), onCurve: true });
+      current = point;
+    };
+    const quadTo = (control: Point, point: Point): void => {
+      contour.push({ ...transform(control), onCurve: false }, { ...transform(point), onCurve: true });
+      current = point;
+    };
+    const cubicTo = (c1: Point, c2: Point, point: Point): void => {
+      this.cubicToQuadratics(transform(current), transform(c1), transform(c2), transform(point), tolerance, contour);
+      current = point;
+    };
+
+    while (index < d.length) {
+      skipSeparators();
+      if (index >= d.length) break;
+
+      const char = d.charAt(index);
+      if (/[a-zA-Z]/.test(char)) {
+        command = char;
+        index++;
+      } else if (!command) {
+        throw new Error(`Path data must start with a command at offset ${index}`);
+      } else if (command === 'M') {
+        command = 'L';
+      } else if (command === 'm') {
+        command = 'l';
+      }
+
+      const relative = command === command.toLowerCase();
+      const base = relative ? current : { x: 0, y: 0 };
+      const point = (x: number, y: number): Point => ({ x: base.x + x, y: base.y + y });
+      let control: Point | null = null;
+
+      switch (command.toUpperCase()) {
+        case 'M':
+          moveTo(point(readNumber(), readNumber()));
+          break;
+        case 'L':
+          lineTo(point(readNumber(), readNumber()));
+          break;
+        case 'H':
+          lineTo({ x: (relative ? current.x : 0) + readNumber(), y: current.y });
+          break;
+        case 'V':
+          lineTo({ x: current.x, y: (relative ? current.y : 0) + readNumber() });
+          break;
+        case 'C': {
+          const c1 = point(readNumber(), readNumber());
+          const c2 = point(readNumber(), readNumber());
+          cubicTo(c1, c2, point(readNumber(), readNumber()));
+          control = c2;
+          break;
+        }
+        case 'S': {
+          const c1 = reflect(['C', 'S']);
+          const c2 = point(readNumber(), readNumber());
+          cubicTo(c1, c2, point(readNumber(), readNumber()));
+          control = c2;
+          break;
+        }
+        case 'Q': {
+          const c = point(readNumber(), readNumber());
+          quadTo(c, point(readNumber(), readNumber()));
+          control = c;
+          break;
+        }
+        case 'T': {
+          const c = reflect(['Q', 'T']);
+          quadTo(c, point(readNumber(), readNumber()));
+          control = c;
+          break;
+        }
+        case 'A': {
+          const rx = Math.abs(readNumber());
+          const ry = Math.abs(readNumber());
+          const rotation = readNumber();
+          const largeArc = readFlag();
+          const sweep = readFlag();
+          const end = point(readNumber(), readNumber());
+
+          for (const [c1, c2, target] of this.arcToCubics(current, rx, ry, rotation, largeArc, sweep, end)) {
+            cubicTo(c1, c2, target);
+          }
+          current = end;
+          break;
+        }
+        case 'Z':
+          // Drawing may continue from the start point without a new moveto
+          closeContour();
+          current = start;
+          contour.push({ ...transform(start), onCurve: true });
+          break;
+        default:
+          throw new Error(`Unknown path command "${command}"`);
+      }
+
+      // S/T reflect the previous control point only when it came from the same curve family
+      lastControl = control;
+      lastFamily = command.toUpperCase();
+    }
+
+    this.finishContour(contour, contours);
+    return contours;
+  }
+
+  /**
+   * Adds a finished contour when it encloses an area, dropping a duplicated closing point
+   */
+  private static finishContour(contour: GlyphContour, contours: GlyphContour[]): void {
+    const first = contour[0];
+    const last = contour[contour.length - 1];
+
+    if (first && last && contour.length > 1 && first.x === last.x && first.y === last.y) {
+      contour.pop();
+    }
+    if (contour.length >= 3) {
+      contours.push(contour);
+    }
+  }
+
+  /**
+   * Approximates a cubic Bézier with quadratic segments, splitting until within tolerance
+   */
+  private static cubicToQuadratics(
+    p0: Point,
+    p1: Point,
+    p2: Point,
+    p3: Point,
+    tolerance: number,
+    contour: GlyphPoint[],
+    depth: number = 0
+  ): void {
+    // Distance between the cubic and its best single quadratic approximation
+    const dx = p3.x - 3 * p2.x + 3 * p1.x - p0.x;
+    const dy = p3.y - 3 * p2.y + 3 * p1.y - p0.y;
+    const error = (Math.sqrt(3) / 36) * Math.hypot(dx, dy);
+
+    if (error <= tolerance || depth >= 8) {
+      contour.push(
+        {
+          x: (3 * (p1.x + p2.x) - p0.x - p3.x) / 4,
+          y: (3 * (p1.y + p2.y) - p0.y - p3.y) / 4,
+          onCurve: false
+        },
+        { x: p3.x, y: p3.y, onCurve: true }
+      );
+      return;
+    }
+
+    // Split at t = 0.5 (de Casteljau)
+    const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+    const p01 = mid(p0, p1);
+    const p12 = mid(p1, p2);
+    const p23 = mid(p2, p3);
+    const p012 = mid(p01, p12);
+    const p123 = mid(p12, p23);
+    const center = mid(p012, p123);
+
+    this.cubicToQuadratics(p0, p01, p012, center, tolerance, contour, depth + 1);
+    this.cubicToQuadratics(center, p123, p23, p3, tolerance, contour, depth + 1);
+  }
+
+  /**
+   * Converts an elliptical arc into cubic Bézier segments of at most 90 degrees
+   * (endpoint to center parameterization from the SVG implementation notes)
+   */
+  private static arcToCubics(
+    from: Point,
+    rx: number,
+    ry: number,
+    rotation: number,
+    largeArc: boolean,
+    sweep: boolean,
+    to: Point
+  ): Array<[Point, Point, Point]> {
+    if (from.x === to.x && from.y === to.y) {
+      return [];
+    }
+    if (rx === 0 || ry === 0) {
+      return [[from, to, to]];
+    }
+
+    const phi = (rotation * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+
+    const dx = (from.x - to.x) / 2;
+    const dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+
+    // Scale radii up when they are too small to span the endpoints
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+    }
+
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+    const cx1 = (factor * rx * y1) / ry;
+    const cy1 = (-factor * ry * x1) / rx;
+
+    const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number): number =>
+      Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const startAngle = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+
+    const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+    const step = delta / segments;
+    const kappa = (4 / 3) * Math.tan(step / 4);
+    const curves: Array<[Point, Point, Point]> = [];
+
+    const pointAt = (theta: number, dxSign: number = 0): Point => {
+      // Point on the ellipse, or its tangent scaled by kappa when dxSign is non-zero
+      const ex = dxSign === 0 ? Math.cos(theta) : -Math.sin(theta) * kappa * dxSign;
+      const ey = dxSign === 0 ? Math.sin(theta) : Math.cos(theta) * kappa * dxSign;
+      return {
+        x: cos * rx * ex - sin * ry * ey + (dxSign === 0 ? cx : 0),
+        y: sin * rx * ex + cos * ry * ey + (dxSign === 0 ? cy : 0)
+      };
+    };
+
+    let theta = startAngle;
+    for (let i = 0; i < segments; i++) {
+      const next = theta + step;
+      const start = i === 0 ? from : pointAt(theta);
+      const end = i === segments - 1 ? to : pointAt(next);
+      const startTangent = pointAt(theta, 1);
+      const endTangent = pointAt(next, 1);
+
+      curves.push([
+        { x: start.x + startTangent.x, y: start.y + startTangent.y },
+        { x: end.x - endTangent.x, y: end.y - endTangent.y },
+        end
+      ]);
+      theta = next;
+    }
+
+    return curves;
+  }
+
+  /**
+   * Orients a shape's contours so separate shapes combine as a union under the
+   * non-zero rule: the outermost contour runs clockwise. For even-odd shapes,
+   * each contour alternates direction with its nesting depth.
+   */
+  private static orientContours(contours: GlyphContour[], evenOdd: boolean): void {
+    if (contours.length === 0) {
+      return;
+    }
+
+    if (evenOdd) {
+      contours.forEach((contour, index) => {
+        const probe = contour[0] as GlyphPoint;
+        const depth = contours.filter((other, otherIndex) =>
+          otherIndex !== index && this.containsPoint(other, probe)
+        ).length;
+        const clockwise = this.signedArea(contour) < 0;
+        if (clockwise !== (depth % 2 === 0)) {
+          this.reverseContour(contour);
+        }
+      });
+      return;
+    }
+
+    const largest = contours.reduce((a, b) =>
+      Math.abs(this.signedArea(b)) > Math.abs(this.signedArea(a)) ? b : a
+    );
+    if (this.signedArea(largest) > 0) {
+      contours.forEach(contour => this.reverseContour(contour));
+    }
+  }
+
+  /**
+   * Shoelace area; negative for clockwise contours in y-up coordinates
+   */
+  private static signedArea(contour: GlyphContour): number {
+    let area = 0;
+    for (let i = 0; i < contour.length; i++) {
+      const a = contour[i] as GlyphPoint;
+      const b = contour[(i + 1) % contour.length] as GlyphPoint;
+      area += a.x * b.y - b.x * a.y;
+    }
+    return area / 2;
+  }
+
+  /**
+   * Ray-casting point-in-polygon test using the contour's points as a polygon
+   */
+  private static containsPoint(contour: GlyphContour, point: Point): boolean {
+    let inside = false;
+    for (let i = 0, j = contour.length - 1; i < contour.length; j = i++) {
+      const a = contour[i] as GlyphPoint;
+      const b = contour[j] as GlyphPoint;
+      if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  /**
+   * Reverses a contour in place, keeping an on-curve start point
+   */
+  private static reverseContour(contour: GlyphContour): void {
+    const first = contour.shift() as GlyphPoint;
+    contour.reverse();
+    contour.unshift(first);
+  }
+}
@@ -0,0 +1,269 @@
+import {
+  SVGElementNode,
+  SVGNode,
+  SVGProcessingError
+} from '../types';
+
+/**
+ * Minimal XML parser producing an element tree for SVG documents
+ */
+export class SVGParser {
+  /**
+   * The entities predefined by XML; others must be declared in the DOCTYPE's internal subset
+   */
+  private static readonly PREDEFINED_ENTITIES: Array<[string, string]> = [
+    ['amp', '&'],
+    ['lt', '<'],
+    ['gt', '>'],
+    ['quot', '"'],
+    ['apos', "'"]
+  ];
+
+  /**
+   * Parses SVG content and returns the root <svg> element
+   */
+  static parse(content: string, fileName?: string): SVGElementNode {
+    const root: SVGElementNode = { type: 'element', name: '#document', attributes: {}, children: [] };
+    const stack: SVGElementNode[] = [root];
+    const entities = new Map(this.PREDEFINED_ENTITIES);
+    let index = 0;
+
+    const fail = (message: string, position: number): never => {
+      const { line, column } = this.getPosition(content, position);
+      throw new SVGProcessingError(
+        `${fileName || '<input>'}:${line}:${column}: ${message}`,
+        { fileName, line, column }
+      );
+    };
+
+    while (index < content.length) {
+      const current = stack[stack.length - 1] as SVGElementNode;
+
+      if (content.startsWith('<!--', index)) {
+        const end = content.indexOf('-->', index + 4);
+        if (end === -1) fail('Unterminated comment', index);
+        index = end + 3;
+      } else if (content.startsWith('<![CDATA[', index)) {
+        const end = content.indexOf(']]>', index + 9);
+        if (end === -1) fail('Unterminated CDATA section', index);
+        current.children.push({ type: 'text', value: content.slice(index + 9, end), cdata: true });
+        index = end + 3;
+      } else if (content.startsWith('<?', index)) {
+        const end = content.indexOf('?>', index + 2);
+        if (end === -1) fail('Unterminated processing instruction', index);
+        index = end + 2;
+      } else if (content.startsWith('<!', index)) {
+        const end = this.skipDeclaration(content, index, fail);
+        this.readEntityDeclarations(content.slice(index, end), entities);
+        index = end;
+      } else if (content.startsWith('</', index)) {
+        const match = /^<\/([^\s>]+)\s*>/.exec(content.slice(index));
+        if (!match) fail('Malformed closing tag', index);
+        const name = (match as RegExpExecArray)[1] as string;
+        if (stack.length === 1 || current.name !== name) {
+          fail(`Unexpected closing tag </${name}>`, index);
+        }
+        stack.pop();
+        index += (match as RegExpExecArray)[0].length;
+      } else if (content[index] === '<') {
+        const { element, selfClosing, end } = this.parseStartTag(content, index, entities, fail);
+        current.children.push(element);
+        if (!selfClosing) {
+          stack.push(element);
+        }
+        index = end;
+      } else {
+        const end = content.indexOf('<', index);
+        const textEnd = end === -1 ? content.length : end;
+        const value = content.slice(index, textEnd);
+        if (stack.length === 1) {
+          if (value.trim()) fail('Text outside of root element', index);
+        } else {
+          current.children.push({ type: 'text', value: this.decodeEntities(value, index, entities, fail) });
+        }
+        index = textEnd;
+      }
+    }
+
+    if (stack.length > 1) {
+      const unclosed = stack[stack.length - 1] as SVGElementNode;
+      fail(`Unclosed tag <${unclosed.name}>`, content.length);
+    }
+
+    const elements = root.children.filter((node): node is SVGElementNode => node.type === 'element');
+    const svg = elements[0];
+
+    if (elements.length !== 1 || !svg || svg.name !== 'svg') {
+      throw new SVGProcessingError(
+        `${fileName || '<input>'}: document must contain a single <svg> root element`,
+        { fileName }
+      );
+    }
+
+    return svg;
+  }
+
+  /**
+   * Serializes an element tree back to markup
+   */
+  static stringify(node: SVGNode): string {
+    if (node.type === 'text') {
+      return node.cdata ? `<![CDATA[${node.value}]]>` : this.encodeText(node.value);
+    }
+
+    const attributes = Object.entries(node.attributes)
+      .map(([name, value]) => ` ${name}="${this.encodeAttribute(value)}"`)
+      .join('');
+
+    if (node.children.length === 0) {
+      return `<${node.name}${attributes}/>`;
+    }
+
+    const children = node.children.map(child => this.stringify(child)).join('');
+    return `<${node.name}${attributes}>${children}</${node.name}>`;
+  }
+
+  /**
+   * Serializes only the children of an element
+   */
+  static stringifyChildren(node: SVGElementNode): string {
+    return node.children.map(child => this.stringify(child)).join('');
+  }
+
+  /**
+   * Parses a start tag beginning at the given index
+   */
+  private static parseStartTag(
+    content: string,
+    start: number,
+    entities: Map<string, string>,
+    fail: (message: string, position: number) => never
+  ): { element: SVGElementNode; selfClosing: boolean; end: number } {
+    const nameMatch = /^<([A-Za-z_][\w:.-]*)/.exec(content.slice(start));
+    if (!nameMatch) fail('Malformed start tag', start);
+
+    const element: SVGElementNode = {
+      type: 'element',
+      name: (nameMatch as RegExpExecArray)[1] as string,
+      attributes: {},
+      children: []
+    };
+    let index = start + (nameMatch as RegExpExecArray)[0].length;
+
+    while (index < content.length) {
+      while (/\s/.test(content.charAt(index))) index++;
+
+      if (content.startsWith('/>', index)) {
+        return { element, selfClosing: true, end: index + 2 };
+      }
+      if (content[index] === '>') {
+        return { element, selfClosing: false, end: index + 1 };
+      }
+
+      const attrMatch = /^([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/.exec(content.slice(index));
+      if (!attrMatch) fail(`Malformed attribute in <${element.name}>`, index);
+
+      const [raw, name, doubleQuoted, singleQuoted] = attrMatch as RegExpExecArray;
+      if (Object.prototype.hasOwnProperty.call(element.attributes, name as string)) {
+        fail(`Duplicate attribute "${name}" in <${element.name}>`, index);
+      }
+      const value = doubleQuoted ?? singleQuoted ?? '';
+      // The value ends just before the closing quote
+      element.attributes[name as string] = this.decodeEntities(value, index + raw.length - 1 - value.length, entities, fail);
+      index += raw.length;
+    }
+
+    return fail(`Unterminated start tag <${element.name}>`, start);
+  }
+
+  /**
+   * Skips a <!DOCTYPE> or other declaration, including an internal subset
+   */
+  private static skipDeclaration(
+    content: string,
+    start: number,
+    fail: (message: string, position: number) => never
+  ): number {
+    let depth = 0;
+    for (let index = start + 2; index < content.length; index++) {
+      const char = content[index];
+      if (char === '[') depth++;
+      else if (char === ']') depth--;
+      else if (char === '>' && depth <= 0) return index + 1;
+    }
+    return fail('Unterminated declaration', start);
+  }
+
+  /**
+   * Reads the general entities declared in a DOCTYPE's internal subset, such as
+   * the namespace entities Illustrator exports. Parameter entities are ignored.
+   */
+  private static readEntityDeclarations(declaration: string, entities: Map<string, string>): void {
+    const pattern = /<!ENTITY\s+([A-Za-z_:][\w.:-]*)\s+(?:"([^"]*)"|'([^']*)')\s*>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(declaration)) !== null) {
+      const name = match[1] as string;
+      // The first declaration of an entity is binding
+      if (!entities.has(name)) {
+        entities.set(name, match[2] ?? match[3] ?? '');
+      }
+    }
+  }
+
+  /**
+   * Decodes XML character and entity references, failing on references to characters
+   * XML does not allow and on undeclared entities
+   */
+  private static decodeEntities(
+    value: string,
+    start: number,
+    entities: Map<string, string>,
+    fail: (message: string, position: number) => never
+  ): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z_:][\w.:-]*);/g, (match, entity: string, offset: number) => {
+      if (entity.startsWith('#')) {
+        const codePoint = entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        if (!this.isXMLChar(codePoint)) {
+          fail(`Invalid character reference ${match}`, start + offset);
+        }
+        return String.fromCodePoint(codePoint);
+      }
+
+      return entities.get(entity) ?? fail(`Undefined entity ${match}`, start + offset);
+    });
+  }
+
+  /**
+   * Checks that a code point is a character XML documents may contain
+   */
+  private static isXMLChar(codePoint: number): boolean {
+    return codePoint === 0x9 || codePoint === 0xa || codePoint === 0xd ||
+      (codePoint >= 0x20 && codePoint <= 0xd7ff) ||
+      (codePoint >= 0xe000 && codePoint <= 0xfffd) ||
+      (codePoint >= 0x10000 && codePoint <= 0x10ffff);
+  }
+
+  private static encodeText(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private static encodeAttribute(value: string): string {
+    return this.encodeText(value).replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Converts a character offset into a 1-based line and column
+   */
+  private static getPosition(content: string, offset: number): { line: number; column: number } {
+    const before = content.slice(0, offset);
+    const lines = before.split('\n');
+    return {
+      line: lines.length,
+      column: (lines[lines.length - 1] as string).length + 1
+    };
+  }
+}
@@ -0,0 +1,173 @@
+import { SVGElementNode, SanitizeOptions } from '../types';
+import { SVGParser } from './svg-parser';
+
+/**
+ * Removes active and externally loaded content from untrusted SVG documents
+ */
+export class SVGSanitizer {
+  private static readonly defaultOptions: Required<SanitizeOptions> = {
+    scripts: true,
+    eventHandlers: true,
+    javascriptUrls: true,
+    externalReferences: true,
+    foreignObjects: true,
+    remoteImports: true
+  };
+
+  /**
+   * Sanitizes SVG content, returning the cleaned content and a description of each removal.
+   * Content without anything to remove is returned unchanged.
+   */
+  static sanitize(
+    content: string,
+    options: SanitizeOptions = {},
+    fileName?: string
+  ): { content: string; removals: string[] } {
+    const root = SVGParser.parse(content, fileName);
+    const removals: string[] = [];
+
+    this.sanitizeElement(root, { ...this.defaultOptions, ...options }, removals);
+
+    return {
+      content: removals.length > 0 ? SVGParser.stringify(root) : content,
+      removals
+    };
+  }
+
+  /**
+   * Sanitizes an element's attributes and children in place
+   */
+  private static sanitizeElement(
+    element: SVGElementNode,
+    options: Required<SanitizeOptions>,
+    removals: string[]
+  ): void {
+    for (const [name, value] of Object.entries(element.attributes)) {
+      const removal = this.checkAttribute(element.name, name, value, options);
+
+      if (removal) {
+        delete element.attributes[name];
+        removals.push(removal);
+      } else if (name === 'style' && options.remoteImports) {
+        element.attributes[name] = this.removeImports(value, element.name, removals);
+      }
+    }
+
+    element.children = element.children.filter(child => {
+      if (child.type === 'text') {
+        if (element.name === 'style' && options.remoteImports) {
+          child.value = this.removeImports(child.value, element.name, removals);
+        }
+        return true;
+      }
+
+      const localName = this.getLocalName(child.name);
+
+      if (localName === 'script' && options.scripts) {
+        removals.push('Removed <script> element');
+        return false;
+      }
+      if (localName === 'foreignobject' && options.foreignObjects) {
+        removals.push('Removed <foreignObject> element');
+        return false;
+      }
+
+      const animated = this.getAnimatedAttribute(child, options);
+      if (animated) {
+        removals.push(`Removed <${child.name}> animating ${animated}`);
+        return false;
+      }
+
+      this.sanitizeElement(child, options, removals);
+      return true;
+    });
+  }
+
+  /**
+   * Describes why an attribute must be removed, or returns undefined to keep it
+   */
+  private static checkAttribute(
+    elementName: string,
+    name: string,
+    value: string,
+    options: Required<SanitizeOptions>
+  ): string | undefined {
+    const localName = this.getLocalName(name);
+
+    if (options.eventHandlers && localName.startsWith('on')) {
+      return `Removed ${name} event handler from <${elementName}>`;
+    }
+
+    // Browsers ignore whitespace and control characters inside the URL scheme
+    const url = value.replace(/[\s\p{Cc}]/gu, '').toLowerCase();
+
+    // Animation values are a semicolon-separated list, any entry of which can be a URL
+    const urls = localName === 'values' ? url.split(';') : [url];
+
+    if (options.javascriptUrls && urls.some(entry => entry.startsWith('javascript:'))) {
+      return `Removed javascript: URL from ${name} of <${elementName}>`;
+    }
+
+    if (options.externalReferences && localName === 'href' && this.isExternal(url)) {
+      return `Removed external ${name} "${value.trim()}" from <${elementName}>`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Gets the attribute an <animate> or <set> element changes when it must be removed:
+   * animating a link target can set it to any URL, and animating an event handler can add one
+   */
+  private static getAnimatedAttribute(
+    element: SVGElementNode,
+    options: Required<SanitizeOptions>
+  ): string | undefined {
+    const localName = this.getLocalName(element.name);
+    const attributeName = element.attributes['attributeName']?.trim();
+
+    if ((localName !== 'animate' && localName !== 'set') || !attributeName) {
+      return undefined;
+    }
+
+    const target = this.getLocalName(attributeName);
+
+    if (target === 'href' && (options.javascriptUrls || options.externalReferences)) {
+      return attributeName;
+    }
+    if (target.startsWith('on') && options.eventHandlers) {
+      return attributeName;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Removes @import rules loading remote stylesheets
+   */
+  private static removeImports(css: string, elementName: string, removals: string[]): string {
+    return css.replace(/@import\s+(?:url\(\s*)?(["']?)([^"')\s;]*)\1\s*\)?[^;]*;?/gi, (rule, _quote, target: string) => {
+      if (!this.isExternal(target.toLowerCase())) {
+        return rule;
+      }
+
+      removals.push(`Removed @import of "${target}" from <${elementName}>`);
+      return '';
+    });
+  }
+
+  /**
+   * Checks whether a URL loads a resource from outside the document.
+   * Fragment references and inline data URLs are kept.
+   */
+  private static isExternal(url: string): boolean {
+    return url !== '' && !url.startsWith('#') && !url.startsWith('data:');
+  }
+
+  /**
+   * Gets a lowercase element or attribute name without its namespace prefix
+   */
+  private static getLocalName(name: string): string {
+    return name.slice(name.indexOf(':') + 1).toLowerCase();
+  }
+}
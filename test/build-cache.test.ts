@@ -0,0 +1,144 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { Diagnostic, IconifyLoaderOptions, OutputFormat } from '../src/types';
+import { BuildCache } from '../src/utils/build-cache';
+import { SVGOptimizer } from '../src/utils/svg-optimizer';
+import { IconifyLoader } from '../src/core/iconify-loader';
+import { withOutputDir } from './helpers';
+
+const home = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M3 9l9-7 9 7v11H3z"/></svg>';
+
+describe('BuildCache', () => {
+  const options = (dir: string, overrides: Partial<IconifyLoaderOptions> = {}): IconifyLoaderOptions => ({
+    inputDir: dir,
+    outputDir: path.join(dir, 'out'),
+    format: 'svg',
+    cacheDir: path.join(dir, 'cache'),
+    ...overrides
+  });
+
+  it('keys entries by content and the options affecting output', () =>
+    withOutputDir(async dir => {
+      const cache = await BuildCache.load(options(dir));
+      const withProps = await BuildCache.load(options(dir, { svgProps: { class: 'icon' } }));
+      const verbose = await BuildCache.load(options(dir, { verbose: true }));
+
+      expect(cache.getKey(home)).toBe(cache.getKey(home));
+      expect(cache.getKey(home)).not.toBe(cache.getKey(home.replace('v11', 'v12')));
+      expect(withProps.getKey(home)).not.toBe(cache.getKey(home));
+      // Verbose only changes JSON output
+      expect(verbose.getKey(home)).toBe(cache.getKey(home));
+    }));
+
+  it('invalidates entries when a template file changes', () =>
+    withOutputDir(async dir => {
+      const template = path.join(dir, 'template.js');
+      const templateOptions = options(dir, { format: 'react', reactOptions: { template } });
+
+      await fs.writeFile(template, 'module.exports = () => "a";');
+      const before = (await BuildCache.load(templateOptions)).getKey(home);
+      await fs.writeFile(template, 'module.exports = () => "b";');
+      const after = (await BuildCache.load(templateOptions)).getKey(home);
+
+      expect(after).not.toBe(before);
+    }));
+
+  it('returns entries whose key matches and counts hits and misses', () =>
+    withOutputDir(async dir => {
+      const cache = await BuildCache.load(options(dir));
+      const key = cache.getKey(home);
+      cache.set('home.svg', { key, content: home, optimized: true, diagnostics: [], output: null });
+
+      expect(cache.get('home.svg', key)?.content).toBe(home);
+      expect(cache.get('home.svg', 'stale')).toBeUndefined();
+      expect(cache.get('user.svg', key)).toBeUndefined();
+      expect([cache.hits, cache.misses]).toEqual([1, 2]);
+    }));
+
+  it('persists entries and prunes those not seen in a run', () =>
+    withOutputDir(async dir => {
+      const first = await BuildCache.load(options(dir));
+      const key = first.getKey(home);
+      first.set('home.svg', { key, content: home, optimized: true, diagnostics: [], output: null });
+      first.set('user.svg', { key, content: home, optimized: true, diagnostics: [], output: null });
+      expect(await first.save()).toBe(0);
+
+      const second = await BuildCache.load(options(dir));
+      expect(second.get('home.svg', key)).toBeDefined();
+      expect(await second.save()).toBe(1);
+
+      const third = await BuildCache.load(options(dir));
+      expect(third.get('user.svg', key)).toBeUndefined();
+    }));
+
+  it('reuses generated output only while every file still exists', () =>
+    withOutputDir(async dir => {
+      const cache = await BuildCache.load(options(dir));
+      const file = path.join(dir, 'home.svg');
+      const output = { files: [file], warnings: ['home: warning'], diagnostics: [] };
+      await fs.writeFile(file, home);
+
+      cache.set('home.svg', { key: cache.getKey(home), content: home, optimized: true, diagnostics: [], output: null });
+      expect(await cache.getReusableOutput('home.svg')).toBeNull();
+
+      cache.setOutput('home.svg', output);
+      expect(await cache.getReusableOutput('home.svg')).toEqual(output);
+
+      await fs.rm(file);
+      expect(await cache.getReusableOutput('home.svg')).toBeNull();
+    }));
+});
+
+describe('IconifyLoader with cache', () => {
+  const unsupported = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><script>alert(1)</script><foreignObject width="4" height="4"><div/></foreignObject><image href="a.png" width="4" height="4"/><path d="M3 9l9-7 9 7v11H3z"/></svg>';
+
+  const load = async (dir: string, format: OutputFormat, cache: boolean): Promise<Diagnostic[]> => {
+    const result = await IconifyLoader.load({
+      inputDir: path.join(dir, 'icons'),
+      outputDir: path.join(dir, cache ? 'cached' : 'uncached'),
+      format,
+      optimize: false,
+      cache,
+      cacheDir: path.join(dir, 'cache')
+    });
+    return result.diagnostics;
+  };
+
+  it.each<OutputFormat>(['react-native', 'font'])('reports the same %s diagnostics on cold and warm caches', format =>
+    withOutputDir(async dir => {
+      await fs.mkdir(path.join(dir, 'icons'));
+      await fs.writeFile(path.join(dir, 'icons', 'unsupported.svg'), unsupported);
+
+      const uncached = await load(dir, format, false);
+
+      expect(uncached.map(diagnostic => diagnostic.code)).toContain('UNSUPPORTED_CONTENT');
+      expect(await load(dir, format, true)).toEqual(uncached);
+      expect(await load(dir, format, true)).toEqual(uncached);
+    }));
+
+  it('replays optimization warnings on cache hits', () =>
+    withOutputDir(async dir => {
+      await fs.mkdir(path.join(dir, 'icons'));
+      await fs.writeFile(path.join(dir, 'icons', 'home.svg'), home);
+      const spy = jest.spyOn(SVGOptimizer, 'optimizeSVG').mockRejectedValue(new Error('SVGO failed'));
+      const run = () => IconifyLoader.load({
+        inputDir: path.join(dir, 'icons'),
+        outputDir: path.join(dir, 'out'),
+        format: 'svg',
+        optimize: true,
+        cache: true,
+        cacheDir: path.join(dir, 'cache')
+      });
+
+      try {
+        const cold = await run();
+        const warm = await run();
+
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(cold.diagnostics.map(diagnostic => diagnostic.phase)).toEqual(['optimize']);
+        expect(warm.diagnostics).toEqual(cold.diagnostics);
+      } finally {
+        spy.mockRestore();
+      }
+    }));
+});
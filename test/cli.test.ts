@@ -0,0 +1,41 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { CLI } from '../src/cli';
+import { withOutputDir } from './helpers';
+
+describe('CLI', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const run = (files: Record<string, string>, flags: string[]): Promise<number> =>
+    withOutputDir(async dir => {
+      const inputDir = path.join(dir, 'icons');
+      await fs.mkdir(inputDir);
+      for (const [name, content] of Object.entries(files)) {
+        await fs.writeFile(path.join(inputDir, name), content);
+      }
+      return CLI.run(['--input', inputDir, '--out', path.join(dir, 'out'), '--format', 'svg', '--no-optimize', ...flags]);
+    });
+
+  const valid = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M0 0h24v24H0z"/></svg>';
+  const broken = '<svg xmlns="http://www.w3.org/2000/svg"><path d="M0 0"></svg>';
+
+  it('exits with code 0 when every file is generated', async () => {
+    expect(await run({ 'home.svg': valid }, ['--continue-on-error'])).toBe(0);
+  });
+
+  it('exits with code 1 when --continue-on-error skipped a file', async () => {
+    expect(await run({ 'home.svg': valid, 'broken.svg': broken }, ['--continue-on-error'])).toBe(1);
+  });
+
+  it('exits with code 1 when an invalid file aborts the run', async () => {
+    expect(await run({ 'broken.svg': broken }, [])).toBe(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { SVGParser } from '../src/utils/svg-parser';
+import { ColorNormalizer } from '../src/utils/color-normalizer';
+
+describe('ColorNormalizer', () => {
+  it('parses valid colour syntax into comparable values', () => {
+    expect(ColorNormalizer.parseColor('#ABC')).toBe('#aabbcc');
+    expect(ColorNormalizer.parseColor(' #1F2937 ')).toBe('#1f2937');
+    expect(ColorNormalizer.parseColor('rgb(31, 41, 55)')).toBe('#1f2937');
+    expect(ColorNormalizer.parseColor('rgba(31,41,55,1)')).toBe('#1f2937');
+    expect(ColorNormalizer.parseColor('rgba(31, 41, 55, 0.5)')).toBe('rgba(31, 41, 55, 0.5)');
+    expect(ColorNormalizer.parseColor('hsl(210 40% 50% / 0.8)')).toBe('hsl(210 40% 50% / 0.8)');
+    expect(ColorNormalizer.parseColor('RebeccaPurple')).toBe('rebeccapurple');
+  });
+
+  it('ignores values that are not hard-coded colours', () => {
+    for (const value of ['none', 'currentColor', 'transparent', 'url(#gradient)', 'var(--accent)', 'freeze', 'context-fill', '#12', 'rgb(1, 2)', '']) {
+      expect(ColorNormalizer.parseColor(value)).toBeUndefined();
+    }
+  });
+
+  it('detects the palette from attributes and inline styles in document order', () => {
+    const root = SVGParser.parse(
+      '<svg fill="none"><path fill="#F00"/><path style="stroke: red; fill:#00ff00"/>' +
+      '<linearGradient><stop stop-color="rgb(255,0,0)"/></linearGradient><path fill="url(#g)"/></svg>'
+    );
+
+    expect(ColorNormalizer.getPalette(root)).toEqual(['#ff0000', 'red', '#00ff00']);
+  });
+
+  it('leaves the fill of animation elements alone', () => {
+    const content = '<svg><circle fill="#333"><animate attributeName="r" values="1;2" fill="freeze"/><set attributeName="opacity" to="0" fill="remove"/></circle></svg>';
+    const result = ColorNormalizer.normalize(content);
+
+    expect(result.palette).toEqual(['#333333']);
+    expect(result.content).toBe(
+      '<svg><circle fill="currentColor"><animate attributeName="r" values="1;2" fill="freeze"/><set attributeName="opacity" to="0" fill="remove"/></circle></svg>'
+    );
+  });
+
+  it('normalizes single-colour icons and leaves multi-colour icons unchanged', () => {
+    expect(ColorNormalizer.normalize('<svg fill="none"><path stroke="#000"/><path style="fill:#000000;opacity:.5" fill="rgb(0,0,0)"/></svg>')).toEqual({
+      content: '<svg fill="none"><path stroke="currentColor"/><path style="fill:currentColor;opacity:.5" fill="currentColor"/></svg>',
+      palette: ['#000000'],
+      normalized: true
+    });
+
+    const multi = '<svg><path fill="#111"/><path fill="#222"/></svg>';
+    expect(ColorNormalizer.normalize(multi)).toEqual({ content: multi, palette: ['#111111', '#222222'], normalized: false });
+  });
+
+  it('maps palettes to custom properties and themes them', () => {
+    const colors = ColorNormalizer.getColorMap(['#111111', '#222222'], { theme: 'props', variablePrefix: 'brand' });
+    const root = SVGParser.parse('<svg><path fill="#111"/><path style="stroke:#222222"/></svg>');
+
+    ColorNormalizer.applyTheme(root, colors);
+
+    expect(colors).toEqual([
+      { color: '#111111', variable: '--brand-1', prop: 'primaryColor' },
+      { color: '#222222', variable: '--brand-2', prop: 'secondaryColor' }
+    ]);
+    expect(SVGParser.stringify(root)).toBe(
+      '<svg><path fill="var(--brand-1, #111111)"/><path style="stroke:var(--brand-2, #222222)"/></svg>'
+    );
+  });
+});
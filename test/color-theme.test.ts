@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ColorOptions, IconifyLoaderOptions, JSONOutput, OutputFormat } from '../src/types';
+import { IconifyLoader } from '../src/core/iconify-loader';
+import { withOutputDir } from './helpers';
+
+const logo = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">' +
+  '<path fill="#1F2937" d="M0 0h12v24H0z"/>' +
+  '<path style="fill:rgb(96,165,250)" d="M12 0h12v24H12z"/>' +
+  '<path fill="#1f2937" stroke="#60A5FA" d="M6 6h12v12H6z"/>' +
+'</svg>';
+
+const dot = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 8 8"><circle fill="red" cx="4" cy="4" r="4"/></svg>';
+
+/**
+ * Builds a duotone logo and a single-colour dot, returning the output directory
+ */
+async function build(
+  dir: string,
+  format: OutputFormat,
+  colorOptions: ColorOptions,
+  extra: Partial<IconifyLoaderOptions> = {}
+): Promise<string> {
+  const inputDir = path.join(dir, 'icons');
+  const outputDir = path.join(dir, format);
+  await fs.mkdir(inputDir, { recursive: true });
+  await fs.writeFile(path.join(inputDir, 'logo.svg'), logo);
+  await fs.writeFile(path.join(inputDir, 'dot.svg'), dot);
+
+  const result = await IconifyLoader.load({ inputDir, outputDir, format, optimize: false, colorOptions, ...extra });
+  expect(result.errors).toEqual([]);
+  return outputDir;
+}
+
+describe('Colour theming', () => {
+  it('paints SVG files with custom properties falling back to the original colours', () =>
+    withOutputDir(async dir => {
+      const outputDir = await build(dir, 'svg', { theme: 'props' });
+      const content = await fs.readFile(path.join(outputDir, 'logo.svg'), 'utf-8');
+
+      expect(content).toContain('<path fill="var(--icon-color-1, #1f2937)" d="M0 0h12v24H0z"/>');
+      expect(content).toContain('<path style="fill:var(--icon-color-2, #60a5fa)" d="M12 0h12v24H12z"/>');
+      expect(content).toContain('fill="var(--icon-color-1, #1f2937)" stroke="var(--icon-color-2, #60a5fa)"');
+      expect(await fs.readFile(path.join(outputDir, 'dot.svg'), 'utf-8')).toContain('fill="var(--icon-color-1, red)"');
+    }));
+
+  it('uses the variable prefix', () =>
+    withOutputDir(async dir => {
+      const outputDir = await build(dir, 'svg', { theme: 'css-variables', variablePrefix: 'brand' });
+      const content = await fs.readFile(path.join(outputDir, 'logo.svg'), 'utf-8');
+
+      expect(content).toContain('var(--brand-1, #1f2937)');
+      expect(content).toContain('var(--brand-2, #60a5fa)');
+      expect(content).not.toContain('--icon-color');
+    }));
+
+  it('paints React components with custom properties and no colour props', () =>
+    withOutputDir(async dir => {
+      const outputDir = await build(dir, 'react', { theme: 'css-variables' });
+      const content = await fs.readFile(path.join(outputDir, 'Logo.jsx'), 'utf-8');
+
+      expect(content).toContain('<path style={{ fill: \'var(--icon-color-2, #60a5fa)\' }} d="M12 0h12v24H12z" />');
+      expect(content).not.toMatch(/primaryColor|style=\{\{ '--icon-color/);
+    }));
+
+  it('sets the custom properties from colour props in React components', () =>
+    withOutputDir(async dir => {
+      const outputDir = await build(dir, 'react', { theme: 'props' });
+      const { outputText } = ts.transpileModule(await fs.readFile(path.join(outputDir, 'Logo.jsx'), 'utf-8'), {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, jsx: ts.JsxEmit.React, esModuleInterop: true }
+      });
+      const exports: Record<string, any> = {};
+      new Function('require', 'exports', outputText)(require, exports);
+      const Logo = exports['default'];
+
+      expect(Logo({ primaryColor: '#0f172a', style: { opacity: 0.5 } }).props.style).toEqual({
+        '--icon-color-1': '#0f172a',
+        '--icon-color-2': undefined,
+        opacity: 0.5
+      });
+      // A caller's style wins over the colour props
+      expect(Logo({ secondaryColor: 'red', style: { '--icon-color-2': 'blue' } }).props.style['--icon-color-2']).toBe('blue');
+    }));
+
+  it('types one colour prop per palette entry', () =>
+    withOutputDir(async dir => {
+      const outputDir = await build(dir, 'react', { theme: 'props' }, { typescript: true });
+      const usage = path.join(outputDir, 'usage.tsx');
+      await fs.writeFile(usage, [
+        "import React from 'react';",
+        "import Logo from './Logo';",
+        "import Dot from './Dot';",
+        'export const logo = <Logo primaryColor="#0f172a" secondaryColor="var(--accent)" style={{ opacity: 0.5 }} />;',
+        'export const dot = <Dot primaryColor="red" />;',
+        '// @ts-expect-error the dot has a single colour',
+        'export const unknown = <Dot secondaryColor="red" />;'
+      ].join('\n'));
+
+      const program = ts.createProgram([usage], {
+        strict: true,
+        noEmit: true,
+        jsx: ts.JsxEmit.React,
+        module: ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2019,
+        moduleResolution: ts.ModuleResolutionKind.Node10,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        types: [],
+        typeRoots: [path.join(__dirname, '..', 'node_modules', '@types')]
+      });
+      const errors = ts.getPreEmitDiagnostics(program)
+        .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+      expect(errors).toEqual([]);
+    }));
+
+  it('exports the colour mapping in JSON output', () =>
+    withOutputDir(async dir => {
+      const outputDir = await build(dir, 'json', { theme: 'props', normalize: true });
+      const output: JSONOutput = JSON.parse(await fs.readFile(path.join(outputDir, 'icons.json'), 'utf-8'));
+
+      expect(output.icons['logo']?.colors).toEqual([
+        { color: '#1f2937', variable: '--icon-color-1', prop: 'primaryColor' },
+        { color: '#60a5fa', variable: '--icon-color-2', prop: 'secondaryColor' }
+      ]);
+      // Single-colour icons are normalized to currentColor instead
+      expect(output.icons['dot']?.colors).toBeUndefined();
+      expect(output.icons['dot']?.palette).toEqual(['red']);
+    }));
+});
@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IconifyLoaderOptions } from '../src/types';
+import { ComponentGenerator } from '../src/generators/component-generator';
+import { PreactGenerator } from '../src/generators/preact-generator';
+import { SolidGenerator } from '../src/generators/solid-generator';
+import { SvelteGenerator } from '../src/generators/svelte-generator';
+import { loadFixture, withOutputDir } from './helpers';
+
+describe.each([
+  ['Preact', PreactGenerator],
+  ['Solid', SolidGenerator]
+])('%s generator', (_framework, Generator) => {
+  it('renders xlink references as href and drops namespace declarations', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'preact', typescript: true };
+      const file = await Generator.generateComponentFile(loadFixture('xlink'), options);
+      const content = await fs.readFile(file, 'utf-8');
+
+      expect(path.basename(file)).toBe('Xlink.tsx');
+      expect(content).not.toMatch(/xlink:|xmlns:/);
+      expect(content).toContain('<use href="#dot" fill="url(#shade)" />');
+      expect(content).toContain('<use href="#dot" x="6" />');
+    }));
+
+  it('writes an index with type declarations for JavaScript output', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'preact', generateIndex: true };
+      const result = await Generator.generateComponents([loadFixture('xlink')], options);
+
+      expect(result.success).toBe(true);
+      expect(result.files.map(file => path.basename(file))).toEqual(['Xlink.jsx', 'index.js', 'index.d.ts']);
+      expect(await fs.readFile(path.join(outputDir, 'index.d.ts'), 'utf-8')).toContain('export declare const Xlink:');
+    }));
+});
+
+describe('Svelte generator', () => {
+  it('keeps xlink references in Svelte markup', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'svelte', generateIndex: true };
+      const result = await SvelteGenerator.generateComponents([loadFixture('xlink')], options);
+      const content = await fs.readFile(path.join(outputDir, 'Xlink.svelte'), 'utf-8');
+
+      expect(result.files.map(file => path.basename(file))).toEqual(['Xlink.svelte', 'index.js', 'index.d.ts']);
+      expect(content).toContain('xlink:href="#dot"');
+      expect(content).toContain('{...$$restProps}');
+    }));
+});
+
+describe('ComponentGenerator', () => {
+  it('cannot generate without the rendering hooks', () => {
+    class IncompleteGenerator extends ComponentGenerator {
+      static renderComponent(): string {
+        return '';
+      }
+    }
+    const options: IconifyLoaderOptions = { inputDir: '.', format: 'svelte' };
+
+    // @ts-expect-error renderIndexDeclarations is missing
+    const generate = () => IncompleteGenerator.generateComponents([], options);
+    // @ts-expect-error the base class has no hooks at all
+    const generateBase = () => ComponentGenerator.generateIconOutput(loadFixture('xlink'), options);
+
+    expect([generate, generateBase]).toHaveLength(2);
+  });
+});
@@ -0,0 +1,98 @@
+import { Concurrency } from '../src/utils/concurrency';
+
+/**
+ * Creates a promise that is settled from the outside
+ */
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void; reject: (error: Error) => void } {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Concurrency.map', () => {
+  it('keeps the input order when tasks complete out of order', async () => {
+    const tasks = [0, 1, 2, 3].map(() => deferred<string>());
+    const mapped = Concurrency.map(['a', 'b', 'c', 'd'], 4, (item, index) =>
+      tasks[index]!.promise.then(suffix => `${item}${suffix}`)
+    );
+
+    for (const index of [3, 1, 0, 2]) {
+      tasks[index]!.resolve(String(index));
+      await flush();
+    }
+
+    await expect(mapped).resolves.toEqual(['a0', 'b1', 'c2', 'd3']);
+  });
+
+  it('starts tasks in input order with at most `limit` in flight', async () => {
+    const tasks = [0, 1, 2, 3, 4].map(() => deferred<void>());
+    const started: number[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const mapped = Concurrency.map([0, 1, 2, 3, 4], 2, async (_item, index) => {
+      started.push(index);
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await tasks[index]!.promise;
+      inFlight--;
+      return index * 10;
+    });
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    // The freed slot picks up the next item, whichever task finished
+    tasks[1]!.resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks.forEach(task => task.resolve());
+    await expect(mapped).resolves.toEqual([0, 10, 20, 30, 40]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('stops taking new items once a worker rejects', async () => {
+    const started: number[] = [];
+    const failure = new Error('broken icon');
+
+    const mapped = Concurrency.map([0, 1, 2, 3, 4, 5], 2, async (_item, index) => {
+      started.push(index);
+      await flush();
+      if (index === 1) {
+        throw failure;
+      }
+      return index;
+    });
+
+    await expect(mapped).rejects.toBe(failure);
+    await flush();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it('handles empty input and falls back to the default limit', async () => {
+    const started: number[] = [];
+    const gate = deferred<void>();
+    const items = Array.from({ length: Concurrency.DEFAULT_LIMIT + 2 }, (_, index) => index);
+
+    await expect(Concurrency.map([], undefined, async () => 1)).resolves.toEqual([]);
+
+    const mapped = Concurrency.map(items, undefined, async item => {
+      started.push(item);
+      await gate.promise;
+      return item;
+    });
+
+    await flush();
+    expect(started).toHaveLength(Concurrency.DEFAULT_LIMIT);
+
+    gate.resolve();
+    await expect(mapped).resolves.toEqual(items);
+  });
+});
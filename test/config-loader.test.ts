@@ -0,0 +1,127 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { ValidationError } from '../src/types';
+import { ConfigLoader } from '../src/core/config-loader';
+import { withOutputDir } from './helpers';
+
+const validationError = async (run: () => Promise<unknown>): Promise<ValidationError> => {
+  try {
+    await run();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a validation error');
+};
+
+describe('ConfigLoader', () => {
+  it('finds the nearest config file in a parent directory', () =>
+    withOutputDir(async dir => {
+      const nested = path.join(dir, 'packages', 'app');
+      await fs.mkdir(nested, { recursive: true });
+      await fs.writeFile(path.join(dir, 'iconify-loader.config.json'), '{}');
+      await fs.writeFile(path.join(dir, 'packages', 'iconify-loader.config.cjs'), 'module.exports = {};');
+
+      expect(await ConfigLoader.findConfigFile(nested)).toBe(path.join(dir, 'packages', 'iconify-loader.config.cjs'));
+      expect(await ConfigLoader.findConfigFile(dir)).toBe(path.join(dir, 'iconify-loader.config.json'));
+    }));
+
+  it('merges shared options into each job and resolves paths against the config file', () =>
+    withOutputDir(async dir => {
+      await fs.writeFile(path.join(dir, 'iconify-loader.config.json'), JSON.stringify({
+        inputDir: 'icons',
+        optimize: false,
+        reactOptions: { template: './templates/component.js' },
+        jobs: {
+          react: { format: 'react', outputDir: 'out/react' },
+          svg: { format: 'svg', inputDir: 'other', optimize: true }
+        }
+      }));
+
+      const jobs = await ConfigLoader.loadConfig(undefined, dir);
+
+      expect(jobs).toEqual([
+        {
+          name: 'react',
+          options: {
+            inputDir: path.join(dir, 'icons'),
+            outputDir: path.join(dir, 'out', 'react'),
+            format: 'react',
+            optimize: false,
+            reactOptions: { template: path.join(dir, 'templates', 'component.js') }
+          }
+        },
+        {
+          name: 'svg',
+          options: expect.objectContaining({ inputDir: path.join(dir, 'other'), format: 'svg', optimize: true })
+        }
+      ]);
+    }));
+
+  it('transpiles TypeScript configs and calls exported functions', () =>
+    withOutputDir(async dir => {
+      const configPath = path.join(dir, 'iconify-loader.config.ts');
+      await fs.writeFile(configPath, [
+        "type Format = 'svg' | 'react';",
+        "const format: Format = 'react';",
+        'export default async () => ({',
+        "  inputDir: './icons',",
+        '  format,',
+        '  reactComponentName: (name: string): string => `Icon${name}`',
+        '});'
+      ].join('\n'));
+
+      const [job] = await ConfigLoader.loadConfig(configPath);
+
+      expect(job?.name).toBe('default');
+      expect(job?.options).toMatchObject({ inputDir: path.join(dir, 'icons'), format: 'react' });
+      expect(job?.options.reactComponentName?.('Home')).toBe('IconHome');
+    }));
+
+  it('reports the key path of invalid nested values and array items', () => {
+    const invalid = (config: unknown): [string, string] | null => {
+      try {
+        ConfigLoader.validateConfig(config, '/project/iconify-loader.config.json');
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return [error.message, error.details.path];
+        }
+        throw error;
+      }
+      return null;
+    };
+    const file = 'in /project/iconify-loader.config.json';
+
+    expect(invalid({ jobs: { react: { reactOptions: { template: 42 } } } })).toEqual([
+      `Invalid config at "jobs.react.reactOptions.template" ${file}: expected a function or a string`,
+      'jobs.react.reactOptions.template'
+    ]);
+    expect(invalid({ fontOptions: { types: ['woff2', 'otf'] } })).toEqual([
+      `Invalid config at "fontOptions.types[1]" ${file}: expected one of: woff2, woff, ttf`,
+      'fontOptions.types[1]'
+    ]);
+    expect(invalid({ colorOptions: { theme: 'dark' } })?.[1]).toBe('colorOptions.theme');
+    expect(invalid({ strokeOptions: { width: 2 } })).toEqual([
+      `Invalid config at "strokeOptions.width" ${file}: unknown option`,
+      'strokeOptions.width'
+    ]);
+    expect(invalid({ ignorePatterns: ['a', 1] })?.[1]).toBe('ignorePatterns[1]');
+    expect(invalid({ vueOptions: 'sfc' })?.[1]).toBe('vueOptions');
+    expect(invalid({ format: 'png' })?.[1]).toBe('format');
+    expect(invalid({ jobs: {} })?.[1]).toBe('jobs');
+    expect(invalid({ inputDir: 'icons', reactOptions: { template: './t.js', forwardRef: true }, svgProps: { any: 1 } })).toBeNull();
+  });
+
+  it('names the config file when a job misses a required option', () =>
+    withOutputDir(async dir => {
+      const configPath = path.join(dir, 'iconify-loader.config.json');
+      await fs.writeFile(configPath, JSON.stringify({ inputDir: 'icons', jobs: { svg: { format: 'svg' }, react: {} } }));
+
+      const error = await validationError(() => ConfigLoader.loadConfig(configPath));
+
+      expect(error.message).toBe(`Invalid config at "jobs.react.format" in ${configPath}: is required`);
+      expect(error.details).toMatchObject({ path: 'jobs.react.format', filePath: configPath });
+    }));
+});
@@ -0,0 +1,216 @@
+import * as zlib from 'zlib';
+import { FontGlyph, GlyphPoint } from '../src/types';
+import { FontBuilder } from '../src/utils/font-builder';
+
+const square = (size: number): GlyphPoint[] => [
+  { x: 0, y: 0, onCurve: true },
+  { x: 0, y: size, onCurve: true },
+  { x: size, y: size, onCurve: true },
+  { x: size, y: 0, onCurve: true }
+];
+
+const glyphs: FontGlyph[] = [
+  { name: 'home', codepoint: 0xe001, advanceWidth: 1000, contours: [square(800)] },
+  { name: 'dot', codepoint: 0xe000, advanceWidth: 500, contours: [[
+    { x: 250, y: 100, onCurve: true },
+    { x: 400.4, y: 250.6, onCurve: false },
+    { x: 250, y: 400, onCurve: true },
+    { x: 100, y: 250, onCurve: false }
+  ]] },
+  { name: 'far', codepoint: 0xe005, advanceWidth: 1000, contours: [square(300), square(900)] }
+];
+
+function checksum(data: Buffer): number {
+  const padded = Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+  let sum = 0;
+  for (let offset = 0; offset < padded.length; offset += 4) {
+    sum = (sum + padded.readUInt32BE(offset)) % 0x100000000;
+  }
+  return sum;
+}
+
+function readTables(ttf: Buffer): Map<string, { data: Buffer; checksum: number }> {
+  const tables = new Map<string, { data: Buffer; checksum: number }>();
+  for (let index = 0; index < ttf.readUInt16BE(4); index++) {
+    const entry = 12 + index * 16;
+    const offset = ttf.readUInt32BE(entry + 8);
+    tables.set(ttf.toString('latin1', entry, entry + 4), {
+      checksum: ttf.readUInt32BE(entry + 4),
+      data: ttf.subarray(offset, offset + ttf.readUInt32BE(entry + 12))
+    });
+  }
+  return tables;
+}
+
+function table(ttf: Buffer, tag: string): Buffer {
+  const found = readTables(ttf).get(tag);
+  if (!found) {
+    throw new Error(`Missing ${tag} table`);
+  }
+  return found.data;
+}
+
+/**
+ * Looks a codepoint up in the format 4 cmap subtable
+ */
+function lookup(cmap: Buffer, codepoint: number): number {
+  const subtable = cmap.subarray(cmap.readUInt32BE(8));
+  const segCount = subtable.readUInt16BE(6) / 2;
+  for (let index = 0; index < segCount; index++) {
+    const end = subtable.readUInt16BE(14 + index * 2);
+    const start = subtable.readUInt16BE(16 + segCount * 2 + index * 2);
+    if (codepoint >= start && codepoint <= end) {
+      return (codepoint + subtable.readUInt16BE(16 + segCount * 4 + index * 2)) % 0x10000;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Decodes a simple glyph with 16-bit coordinates back into contours
+ */
+function decodeGlyph(ttf: Buffer, glyphId: number): GlyphPoint[][] {
+  const loca = table(ttf, 'loca');
+  const start = loca.readUInt32BE(glyphId * 4);
+  const data = table(ttf, 'glyf').subarray(start, loca.readUInt32BE(glyphId * 4 + 4));
+  if (data.length === 0) {
+    return [];
+  }
+
+  const contourCount = data.readInt16BE(0);
+  const endPoints = Array.from({ length: contourCount }, (_, index) => data.readUInt16BE(10 + index * 2));
+  const pointCount = (endPoints[contourCount - 1] as number) + 1;
+  const flagsOffset = 10 + contourCount * 2 + 2 + data.readUInt16BE(10 + contourCount * 2);
+  const xOffset = flagsOffset + pointCount;
+  const yOffset = xOffset + pointCount * 2;
+
+  const contours: GlyphPoint[][] = [[]];
+  let x = 0;
+  let y = 0;
+  for (let index = 0; index < pointCount; index++) {
+    x += data.readInt16BE(xOffset + index * 2);
+    y += data.readInt16BE(yOffset + index * 2);
+    (contours[contours.length - 1] as GlyphPoint[]).push({ x, y, onCurve: data.readUInt8(flagsOffset + index) === 1 });
+    if (endPoints.includes(index) && index < pointCount - 1) {
+      contours.push([]);
+    }
+  }
+  return contours;
+}
+
+describe('FontBuilder', () => {
+  const ttf = FontBuilder.buildTTF('Icons', glyphs);
+
+  it('writes the sfnt header and a sorted table directory', () => {
+    const tags = [...readTables(ttf).keys()];
+
+    expect(ttf.readUInt32BE(0)).toBe(0x00010000);
+    expect(tags).toEqual(['OS/2', 'cmap', 'glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp', 'name', 'post']);
+    expect(ttf.readUInt16BE(6)).toBe(128); // searchRange for 10 tables
+  });
+
+  it('checksums every table and adjusts the whole font to the magic number', () => {
+    for (const [tag, { data, checksum: expected }] of readTables(ttf)) {
+      const unadjusted = Buffer.from(data);
+      if (tag === 'head') {
+        unadjusted.writeUInt32BE(0, 8);
+      }
+      expect([tag, checksum(unadjusted)]).toEqual([tag, expected]);
+    }
+
+    expect(checksum(ttf)).toBe(0xb1b0afba);
+  });
+
+  it('maps codepoints to glyphs sorted by codepoint, after .notdef', () => {
+    const cmap = table(ttf, 'cmap');
+
+    expect(lookup(cmap, 0xe000)).toBe(1);
+    expect(lookup(cmap, 0xe001)).toBe(2);
+    expect(lookup(cmap, 0xe005)).toBe(3);
+    expect(lookup(cmap, 0xe002)).toBe(0);
+    expect(table(ttf, 'maxp').readUInt16BE(4)).toBe(4);
+    expect(table(ttf, 'hmtx').readUInt16BE(4)).toBe(500);
+  });
+
+  it('round-trips glyph outlines rounded to font units', () => {
+    expect(decodeGlyph(ttf, 0)).toEqual([]);
+    expect(decodeGlyph(ttf, 1)).toEqual([[
+      { x: 250, y: 100, onCurve: true },
+      { x: 400, y: 251, onCurve: false },
+      { x: 250, y: 400, onCurve: true },
+      { x: 100, y: 250, onCurve: false }
+    ]]);
+    expect(decodeGlyph(ttf, 3)).toEqual([square(300), square(900)]);
+
+    const head = table(ttf, 'head');
+    expect([head.readInt16BE(36), head.readInt16BE(38), head.readInt16BE(40), head.readInt16BE(42)]).toEqual([0, 0, 900, 900]);
+  });
+
+  it('wraps the tables as WOFF with zlib compression', () => {
+    const woff = FontBuilder.toWOFF(ttf);
+    const tables = readTables(ttf);
+
+    expect(woff.toString('latin1', 0, 4)).toBe('wOFF');
+    expect(woff.readUInt32BE(8)).toBe(woff.length);
+    expect(woff.readUInt16BE(12)).toBe(tables.size);
+    expect(woff.readUInt32BE(16)).toBe(ttf.length);
+
+    for (let index = 0; index < tables.size; index++) {
+      const entry = 44 + index * 20;
+      const tag = woff.toString('latin1', entry, entry + 4);
+      const offset = woff.readUInt32BE(entry + 4);
+      const stored = woff.subarray(offset, offset + woff.readUInt32BE(entry + 8));
+      const original = woff.readUInt32BE(entry + 12);
+      const data = stored.length < original ? zlib.inflateSync(stored) : stored;
+
+      expect(data.equals(tables.get(tag)?.data as Buffer)).toBe(true);
+      expect(woff.readUInt32BE(entry + 16)).toBe(tables.get(tag)?.checksum);
+    }
+  });
+
+  it('wraps the tables as WOFF2 with Brotli compression, loca following glyf', () => {
+    const woff2 = FontBuilder.toWOFF2(ttf);
+    const tables = readTables(ttf);
+    const knownTags = ['cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca', 'prep'];
+
+    expect(woff2.toString('latin1', 0, 4)).toBe('wOF2');
+    expect(woff2.readUInt32BE(8)).toBe(woff2.length);
+    expect(woff2.readUInt32BE(16)).toBe(ttf.length);
+
+    // Each directory entry is a known-tag flag byte followed by a UIntBase128 length
+    let offset = 48;
+    const order: Array<{ tag: string; length: number }> = [];
+    for (let index = 0; index < woff2.readUInt16BE(12); index++) {
+      const flags = woff2.readUInt8(offset++);
+      let length = 0;
+      let byte: number;
+      do {
+        byte = woff2.readUInt8(offset++);
+        length = length * 128 + (byte & 0x7f);
+      } while (byte & 0x80);
+      order.push({ tag: knownTags[flags & 0x3f] as string, length });
+    }
+
+    const stream = zlib.brotliDecompressSync(woff2.subarray(offset, offset + woff2.readUInt32BE(20)));
+    let position = 0;
+    for (const { tag, length } of order) {
+      expect(stream.subarray(position, position + length).equals(tables.get(tag)?.data as Buffer)).toBe(true);
+      position += length;
+    }
+
+    const tags = order.map(({ tag }) => tag);
+    expect(tags.indexOf('loca')).toBe(tags.indexOf('glyf') + 1);
+    expect(position).toBe(stream.length);
+  });
+
+  it('detects glyphs that do not fit 16-bit coordinates', () => {
+    expect(FontBuilder.isEncodable([square(900)], 1000)).toBe(true);
+    expect(FontBuilder.isEncodable([square(40000)], 1000)).toBe(false);
+    expect(FontBuilder.isEncodable([[
+      { x: -20000, y: 0, onCurve: true },
+      { x: 20000, y: 0, onCurve: true },
+      { x: 0, y: 100, onCurve: true }
+    ]], 1000)).toBe(false);
+    expect(FontBuilder.isEncodable([square(900)], 70000)).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { IconifyLoaderOptions } from '../src/types';
+import { IconifyLoader } from '../src/core/iconify-loader';
+import { FontGenerator } from '../src/generators/font-generator';
+import { createSVG, withOutputDir } from './helpers';
+
+const square = (name: string) => createSVG(
+  name,
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><rect x="4" y="4" width="16" height="16"/></svg>'
+);
+
+describe('Font generator', () => {
+  const options = (outputDir: string): IconifyLoaderOptions => ({
+    inputDir: '.',
+    outputDir,
+    format: 'font',
+    fontOptions: { types: ['ttf'] }
+  });
+  const readCodepoints = async (outputDir: string): Promise<Record<string, number>> =>
+    JSON.parse(await fs.readFile(path.join(outputDir, 'icons.codepoints.json'), 'utf-8'));
+
+  it('never hands the codepoint of a removed icon to another icon', () =>
+    withOutputDir(async outputDir => {
+      await FontGenerator.generateFont([square('a'), square('b'), square('c')], options(outputDir));
+      expect(await readCodepoints(outputDir)).toEqual({ a: 0xe000, b: 0xe001, c: 0xe002 });
+
+      const result = await FontGenerator.generateFont([square('a'), square('b'), square('d')], options(outputDir));
+      const css = await fs.readFile(path.join(outputDir, 'icons.css'), 'utf-8');
+
+      expect(result.success).toBe(true);
+      expect(await readCodepoints(outputDir)).toEqual({ a: 0xe000, b: 0xe001, c: 0xe002, d: 0xe003 });
+      expect(css).toContain('.icon-d::before');
+      expect(css).not.toContain('.icon-c::before');
+    }));
+
+  it('fails icons without filled shapes or with outlines out of range, and builds the rest', () =>
+    withOutputDir(async dir => {
+      const inputDir = path.join(dir, 'icons');
+      const outputDir = path.join(dir, 'out');
+      await fs.mkdir(inputDir);
+      await fs.writeFile(path.join(inputDir, 'filled.svg'), square('filled').content);
+      await fs.writeFile(
+        path.join(inputDir, 'outline.svg'),
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M4 12h16" fill="none" stroke="currentColor"/></svg>'
+      );
+      await fs.writeFile(
+        path.join(inputDir, 'huge.svg'),
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><rect x="4000" width="4" height="4"/></svg>'
+      );
+
+      const result = await IconifyLoader.load({ ...options(outputDir), inputDir, optimize: false });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        expect.stringMatching(/^Failed to generate output for huge: Icon outline exceeds the font coordinate range/),
+        expect.stringMatching(/^Failed to generate output for outline: Icon has no filled shapes and cannot become a glyph: Stroked shapes/)
+      ]);
+      expect(result.diagnostics.filter(diagnostic => diagnostic.severity === 'error')).toHaveLength(2);
+      expect(Object.keys(await readCodepoints(outputDir))).toEqual(['filled']);
+      expect(result.files).toContain(path.join(outputDir, 'icons.ttf'));
+    }));
+});
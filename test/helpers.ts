@@ -0,0 +1,41 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs, readFileSync } from 'fs';
+import { ProcessedSVG } from '../src/types';
+import { FileReader } from '../src/utils/file-reader';
+
+/**
+ * Creates a processed SVG, as the loader would hand it to generators
+ */
+export function createSVG(name: string, content: string): ProcessedSVG {
+  return {
+    content,
+    metadata: {
+      name,
+      originalName: name,
+      path: `${name}.svg`,
+      size: content.length,
+      ...FileReader.extractSVGAttributes(content)
+    }
+  };
+}
+
+/**
+ * Reads an SVG from test/fixtures as a processed SVG
+ */
+export function loadFixture(name: string): ProcessedSVG {
+  return createSVG(name, readFileSync(path.join(__dirname, 'fixtures', `${name}.svg`), 'utf-8'));
+}
+
+/**
+ * Creates a temporary output directory, removed again after the test
+ */
+export async function withOutputDir<T>(run: (outputDir: string) => Promise<T>): Promise<T> {
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'iconify-loader-'));
+
+  try {
+    return await run(outputDir);
+  } finally {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+}
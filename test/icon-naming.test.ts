@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IconifyLoaderOptions, OutputFormat } from '../src/types';
+import { IconNaming } from '../src/utils/icon-naming';
+import { DeclarationsGenerator } from '../src/generators/declarations-generator';
+import { SpriteGenerator } from '../src/generators/sprite-generator';
+import { FontGenerator } from '../src/generators/font-generator';
+import { WebComponentGenerator } from '../src/generators/web-component-generator';
+import { IconifyGenerator } from '../src/generators/iconify-generator';
+import { createSVG, withOutputDir } from './helpers';
+
+const options = (format: OutputFormat, overrides: Partial<IconifyLoaderOptions> = {}): IconifyLoaderOptions => ({
+  inputDir: '.',
+  format,
+  ...overrides
+});
+
+describe('IconNaming', () => {
+  it('keeps the original case for sprite symbols and font glyphs', () => {
+    expect(IconNaming.getId('ArrowLeft', options('sprite'))).toBe('ArrowLeft');
+    expect(IconNaming.getId('my_icon', options('sprite'))).toBe('my_icon');
+    expect(IconNaming.getId(' arrow left! ', options('sprite'))).toBe('arrow-left');
+  });
+
+  it('kebab-cases ids for custom elements and Iconify names', () => {
+    expect(IconNaming.getKebabId('ArrowLeft', options('web-component'))).toBe('arrow-left');
+    expect(IconNaming.getKebabId('my_icon', options('web-component'))).toBe('my-icon');
+    expect(IconNaming.getKebabId('HTTP2Server', options('web-component'))).toBe('http2-server');
+  });
+
+  it('applies fileNameFormatter without the .svg extension', () => {
+    const formatted = options('sprite', { fileNameFormatter: name => `ui-${name}.svg` });
+
+    expect(IconNaming.getId('ArrowLeft', formatted)).toBe('ui-ArrowLeft');
+    expect(IconNaming.getKebabId('ArrowLeft', formatted)).toBe('ui-arrow-left');
+  });
+
+  it.each<[OutputFormat, string]>([
+    ['sprite', 'ArrowLeft'],
+    ['font', 'ArrowLeft'],
+    ['web-component', 'arrow-left'],
+    ['iconify', 'arrow-left'],
+    ['react', 'arrow-left']
+  ])('names %s icons in the declarations as the format emits them', (format, expected) => {
+    expect(DeclarationsGenerator.getIconName('ArrowLeft', options(format))).toBe(expected);
+  });
+
+  it('matches the ids emitted by each format', () => {
+    for (const name of ['ArrowLeft', 'my_icon']) {
+      expect(SpriteGenerator.getSymbolId(name, options('sprite'))).toBe(DeclarationsGenerator.getIconName(name, options('sprite')));
+      expect(FontGenerator.getGlyphName(name, options('font'))).toBe(DeclarationsGenerator.getIconName(name, options('font')));
+      expect(WebComponentGenerator.getIconId(name, options('web-component'))).toBe(
+        DeclarationsGenerator.getIconName(name, options('web-component'))
+      );
+      expect(IconifyGenerator.getIconName(name, options('iconify'))).toBe(DeclarationsGenerator.getIconName(name, options('iconify')));
+    }
+  });
+
+  it('declares the symbol ids written to the sprite', () =>
+    withOutputDir(async outputDir => {
+      const svgs = ['ArrowLeft', 'my_icon'].map(name =>
+        createSVG(name, '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M0 0h24"/></svg>')
+      );
+      const spriteOptions = options('sprite', { outputDir, typescript: true });
+
+      await SpriteGenerator.generateSpriteFile(svgs, spriteOptions);
+      await DeclarationsGenerator.generateDeclarations(svgs, spriteOptions);
+
+      const sprite = await fs.readFile(path.join(outputDir, SpriteGenerator.SPRITE_FILE), 'utf-8');
+      const declarations = await fs.readFile(path.join(outputDir, `${DeclarationsGenerator.FILE_NAME}.ts`), 'utf-8');
+
+      expect([...sprite.matchAll(/<symbol id="([^"]+)"/g)].map(match => match[1])).toEqual(['ArrowLeft', 'my_icon']);
+      expect(declarations).toContain("export type IconName = 'ArrowLeft' | 'my_icon';");
+    }));
+});
@@ -0,0 +1,138 @@
+import * as fsModule from 'fs';
+import * as path from 'path';
+import { EventEmitter, once } from 'events';
+import { promises as fs, readFileSync } from 'fs';
+import { GenerationResult } from '../src/types';
+import { IconifyLoader } from '../src/core/iconify-loader';
+import { IconWatcher } from '../src/core/icon-watcher';
+import { withOutputDir } from './helpers';
+
+// Directory events are raised by the tests instead of the file system
+jest.mock('fs', () => ({ ...jest.requireActual('fs'), watch: jest.fn() }));
+
+const icon = (name: string): string =>
+  readFileSync(path.join(__dirname, '..', 'example-icons', `${name}.svg`), 'utf-8');
+
+describe('IconWatcher', () => {
+  type Listener = (event: string, fileName: string) => void;
+  const listeners = new Map<string, Listener>();
+
+  beforeEach(() => {
+    // Only the debounce timer is faked; file system callbacks still need the real queues
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    jest.mocked(fsModule.watch).mockImplementation(((dirPath: string, listener: Listener) => {
+      listeners.set(dirPath, listener);
+      return Object.assign(new EventEmitter(), { close: () => listeners.delete(dirPath) });
+    }) as unknown as typeof fsModule.watch);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    listeners.clear();
+  });
+
+  /**
+   * Starts a watcher over `icons/` writing React components with an index to `out/`
+   */
+  const withWatcher = (run: (context: {
+    inputDir: string;
+    outputDir: string;
+    watcher: IconWatcher;
+    initial: GenerationResult;
+    change: (...fileNames: string[]) => Promise<GenerationResult>;
+  }) => Promise<void>) =>
+    withOutputDir(async dir => {
+      const inputDir = path.join(dir, 'icons');
+      const outputDir = path.join(dir, 'out');
+      await fs.mkdir(inputDir);
+      await fs.writeFile(path.join(inputDir, 'home.svg'), icon('home'));
+
+      const watcher = new IconifyLoader({
+        inputDir,
+        outputDir,
+        format: 'react',
+        typescript: true,
+        generateIndex: true,
+        optimize: false
+      }).watch();
+      const [initial] = await once(watcher, 'run');
+      await once(watcher, 'ready');
+
+      const change = async (...fileNames: string[]): Promise<GenerationResult> => {
+        const result = once(watcher, 'run');
+        for (const fileName of fileNames) {
+          listeners.get(inputDir)?.('rename', fileName);
+        }
+        await jest.advanceTimersByTimeAsync(100);
+        return (await result)[0];
+      };
+
+      try {
+        await run({ inputDir, outputDir, watcher, initial, change });
+      } finally {
+        await watcher.close();
+      }
+    });
+
+  const readIndex = (outputDir: string) => fs.readFile(path.join(outputDir, 'index.ts'), 'utf-8');
+
+  it('builds every icon on start', () =>
+    withWatcher(async ({ outputDir, initial }) => {
+      expect(initial).toMatchObject({ success: true, errors: [] });
+      expect(initial.files).toEqual([path.join(outputDir, 'Home.tsx'), path.join(outputDir, 'index.ts')]);
+      expect(await readIndex(outputDir)).toContain("export { default as Home } from './Home';");
+    }));
+
+  it('generates added icons and adds them to the index', () =>
+    withWatcher(async ({ inputDir, outputDir, change }) => {
+      await fs.writeFile(path.join(inputDir, 'user.svg'), icon('user'));
+      const result = await change('user.svg');
+
+      expect(result.files).toEqual([path.join(outputDir, 'User.tsx'), path.join(outputDir, 'index.ts')]);
+      expect(await readIndex(outputDir)).toContain("export { default as User } from './User';");
+      expect(await readIndex(outputDir)).toContain("export { default as Home } from './Home';");
+    }));
+
+  it('regenerates changed icons', () =>
+    withWatcher(async ({ inputDir, outputDir, change }) => {
+      await fs.writeFile(path.join(inputDir, 'home.svg'), icon('user'));
+      const result = await change('home.svg');
+
+      expect(result.files).toEqual([path.join(outputDir, 'Home.tsx'), path.join(outputDir, 'index.ts')]);
+      expect(await fs.readFile(path.join(outputDir, 'Home.tsx'), 'utf-8')).toContain('<circle');
+    }));
+
+  it('removes the outputs of deleted icons and drops them from the index', () =>
+    withWatcher(async ({ inputDir, outputDir, change }) => {
+      await fs.writeFile(path.join(inputDir, 'user.svg'), icon('user'));
+      await change('user.svg');
+      await fs.rm(path.join(inputDir, 'user.svg'));
+      const result = await change('user.svg');
+
+      expect(result).toMatchObject({ success: true, files: [path.join(outputDir, 'index.ts')] });
+      await expect(fs.access(path.join(outputDir, 'User.tsx'))).rejects.toThrow();
+      expect(await readIndex(outputDir)).not.toContain('User');
+    }));
+
+  it('debounces events into one run and reports each run on its own', () =>
+    withWatcher(async ({ inputDir, outputDir, watcher, change }) => {
+      const runs: GenerationResult[] = [];
+      watcher.on('run', result => runs.push(result));
+
+      await fs.writeFile(path.join(inputDir, 'broken.svg'), '<svg><path></svg>');
+      await fs.writeFile(path.join(inputDir, 'user.svg'), icon('user'));
+      const failed = await change('broken.svg', 'user.svg', 'user.svg');
+
+      expect(runs).toHaveLength(1);
+      expect(failed.success).toBe(false);
+      expect(failed.errors).toEqual([expect.stringContaining(`Failed to process ${path.join(inputDir, 'broken.svg')}`)]);
+      expect(failed.files).toContain(path.join(outputDir, 'User.tsx'));
+
+      await fs.writeFile(path.join(inputDir, 'broken.svg'), icon('home'));
+      const fixed = await change('broken.svg');
+
+      expect(runs).toHaveLength(2);
+      expect(fixed).toMatchObject({ success: true, errors: [], diagnostics: [] });
+      expect(fixed.files).toEqual([path.join(outputDir, 'Broken.tsx'), path.join(outputDir, 'index.ts')]);
+    }));
+});
@@ -0,0 +1,143 @@
+import { IconifyAlias, IconifyJSON, SVGElementNode, ValidationError } from '../src/types';
+import { IconifyCollection } from '../src/utils/iconify-collection';
+import { SVGParser } from '../src/utils/svg-parser';
+
+type Point = [number, number];
+
+/**
+ * Maps a point through an SVG transform list, applying the rightmost transform first
+ */
+function transformPoint(transform: string, point: Point): Point {
+  const operations = [...transform.matchAll(/(\w+)\(([^)]*)\)/g)].reverse();
+
+  return operations.reduce<Point>(([x, y], [, operation, args]) => {
+    const [a = 0, b = 0, c = 0] = (args as string).split(/[\s,]+/).map(Number);
+
+    switch (operation) {
+      case 'translate':
+        return [x + a, y + b];
+      case 'scale':
+        return [x * a, y * b];
+      case 'rotate': {
+        const angle = (a * Math.PI) / 180;
+        const [dx, dy] = [x - b, y - c];
+        // Rounds away floating point noise, including -0
+        return [
+          Math.round(b + dx * Math.cos(angle) - dy * Math.sin(angle)) || 0,
+          Math.round(c + dx * Math.sin(angle) + dy * Math.cos(angle)) || 0
+        ];
+      }
+      default:
+        throw new Error(`Unexpected transform ${operation}`);
+    }
+  }, point);
+}
+
+const collection: IconifyJSON = {
+  prefix: 'test',
+  width: 24,
+  height: 16,
+  icons: {
+    arrow: { body: '<path d="M2 1h24v16z"/>', left: 2, top: 1 },
+    square: { body: '<rect width="10" height="10"/>', width: 10, height: 10 },
+    legacy: { body: '<path d="M0 0h1v1z"/>', hidden: true }
+  },
+  aliases: {
+    'arrow-h': { parent: 'arrow', hFlip: true },
+    'arrow-v': { parent: 'arrow', vFlip: true },
+    'arrow-hv': { parent: 'arrow', hFlip: true, vFlip: true },
+    'arrow-90': { parent: 'arrow', rotate: 1 },
+    'arrow-180': { parent: 'arrow', rotate: 2 },
+    'arrow-270': { parent: 'arrow', rotate: 3 },
+    'arrow-90-h': { parent: 'arrow-90', hFlip: true },
+    'arrow-90-90': { parent: 'arrow-90', rotate: 1 },
+    'arrow-h-h': { parent: 'arrow-h', hFlip: true },
+    'square-wide': { parent: 'square', width: 20 },
+    'legacy-alias': { parent: 'legacy', hidden: true }
+  }
+};
+
+const svgs = new Map(IconifyCollection.toSVGs(collection).map(({ name, svg }) => [name, SVGParser.parse(svg, name)]));
+
+describe('IconifyCollection', () => {
+  it('resolves visible icons and aliases, applying collection defaults', () => {
+    expect([...svgs.keys()]).toEqual([
+      'arrow', 'square', 'arrow-h', 'arrow-v', 'arrow-hv', 'arrow-90', 'arrow-180',
+      'arrow-270', 'arrow-90-h', 'arrow-90-90', 'arrow-h-h', 'square-wide'
+    ]);
+    expect(svgs.get('arrow')?.attributes).toEqual({
+      xmlns: 'http://www.w3.org/2000/svg',
+      width: '24',
+      height: '16',
+      viewBox: '2 1 24 16'
+    });
+    expect(svgs.get('square')?.attributes['viewBox']).toBe('0 0 10 10');
+    expect(svgs.get('square-wide')?.attributes['viewBox']).toBe('0 0 20 10');
+  });
+
+  // Where the top-left corner of the source box ends up in the rendered box
+  it.each([
+    ['arrow', '2 1 24 16', 'top-left'],
+    ['arrow-h', '0 0 24 16', 'top-right'],
+    ['arrow-v', '0 0 24 16', 'bottom-left'],
+    ['arrow-hv', '2 1 24 16', 'bottom-right'],
+    ['arrow-90', '1 2 16 24', 'top-right'],
+    ['arrow-180', '2 1 24 16', 'bottom-right'],
+    ['arrow-270', '1 2 16 24', 'bottom-left'],
+    ['arrow-90-h', '0 0 16 24', 'bottom-right'],
+    ['arrow-90-90', '2 1 24 16', 'bottom-right'],
+    ['arrow-h-h', '2 1 24 16', 'top-left']
+  ])('turns the transformations of %s into a transform fitting the viewBox', (name, viewBox, corner) => {
+    const svg = svgs.get(name) as SVGElementNode;
+    const [left, top, width, height] = viewBox.split(' ').map(Number) as [number, number, number, number];
+    const group = svg.children[0] as SVGElementNode;
+    const transform = group.name === 'g' ? group.attributes['transform'] || '' : '';
+
+    const corners: Record<string, Point> = {
+      'top-left': [left, top],
+      'top-right': [left + width, top],
+      'bottom-left': [left, top + height],
+      'bottom-right': [left + width, top + height]
+    };
+    const source: Point[] = [[2, 1], [26, 1], [2, 17], [26, 17]];
+    const mapped = source.map(point => transformPoint(transform, point));
+
+    expect(svg.attributes['viewBox']).toBe(viewBox);
+    expect([svg.attributes['width'], svg.attributes['height']]).toEqual([String(width), String(height)]);
+    expect(mapped[0]).toEqual(corners[corner]);
+    expect(mapped.map(([x]) => x).sort((a, b) => a - b)).toEqual([left, left, left + width, left + width]);
+    expect(mapped.map(([, y]) => y).sort((a, b) => a - b)).toEqual([top, top, top + height, top + height]);
+  });
+
+  it('fails on aliases that cannot be resolved', () => {
+    const broken = (aliases: Record<string, IconifyAlias>) => () =>
+      IconifyCollection.toSVGs({ prefix: 'test', icons: {}, aliases });
+
+    expect(broken({ orphan: { parent: 'missing' } })).toThrow('Cannot resolve Iconify icon "orphan"');
+    expect(broken({ a: { parent: 'b' }, b: { parent: 'a' } })).toThrow(ValidationError);
+  });
+
+  it('round-trips icon data through SVG markup', () => {
+    const markup = '<svg xmlns="http://www.w3.org/2000/svg" width="48" height="32" viewBox="2 1 24 16" ' +
+      'fill="none" stroke="currentColor"><path d="M2 1h24v16z"/></svg>';
+    const icon = IconifyCollection.fromSVG(SVGParser.parse(markup, 'arrow'), '2 1 24 16');
+
+    expect(icon).toEqual({
+      body: '<g fill="none" stroke="currentColor"><path d="M2 1h24v16z"/></g>',
+      left: 2,
+      top: 1,
+      width: 24,
+      height: 16
+    });
+
+    const [resolved] = IconifyCollection.toSVGs({ prefix: 'test', icons: { arrow: icon } });
+    const root = SVGParser.parse((resolved as { svg: string }).svg, 'arrow');
+    expect(IconifyCollection.fromSVG(root, root.attributes['viewBox'] as string)).toEqual(icon);
+  });
+
+  it('rejects collections without a prefix or icon bodies', () => {
+    expect(() => IconifyCollection.parse('{', 'broken.json')).toThrow('Invalid Iconify JSON in broken.json');
+    expect(() => IconifyCollection.parse('{"icons":{}}', 'a.json')).toThrow('is missing a prefix');
+    expect(() => IconifyCollection.parse('{"prefix":"a","icons":{"x":{}}}', 'a.json')).toThrow('Icon "x" in a.json has no body');
+  });
+});
@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IconifyJSON, IconifyLoaderOptions } from '../src/types';
+import { IconifyGenerator } from '../src/generators/iconify-generator';
+import { FileReader } from '../src/utils/file-reader';
+import { createSVG, withOutputDir } from './helpers';
+
+const icons = [
+  createSVG('home', '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M3 9l9-7 9 7v11H3z"/></svg>'),
+  createSVG('user', '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none"><circle cx="12" cy="8" r="4"/></svg>'),
+  createSVG('wide', '<svg xmlns="http://www.w3.org/2000/svg" viewBox="-2 0 32 24"><rect width="32" height="24"/></svg>'),
+  createSVG('house', '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M3 9l9-7 9 7v11H3z"/></svg>')
+];
+
+/**
+ * Writes a collection and reads it back
+ */
+async function writeCollection(svgs: typeof icons, options: IconifyLoaderOptions): Promise<{ file: string; collection: IconifyJSON }> {
+  const file = await IconifyGenerator.generateCollectionFile(svgs, options);
+  return { file, collection: JSON.parse(await fs.readFile(file, 'utf-8')) };
+}
+
+describe('IconifyGenerator', () => {
+  it('hoists the most common dimensions and aliases identical icons', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'iconify', iconifyOptions: { prefix: 'app' } };
+      const { file, collection } = await writeCollection(icons, options);
+
+      expect(path.basename(file)).toBe('app.json');
+      expect(collection).toEqual({
+        prefix: 'app',
+        icons: {
+          home: { body: '<path d="M3 9l9-7 9 7v11H3z"/>' },
+          user: { body: '<g fill="none"><circle cx="12" cy="8" r="4"/></g>' },
+          wide: { body: '<rect width="32" height="24"/>', left: -2, width: 32 }
+        },
+        aliases: {
+          house: { parent: 'home' }
+        },
+        width: 24,
+        height: 24
+      });
+    }));
+
+  it('round-trips a collection through the loader input', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'iconify' };
+      const { file, collection } = await writeCollection(icons, options);
+
+      const files = await FileReader.readIconifyCollections([file]);
+      expect(files.map(({ name }) => name)).toEqual(['home', 'user', 'wide', 'house']);
+      expect(files.find(({ name }) => name === 'wide')?.content).toContain('width="32" height="24" viewBox="-2 0 32 24"');
+
+      const reread = files.map(({ name, content }) => createSVG(name, content as string));
+      const secondDir = path.join(outputDir, 'second');
+      await fs.mkdir(secondDir);
+      const second = await writeCollection(reread, { ...options, outputDir: secondDir });
+
+      expect(second.collection).toEqual(collection);
+    }));
+
+  it('bakes alias transformations into the regenerated icons', () =>
+    withOutputDir(async outputDir => {
+      const source: IconifyJSON = {
+        prefix: 'arrows',
+        width: 24,
+        height: 16,
+        icons: { right: { body: '<path d="M0 0h24L12 16z"/>' } },
+        aliases: {
+          left: { parent: 'right', hFlip: true },
+          down: { parent: 'right', rotate: 1 }
+        }
+      };
+      const sourceFile = path.join(outputDir, 'source.json');
+      await fs.writeFile(sourceFile, JSON.stringify(source));
+
+      const reread = (await FileReader.readIconifyCollections([sourceFile]))
+        .map(({ name, content }) => createSVG(name, content as string));
+      const { collection } = await writeCollection(reread, { inputDir: '.', outputDir, format: 'iconify' });
+
+      expect(collection.icons).toEqual({
+        right: { body: '<path d="M0 0h24L12 16z"/>' },
+        left: { body: '<g transform="translate(24 0) scale(-1 1)"><path d="M0 0h24L12 16z"/></g>' },
+        down: { body: '<g transform="rotate(90 8 8)"><path d="M0 0h24L12 16z"/></g>', width: 16, height: 24 }
+      });
+      expect([collection.width, collection.height]).toEqual([24, 16]);
+    }));
+
+  it('rejects icons that map to the same name', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'iconify' };
+      const duplicate = createSVG('Home', '<svg viewBox="0 0 24 24"/>');
+
+      await expect(IconifyGenerator.generateCollectionFile([icons[0]!, duplicate], options))
+        .rejects.toThrow('Duplicate Iconify icon name "home"');
+    }));
+});
@@ -0,0 +1,119 @@
+import { JSXTransformer } from '../src/utils/jsx-transformer';
+import { SVGParser } from '../src/utils/svg-parser';
+
+describe('JSXTransformer', () => {
+  describe('toJSXAttributeName', () => {
+    it('camelCases presentation attributes', () => {
+      expect(JSXTransformer.toJSXAttributeName('stroke-width')).toBe('strokeWidth');
+      expect(JSXTransformer.toJSXAttributeName('clip-rule')).toBe('clipRule');
+    });
+
+    it('maps reserved names to their React props', () => {
+      expect(JSXTransformer.toJSXAttributeName('class')).toBe('className');
+      expect(JSXTransformer.toJSXAttributeName('tabindex')).toBe('tabIndex');
+    });
+
+    it('keeps data-* and aria-* attributes', () => {
+      expect(JSXTransformer.toJSXAttributeName('data-icon')).toBe('data-icon');
+      expect(JSXTransformer.toJSXAttributeName('aria-label')).toBe('aria-label');
+    });
+
+    it('camelCases known namespaces and drops editor namespaces', () => {
+      expect(JSXTransformer.toJSXAttributeName('xlink:href')).toBe('xlinkHref');
+      expect(JSXTransformer.toJSXAttributeName('xml:space')).toBe('xmlSpace');
+      expect(JSXTransformer.toJSXAttributeName('sodipodi:docname')).toBeNull();
+    });
+
+    it('drops inline event handlers in every dialect', () => {
+      expect(JSXTransformer.toJSXAttributeName('onclick')).toBeNull();
+      expect(JSXTransformer.toDOMAttributeName('onload')).toBeNull();
+      expect(JSXTransformer.toNativeAttributeName('onClick')).toBeNull();
+      expect(JSXTransformer.renderAttributes({ onclick: 'alert(1)', opacity: '0.5' })).toEqual(['opacity="0.5"']);
+    });
+  });
+
+  describe('toDOMAttributeName', () => {
+    it('keeps SVG attribute names', () => {
+      expect(JSXTransformer.toDOMAttributeName('stroke-width')).toBe('stroke-width');
+      expect(JSXTransformer.toDOMAttributeName('class')).toBe('class');
+    });
+
+    it('maps xlink:href to href and drops other namespaced attributes', () => {
+      expect(JSXTransformer.toDOMAttributeName('xlink:href')).toBe('href');
+      expect(JSXTransformer.toDOMAttributeName('xmlns:xlink')).toBeNull();
+      expect(JSXTransformer.toDOMAttributeName('xml:space')).toBeNull();
+    });
+
+    it('does not repeat href when both forms are present', () => {
+      expect(JSXTransformer.renderAttributes({ href: '#a', 'xlink:href': '#a' }, 'dom')).toEqual(['href="#a"']);
+    });
+  });
+
+  describe('toNativeAttributeName', () => {
+    it('maps xlink:href to href and drops attributes without a native prop', () => {
+      expect(JSXTransformer.toNativeAttributeName('xlink:href')).toBe('href');
+      expect(JSXTransformer.toNativeAttributeName('class')).toBeNull();
+      expect(JSXTransformer.toNativeAttributeName('aria-hidden')).toBeNull();
+      expect(JSXTransformer.toNativeAttributeName('fill-rule')).toBe('fillRule');
+    });
+  });
+
+  describe('styleToObject', () => {
+    it('converts declarations to React style keys', () => {
+      expect(JSXTransformer.styleToObject('fill: red; stroke-width:2; -webkit-transform: none; --accent: blue')).toEqual({
+        fill: 'red',
+        strokeWidth: '2',
+        WebkitTransform: 'none',
+        '--accent': 'blue'
+      });
+    });
+  });
+
+  describe('mergeAttributes', () => {
+    it('treats names rendering as the same prop as one attribute', () => {
+      expect(JSXTransformer.mergeAttributes([{ className: 'icon', 'stroke-width': 2 }, { class: 'ic', strokeWidth: '1' }])).toEqual({
+        class: 'ic',
+        strokeWidth: '1'
+      });
+      expect(JSXTransformer.mergeAttributes([{ class: 'icon' }, { className: 'ic' }], 'dom')).toEqual({
+        class: 'icon',
+        className: 'ic'
+      });
+    });
+  });
+
+  describe('renderAttributes', () => {
+    it('renders style objects and escapes values in the react dialect', () => {
+      expect(JSXTransformer.renderAttributes({ style: 'fill:red', 'data-label': 'a "b"' })).toEqual([
+        "style={{ fill: 'red' }}",
+        'data-label={"a \\"b\\""}'
+      ]);
+    });
+
+    it('spreads style declarations into props in the native dialect', () => {
+      expect(JSXTransformer.renderAttributes({ style: 'fill:red;-webkit-foo:1', class: 'icon' }, 'native')).toEqual([
+        'fill="red"'
+      ]);
+    });
+  });
+
+  describe('renderChildren', () => {
+    it('renders nested elements and drops editor elements', () => {
+      const root = SVGParser.parse(
+        '<svg xmlns:sodipodi="x"><sodipodi:namedview/><g fill-rule="evenodd"><path d="M0 0h24"/></g></svg>'
+      );
+
+      expect(JSXTransformer.renderChildren(root.children, '')).toBe(
+        '<g fillRule="evenodd">\n  <path d="M0 0h24" />\n</g>'
+      );
+    });
+
+    it('renders react-native-svg primitives in the native dialect', () => {
+      const root = SVGParser.parse('<svg><circle cx="12" cy="12" r="4"/><foo/></svg>');
+
+      expect(JSXTransformer.renderChildren(root.children, '', false, 'native')).toBe(
+        '<Circle cx="12" cy="12" r="4" />'
+      );
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { IconifyLoaderOptions, ReactOptions } from '../src/types';
+import { ReactGenerator } from '../src/generators/react-generator';
+import { createSVG, withOutputDir } from './helpers';
+
+const home = createSVG(
+  'home',
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" role="img" aria-hidden="true"><path d="M3 9l9-7 9 7v11H3z"/></svg>'
+);
+
+const render = (svgProps?: Record<string, unknown>, svg = home): Promise<string> =>
+  withOutputDir(async outputDir => {
+    const options: IconifyLoaderOptions = {
+      inputDir: '.',
+      outputDir,
+      format: 'react',
+      typescript: true,
+      ...(svgProps && { svgProps })
+    };
+    return fs.readFile(await ReactGenerator.generateComponentFile(svg, options), 'utf-8');
+  });
+
+describe('React generator', () => {
+  it('derives accessibility attributes from the title prop by default', async () => {
+    const content = await render();
+
+    expect(content).toContain(`role={title ? 'img' : undefined}`);
+    expect(content).toContain(`aria-hidden={title ? undefined : 'true'}`);
+    expect(content.match(/role=/g)).toHaveLength(1);
+  });
+
+  it('lets svgProps replace the accessibility defaults', async () => {
+    const content = await render({ role: 'presentation', 'aria-hidden': 'false', 'aria-label': 'Home' });
+
+    expect(content).toContain('role="presentation"');
+    expect(content).toContain('aria-hidden="false"');
+    expect(content).toContain('aria-label="Home"');
+    expect(content).toContain('aria-labelledby={title ? titleId : undefined}');
+    expect(content.match(/role=/g)).toHaveLength(1);
+    expect(content.match(/aria-hidden=/g)).toHaveLength(1);
+  });
+
+  it('renders each prop once when svgProps and the source use different names for it', async () => {
+    const icon = createSVG(
+      'badge',
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" class="ic" onclick="alert(1)"><circle cx="12" cy="12" r="8"/></svg>'
+    );
+    const content = await render({ className: 'icon', 'data-icon': 'badge' }, icon);
+
+    expect(content).toContain('className="ic"');
+    expect(content.match(/className=/g)).toHaveLength(1);
+    expect(content).toContain('data-icon="badge"');
+    expect(content).not.toMatch(/onclick|onClick/);
+  });
+
+  it('escapes the default fill', async () => {
+    const icon = createSVG(
+      'quote',
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="it's"><path d="M0 0h24v24H0z"/></svg>`
+    );
+
+    expect(await render(undefined, icon)).toContain(`fill = "it's",`);
+  });
+
+  it('writes an index whose IconComponents interface type-checks', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'react', typescript: true, generateIndex: true };
+      const result = await ReactGenerator.generateComponents([home], options);
+      const indexFile = path.join(outputDir, 'index.ts');
+
+      expect(result.success).toBe(true);
+      expect(await fs.readFile(indexFile, 'utf-8')).toContain("Home: typeof import('./Home').default;");
+
+      const program = ts.createProgram([indexFile], {
+        strict: true,
+        noEmit: true,
+        jsx: ts.JsxEmit.React,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        types: [],
+        typeRoots: []
+      });
+      // Only the index is checked, the components need React's types
+      const errors = ts.getPreEmitDiagnostics(program, program.getSourceFile(indexFile))
+        .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+      expect(errors).toEqual([]);
+    }));
+
+  describe('forwardRef and memo', () => {
+    const options = (outputDir: string, reactOptions: ReactOptions, typescript = false): IconifyLoaderOptions => ({
+      inputDir: '.',
+      outputDir,
+      format: 'react',
+      typescript,
+      reactOptions
+    });
+
+    /**
+     * Generates the JavaScript component and evaluates its default export with real React
+     */
+    const evaluate = (reactOptions: ReactOptions): Promise<any> =>
+      withOutputDir(async outputDir => {
+        const file = await ReactGenerator.generateComponentFile(home, options(outputDir, reactOptions));
+        const { outputText } = ts.transpileModule(await fs.readFile(file, 'utf-8'), {
+          compilerOptions: { module: ts.ModuleKind.CommonJS, jsx: ts.JsxEmit.React, esModuleInterop: true }
+        });
+        const exports: Record<string, any> = {};
+        new Function('require', 'exports', outputText)(require, exports);
+        return exports['default'];
+      });
+
+    it('leaves plain components unwrapped and unnamed', async () => {
+      const Home = await evaluate({});
+
+      expect(Home).toBeInstanceOf(Function);
+      expect(Home.displayName).toBeUndefined();
+      expect(Home({ size: 24 }).props).toMatchObject({ width: 24, height: 24 });
+    });
+
+    it('forwards the ref to the <svg> element', async () => {
+      const Home = await evaluate({ forwardRef: true });
+      const ref = { current: null };
+
+      expect(Home.$$typeof).toBe(Symbol.for('react.forward_ref'));
+      expect(Home.displayName).toBe('Home');
+      expect(Home.render({ size: 24 }, ref)).toMatchObject({ type: 'svg', props: { ref, width: 24 } });
+    });
+
+    it('memoizes the named component', async () => {
+      const Home = await evaluate({ memo: true });
+
+      expect(Home.$$typeof).toBe(Symbol.for('react.memo'));
+      expect(Home.type).toBeInstanceOf(Function);
+      expect(Home.type.displayName).toBe('Home');
+    });
+
+    it('memoizes the forwarding component', async () => {
+      const Home = await evaluate({ forwardRef: true, memo: true });
+
+      expect(Home.$$typeof).toBe(Symbol.for('react.memo'));
+      expect(Home.type.$$typeof).toBe(Symbol.for('react.forward_ref'));
+      expect(Home.type.displayName).toBe('Home');
+    });
+
+    it('type-checks refs to the <svg> element', () =>
+      withOutputDir(async outputDir => {
+        const variants: Array<[string, ReactOptions]> = [
+          ['forward', { forwardRef: true }],
+          ['memo', { memo: true }],
+          ['both', { forwardRef: true, memo: true }]
+        ];
+        const files: string[] = [];
+
+        for (const [name, reactOptions] of variants) {
+          const dir = path.join(outputDir, name);
+          await fs.mkdir(dir);
+          await ReactGenerator.generateComponentFile(home, options(dir, reactOptions, true));
+
+          const usage = path.join(dir, 'usage.tsx');
+          const refs = reactOptions.forwardRef
+            ? [
+              'export const ref = <Home ref={React.createRef<SVGSVGElement>()} />;',
+              '// @ts-expect-error the ref points to the <svg> element',
+              'export const wrongRef = <Home ref={React.createRef<HTMLDivElement>()} />;'
+            ]
+            : [];
+          await fs.writeFile(usage, [
+            "import React from 'react';",
+            "import Home, { HomeProps } from './Home';",
+            "const props: HomeProps = { size: 24, title: 'Home' };",
+            'export const element = <Home {...props} />;',
+            'export const name: string | undefined = Home.displayName;',
+            ...refs
+          ].join('\n'));
+          files.push(usage);
+        }
+
+        const program = ts.createProgram(files, {
+          strict: true,
+          noEmit: true,
+          jsx: ts.JsxEmit.React,
+          module: ts.ModuleKind.ESNext,
+          target: ts.ScriptTarget.ES2019,
+          moduleResolution: ts.ModuleResolutionKind.Node10,
+          esModuleInterop: true,
+          skipLibCheck: true,
+          types: [],
+          typeRoots: [path.join(__dirname, '..', 'node_modules', '@types')]
+        });
+        const errors = ts.getPreEmitDiagnostics(program)
+          .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+        expect(errors).toEqual([]);
+      }));
+  });
+
+  describe('dynamic Icon', () => {
+    const options = (outputDir: string, typescript: boolean): IconifyLoaderOptions => ({
+      inputDir: '.',
+      outputDir,
+      format: 'react',
+      typescript,
+      reactOptions: { dynamicIcon: true }
+    });
+
+    it('renders known names and nothing for unknown or inherited names', () =>
+      withOutputDir(async outputDir => {
+        const file = await ReactGenerator.generateDynamicIconFile([home], options(outputDir, false));
+        const { outputText } = ts.transpileModule(await fs.readFile(file, 'utf-8'), {
+          compilerOptions: { module: ts.ModuleKind.CommonJS, jsx: ts.JsxEmit.React, esModuleInterop: true }
+        });
+        const exports: Record<string, any> = {};
+        new Function('require', 'exports', outputText)(require, exports);
+        const Icon = exports['default'];
+
+        expect(exports['iconNames']).toEqual(['home']);
+        expect(Icon({ name: 'home', size: 24 })).toMatchObject({ props: { fallback: null, children: { props: { size: 24 } } } });
+        for (const name of ['missing', 'constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+          expect(Icon({ name })).toBeNull();
+        }
+      }));
+
+    it('type-checks with the generated components', () =>
+      withOutputDir(async outputDir => {
+        await ReactGenerator.generateComponentFile(home, options(outputDir, true));
+        const file = await ReactGenerator.generateDynamicIconFile([home], options(outputDir, true));
+        const usage = path.join(outputDir, 'usage.tsx');
+        await fs.writeFile(usage, [
+          "import React from 'react';",
+          "import Icon, { IconName, iconNames } from './Icon';",
+          "const name: IconName = 'home';",
+          'export const icons: IconName[] = iconNames;',
+          'export const element = <Icon name={name} size={24} fallback={<span />} />;',
+          '// @ts-expect-error unknown icon names are rejected',
+          "export const unknown = <Icon name=\"constructor\" />;"
+        ].join('\n'));
+
+        const program = ts.createProgram([file, usage], {
+          strict: true,
+          noEmit: true,
+          jsx: ts.JsxEmit.React,
+          module: ts.ModuleKind.ESNext,
+          target: ts.ScriptTarget.ES2019,
+          moduleResolution: ts.ModuleResolutionKind.Node10,
+          esModuleInterop: true,
+          skipLibCheck: true,
+          types: [],
+          typeRoots: [path.join(__dirname, '..', 'node_modules', '@types')]
+        });
+        const errors = ts.getPreEmitDiagnostics(program)
+          .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+        expect(errors).toEqual([]);
+      }));
+  });
+});
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IconifyLoaderOptions } from '../src/types';
+import { ReactNativeGenerator } from '../src/generators/react-native-generator';
+import { createSVG, withOutputDir } from './helpers';
+
+const badge = createSVG(
+  'badge',
+  '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ' +
+    'xmlns:sodipodi="http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd" viewBox="0 0 24 24" ' +
+    'class="icon" aria-label="Badge" stroke-linecap="round">' +
+    '<title>Badge</title>' +
+    '<sodipodi:namedview/>' +
+    '<defs>' +
+      '<linearGradient id="g"><stop offset="0" stop-color="red"/></linearGradient>' +
+      '<filter id="f"><feGaussianBlur stdDeviation="1"/></filter>' +
+    '</defs>' +
+    '<style>.a{fill:red}</style>' +
+    '<g filter="url(#f)" style="fill-opacity:0.5;-webkit-mask:none">' +
+      '<path class="a" stroke-width="2" fill-rule="evenodd" onclick="x()" d="M0 0h24v24z"/>' +
+    '</g>' +
+    '<use xlink:href="#p"/>' +
+    '<foreignObject width="4" height="4"/>' +
+    '<foreignObject width="8" height="8"/>' +
+  '</svg>'
+);
+
+const dot = createSVG('dot', '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 8 8"><circle cx="4" cy="4" r="4"/></svg>');
+
+describe('ReactNativeGenerator', () => {
+  it('maps elements and attributes to react-native-svg primitives and props', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'react-native', typescript: true };
+      const { files: [file] } = await ReactNativeGenerator.generateIconOutput(badge, options);
+      const content = await fs.readFile(file as string, 'utf-8');
+
+      expect(path.basename(file as string)).toBe('Badge.tsx');
+      expect(content).toContain(
+        "import Svg, { Defs, G, LinearGradient, Path, Stop, Use, type SvgProps } from 'react-native-svg';"
+      );
+      expect(content).toContain('export interface BadgeProps extends SvgProps {');
+      expect(content).toContain(`      viewBox="0 0 24 24"
+      strokeLinecap="round"
+      {...props}
+    >
+      <Defs>
+        <LinearGradient id="g">
+          <Stop offset="0" stopColor="red" />
+        </LinearGradient>
+      </Defs>
+      <G fillOpacity="0.5">
+        <Path strokeWidth="2" fillRule="evenodd" d="M0 0h24v24z" />
+      </G>
+      <Use href="#p" />
+    </Svg>`);
+      // Classes, aria-*, event handlers, namespaces and descriptive elements have no native equivalent
+      expect(content).not.toMatch(/class|aria|onClick|onclick|xmlns|sodipodi|Title|Badge<\//);
+    }));
+
+  it('warns once per kind of removed content', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'react-native' };
+      const output = await ReactNativeGenerator.generateIconOutput(badge, options);
+
+      expect(output.warnings).toEqual([
+        'badge: <filter> is not supported by react-native-svg and was removed',
+        'badge: <style> is not supported by react-native-svg and was removed',
+        'badge: filter attributes are not supported by react-native-svg and were removed',
+        'badge: <foreignObject> is not supported by react-native-svg and was removed'
+      ]);
+      expect(output.diagnostics).toHaveLength(4);
+      expect(output.diagnostics[0]).toEqual({
+        file: 'badge.svg',
+        code: 'UNSUPPORTED_CONTENT',
+        message: '<filter> is not supported by react-native-svg and was removed',
+        phase: 'generate',
+        severity: 'warning'
+      });
+    }));
+
+  it('reports warnings without failing the icon set', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'react-native', generateIndex: true };
+      const result = await ReactNativeGenerator.generateComponents([badge, dot], options);
+      const dotContent = await fs.readFile(path.join(outputDir, 'Dot.jsx'), 'utf-8');
+
+      expect(result.success).toBe(true);
+      expect(result.files.map(file => path.basename(file))).toEqual(['Badge.jsx', 'Dot.jsx', 'index.js', 'index.d.ts']);
+      expect(result.warnings).toHaveLength(4);
+      expect(result.warnings.every(warning => warning.startsWith('badge: '))).toBe(true);
+      expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(Array(4).fill('UNSUPPORTED_CONTENT'));
+      expect(dotContent).toContain("import Svg, { Circle } from 'react-native-svg';");
+      expect(dotContent).toContain('<Circle cx="4" cy="4" r="4" />');
+    }));
+});
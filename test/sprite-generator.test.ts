@@ -0,0 +1,36 @@
+import { promises as fs } from 'fs';
+import { IconifyLoaderOptions } from '../src/types';
+import { SpriteGenerator } from '../src/generators/sprite-generator';
+import { createSVG, loadFixture, withOutputDir } from './helpers';
+
+describe('Sprite generator', () => {
+  it('prefixes ids inside each symbol and the references to them', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'sprite' };
+      const xlink = loadFixture('xlink');
+      const sprite = await fs.readFile(await SpriteGenerator.generateSpriteFile([xlink], options), 'utf-8');
+
+      expect(sprite).toContain('<linearGradient id="xlink-shade"');
+      expect(sprite).toContain('<path id="xlink-dot"');
+      expect(sprite).toContain('<use xlink:href="#xlink-dot" fill="url(#xlink-shade)"/>');
+      expect(sprite).toContain('<use href="#xlink-dot" xlink:href="#xlink-dot" x="6"/>');
+    }));
+
+  it('keeps icons with the same internal ids apart', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'sprite' };
+      const icon = (name: string, color: string) => createSVG(
+        name,
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><style>#a{fill:${color}}</style><clipPath id="a"><rect width="12" height="24"/></clipPath><circle id="b" r="8" style="clip-path:url('#a')" aria-labelledby="a missing"/></svg>`
+      );
+      const sprite = await fs.readFile(
+        await SpriteGenerator.generateSpriteFile([icon('sun', 'gold'), icon('moon', 'gray')], options),
+        'utf-8'
+      );
+
+      expect(sprite).toContain('<style>#sun-a{fill:gold}</style><clipPath id="sun-a">');
+      expect(sprite).toContain(`<circle id="sun-b" r="8" style="clip-path:url('#sun-a')" aria-labelledby="sun-a missing"/>`);
+      expect(sprite).toContain('<style>#moon-a{fill:gray}</style><clipPath id="moon-a">');
+      expect(sprite).not.toMatch(/id="[ab]"|#[ab]\b/);
+    }));
+});
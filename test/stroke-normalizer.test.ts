@@ -0,0 +1,114 @@
+import { promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
+import { SVGParser } from '../src/utils/svg-parser';
+import { StrokeNormalizer } from '../src/utils/stroke-normalizer';
+import { ReactGenerator } from '../src/generators/react-generator';
+import { SVGGenerator } from '../src/generators/svg-generator';
+import { createSVG, withOutputDir } from './helpers';
+
+const home = readFileSync(path.join(__dirname, '..', 'example-icons', 'home.svg'), 'utf-8');
+
+describe('StrokeNormalizer', () => {
+  it('detects strokes set on descendants', () => {
+    expect(StrokeNormalizer.getStrokeWidth(SVGParser.parse(home))).toBe(2);
+  });
+
+  it('prefers the root stroke width, then the most common one', () => {
+    expect(StrokeNormalizer.getStrokeWidth(SVGParser.parse('<svg stroke="red" stroke-width="1.5"><path stroke-width="2"/></svg>'))).toBe(1.5);
+    expect(StrokeNormalizer.getStrokeWidth(SVGParser.parse(
+      '<svg stroke="red"><path stroke-width="1"/><path stroke-width="3"/><path stroke-width="3"/></svg>'
+    ))).toBe(3);
+    expect(StrokeNormalizer.getStrokeWidth(SVGParser.parse('<svg><path style="stroke: red"/></svg>'))).toBe(1);
+  });
+
+  it('reads widths in pixels as numbers and ignores other units', () => {
+    expect(StrokeNormalizer.getStrokeWidth(SVGParser.parse('<svg stroke="red" stroke-width="1.5px"><path/></svg>'))).toBe(1.5);
+    expect(StrokeNormalizer.getStrokeWidth(SVGParser.parse(
+      '<svg stroke="red" stroke-width="10%"><path style="stroke-width: 2px"/><path/></svg>'
+    ))).toBe(2);
+  });
+
+  it('ignores filled icons, including those with a few stroked details', () => {
+    expect(StrokeNormalizer.getStrokeWidth(SVGParser.parse('<svg fill="red"><path stroke="none"/></svg>'))).toBeUndefined();
+    expect(StrokeNormalizer.getStrokeWidth(SVGParser.parse(
+      '<svg><path d="M0 0h24v24H0z"/><circle r="4"/><path stroke="white" stroke-width="2"/></svg>'
+    ))).toBeUndefined();
+    expect(StrokeNormalizer.getStrokeWidth(SVGParser.parse(
+      '<svg><defs><path id="a" stroke="red"/><path id="b" stroke="red"/></defs><path/></svg>'
+    ))).toBeUndefined();
+  });
+
+  it('removes only the widths matching the icon width, including inline styles', () => {
+    const root = SVGParser.parse(
+      '<svg><path stroke-width="2"/><g><path stroke-width="2px"/></g><path stroke-width="1"/>' +
+      '<path style="fill:none;stroke-width:2"/><path style="stroke-width: 2"/><path style="stroke-width:1"/></svg>'
+    );
+
+    StrokeNormalizer.inheritStrokeWidth(root, 2);
+
+    expect(SVGParser.stringify(root)).toBe(
+      '<svg><path/><g><path/></g><path stroke-width="1"/><path style="fill:none"/><path/><path style="stroke-width:1"/></svg>'
+    );
+  });
+});
+
+describe('stroke width control', () => {
+  it('gives outline icons with stroked shapes a strokeWidth prop', () =>
+    withOutputDir(async outputDir => {
+      const file = await ReactGenerator.generateComponentFile(createSVG('home', home), {
+        inputDir: '.',
+        outputDir,
+        format: 'react',
+        typescript: true
+      });
+      const component = await fs.readFile(file, 'utf-8');
+
+      expect(component).toContain('  strokeWidth = 2,\n  absoluteStrokeWidth = false,\n');
+      expect(component).toContain('strokeWidth={absoluteStrokeWidth && pixels > 0 ? (parseFloat(String(strokeWidth)) * 24) / pixels : strokeWidth}');
+      expect(component).not.toContain('strokeWidth="2"');
+    }));
+
+  it('defaults strokeWidth to a number when the icon gives it in pixels', () =>
+    withOutputDir(async outputDir => {
+      const icon = createSVG(
+        'line',
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" style="stroke-width:1.5px"><path d="M4 12h16"/></svg>'
+      );
+      const file = await ReactGenerator.generateComponentFile(icon, { inputDir: '.', outputDir, format: 'react' });
+      const component = await fs.readFile(file, 'utf-8');
+
+      expect(component).toContain('  strokeWidth = 1.5,\n');
+      expect(component).not.toContain('stroke-width');
+      expect(component).not.toContain('1.5px');
+    }));
+
+  it('converts em and px sizes to pixels for absolute stroke widths', () =>
+    withOutputDir(async outputDir => {
+      const file = await ReactGenerator.generateComponentFile(createSVG('home', home), { inputDir: '.', outputDir, format: 'react' });
+      const component = await fs.readFile(file, 'utf-8');
+      const sizeToPixels = (size: number | string): number => {
+        const statements = component.slice(component.indexOf('  const sizeMatch'), component.indexOf('  return ('));
+        return new Function('size', `${statements} return pixels;`)(size);
+      };
+
+      expect(sizeToPixels('1em')).toBe(16);
+      expect(sizeToPixels('1.5rem')).toBe(24);
+      expect(sizeToPixels('32px')).toBe(32);
+      expect(sizeToPixels(48)).toBe(48);
+      expect(sizeToPixels('100%')).toBe(0);
+    }));
+
+  it('replaces shape widths in SVG output', () =>
+    withOutputDir(async outputDir => {
+      const file = await SVGGenerator.generateSVGFile(createSVG('home', home), {
+        inputDir: '.',
+        outputDir,
+        format: 'svg',
+        strokeOptions: { strokeWidth: 1.5 }
+      });
+      const content = await fs.readFile(file, 'utf-8');
+
+      expect(content).toContain('stroke-width="1.5"');
+      expect(content).not.toContain('stroke-width="2"');
+    }));
+});
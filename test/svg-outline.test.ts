@@ -0,0 +1,64 @@
+import { SVGParser } from '../src/utils/svg-parser';
+import { SVGOutline } from '../src/utils/svg-outline';
+
+const outline = (content: string) =>
+  SVGOutline.fromSVG(SVGParser.parse(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">${content}</svg>`, 'test'));
+
+describe('SVG outline', () => {
+  it('converts a rect into one closed contour', () => {
+    const { contours, warnings } = outline('<rect x="2" y="4" width="10" height="6"/>');
+
+    expect(warnings).toEqual([]);
+    expect(contours).toHaveLength(1);
+    expect(contours[0]?.every(point => point.onCurve)).toBe(true);
+    expect(contours[0]?.map(({ x, y }) => [x, y])).toEqual(
+      expect.arrayContaining([[2, 4], [12, 4], [12, 10], [2, 10]])
+    );
+  });
+
+  it('applies transforms of the shape and its groups', () => {
+    const { contours } = outline('<g transform="translate(10 20)"><rect width="2" height="2" transform="scale(2)"/></g>');
+    const xs = contours[0]?.map(point => point.x) ?? [];
+    const ys = contours[0]?.map(point => point.y) ?? [];
+
+    expect([Math.min(...xs), Math.max(...xs)]).toEqual([10, 14]);
+    expect([Math.min(...ys), Math.max(...ys)]).toEqual([20, 24]);
+  });
+
+  it('parses and composes transform lists', () => {
+    expect(SVGOutline.parseTransform('translate(5)')).toEqual([1, 0, 0, 1, 5, 0]);
+    expect(SVGOutline.parseTransform('scale(2, 3)')).toEqual([2, 0, 0, 3, 0, 0]);
+    expect(SVGOutline.parseTransform('translate(1 2) scale(2)')).toEqual([2, 0, 0, 2, 1, 2]);
+
+    const [a, b, c, d, e, f] = SVGOutline.parseTransform('rotate(90 12 12)');
+    expect([a, b, c, d, e, f].map(value => Math.round(value))).toEqual([0, 1, -1, 0, 24, 0]);
+    expect(SVGOutline.multiply(SVGOutline.IDENTITY, [2, 0, 0, 2, 3, 4])).toEqual([2, 0, 0, 2, 3, 4]);
+  });
+
+  it('skips stroked shapes, unsupported elements and hidden content with warnings', () => {
+    const { contours, warnings } = outline(
+      '<path d="M2 2L22 22" fill="none" stroke="currentColor"/>' +
+      '<text x="2" y="12">A</text><image href="a.png" width="4" height="4"/>' +
+      '<g style="display: none"><rect width="24" height="24"/></g>'
+    );
+
+    expect(contours).toEqual([]);
+    expect(warnings).toEqual([
+      'Stroked shapes cannot be represented in a font and were skipped; convert strokes to fills first',
+      '<text> elements cannot be converted to glyph outlines and were skipped',
+      '<image> elements cannot be converted to glyph outlines and were skipped'
+    ]);
+  });
+
+  it('approximates curves with quadratic off-curve points', () => {
+    const { contours } = outline('<circle cx="12" cy="12" r="10"/>');
+
+    expect(contours).toHaveLength(1);
+    expect(contours[0]?.some(point => !point.onCurve)).toBe(true);
+    for (const point of contours[0] ?? []) {
+      if (point.onCurve) {
+        expect(Math.hypot(point.x - 12, point.y - 12)).toBeCloseTo(10, 0);
+      }
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import { SVGProcessingError } from '../src/types';
+import { SVGParser } from '../src/utils/svg-parser';
+import { FileReader } from '../src/utils/file-reader';
+
+const parseError = (content: string): SVGProcessingError => {
+  try {
+    SVGParser.parse(content, 'icon.svg');
+  } catch (error) {
+    if (error instanceof SVGProcessingError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected the content to be rejected');
+};
+
+describe('SVGParser', () => {
+  it('reports the line and column of malformed markup', () => {
+    const error = parseError('<svg>\n  <path d="M0 0"\n  <g/>\n</svg>');
+
+    expect(error.message).toBe('icon.svg:3:3: Malformed attribute in <path>');
+    expect(error.details).toMatchObject({ fileName: 'icon.svg', line: 3, column: 3 });
+    expect(parseError('<svg>\n<g></svg>').message).toBe('icon.svg:2:4: Unexpected closing tag </svg>');
+  });
+
+  it('rejects duplicate attributes', () => {
+    expect(parseError('<svg>\n  <rect width="1" width="2"/></svg>').message).toBe(
+      'icon.svg:2:19: Duplicate attribute "width" in <rect>'
+    );
+  });
+
+  it('decodes character references and predefined entities', () => {
+    const root = SVGParser.parse('<svg aria-label="a &amp; &#x42; &#67;"><title>&lt;&apos;&quot;&gt;</title></svg>');
+
+    expect(root.attributes['aria-label']).toBe('a & B C');
+    expect(root.children[0]).toMatchObject({ children: [{ type: 'text', value: `<'">` }] });
+  });
+
+  it('rejects invalid character references and undeclared entities where they occur', () => {
+    expect(parseError('<svg>\n  <text>&#x110000;</text></svg>').message).toBe('icon.svg:2:9: Invalid character reference &#x110000;');
+    expect(parseError('<svg><text>&#0;</text></svg>').message).toBe('icon.svg:1:12: Invalid character reference &#0;');
+    expect(parseError('<svg>\n<g id="a &foo;"/></svg>').message).toBe('icon.svg:2:10: Undefined entity &foo;');
+    expect(parseError('<svg><text>&nbsp;</text></svg>').message).toBe('icon.svg:1:12: Undefined entity &nbsp;');
+    expect(parseError('<svg><text>&constructor;</text></svg>').message).toBe('icon.svg:1:12: Undefined entity &constructor;');
+  });
+
+  it('reads entities declared in the DOCTYPE internal subset', () => {
+    const root = SVGParser.parse(
+      '<?xml version="1.0"?>\n' +
+      '<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd" [\n' +
+      '  <!ENTITY ns_svg "http://www.w3.org/2000/svg">\n' +
+      "  <!ENTITY % param 'ignored'>\n" +
+      '  <!ENTITY ns_svg "redeclared">\n' +
+      ']>\n' +
+      '<svg xmlns="&ns_svg;"><path d="M0 0"/></svg>'
+    );
+
+    expect(root.attributes['xmlns']).toBe('http://www.w3.org/2000/svg');
+    expect(root.children).toHaveLength(1);
+  });
+
+  it('keeps CDATA sections as raw text and writes them back', () => {
+    const source = '<svg><style><![CDATA[.a > .b { fill: red }]]></style></svg>';
+    const root = SVGParser.parse(source);
+
+    expect(root.children[0]).toMatchObject({ children: [{ type: 'text', value: '.a > .b { fill: red }', cdata: true }] });
+    expect(SVGParser.stringify(root)).toBe(source);
+    expect(parseError('<svg><style><![CDATA[a</style></svg>').message).toBe('icon.svg:1:13: Unterminated CDATA section');
+  });
+
+  it('extracts root attributes for metadata', () => {
+    expect(FileReader.extractSVGAttributes(
+      '<svg viewBox=" 0 0 24 24 " width="48px" height="32" fill="none" stroke="red" stroke-width="1.5" class="icon"><g width="1"/></svg>'
+    )).toEqual({
+      viewBox: '0 0 24 24',
+      width: 48,
+      height: 32,
+      fill: 'none',
+      stroke: 'red',
+      strokeWidth: 1.5,
+      className: 'icon'
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import { SVGSanitizer } from '../src/utils/svg-sanitizer';
+import { IconifyLoader } from '../src/core/iconify-loader';
+import { ReactGenerator } from '../src/generators/react-generator';
+import { withOutputDir } from './helpers';
+
+const svg = (body: string, attributes = '') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 24 24"${attributes}>${body}</svg>`;
+
+describe('SVGSanitizer', () => {
+  it('leaves safe content unchanged', () => {
+    const content = svg('<defs><path id="a" d="M0 0h24"/></defs><use href="#a"/><image href="data:image/png;base64,AA=="/>');
+
+    expect(SVGSanitizer.sanitize(content)).toEqual({ content, removals: [] });
+  });
+
+  it('removes scripts, foreign objects and event handlers', () => {
+    const { content, removals } = SVGSanitizer.sanitize(
+      svg('<script>alert(1)</script><foreignObject><div/></foreignObject><path d="M0 0" onclick="x()"/>', ' onload="alert(2)"')
+    );
+
+    expect(content).not.toMatch(/script|foreignObject|onclick|onload/);
+    expect(removals).toEqual([
+      'Removed onload event handler from <svg>',
+      'Removed <script> element',
+      'Removed <foreignObject> element',
+      'Removed onclick event handler from <path>'
+    ]);
+  });
+
+  it('removes javascript: URLs, including obfuscated ones', () => {
+    const { content, removals } = SVGSanitizer.sanitize(
+      svg('<a href=" java\tscript:alert(1)"><path d="M0 0"/></a><a xlink:href="JAVASCRIPT:alert(2)"/>')
+    );
+
+    expect(content).not.toMatch(/script/i);
+    expect(removals).toEqual([
+      'Removed javascript: URL from href of <a>',
+      'Removed javascript: URL from xlink:href of <a>'
+    ]);
+  });
+
+  it('checks every entry of animation values', () => {
+    const { removals } = SVGSanitizer.sanitize(
+      svg('<a><animate attributeName="fill" values="#a; javascript:alert(1)"/></a>')
+    );
+
+    expect(removals).toEqual(['Removed javascript: URL from values of <animate>']);
+  });
+
+  it('removes animations of link targets and event handlers', () => {
+    const { content, removals } = SVGSanitizer.sanitize(
+      svg(
+        '<a href="#a"><animate attributeName="href" values="#a;javascript:alert(1)"/>' +
+        '<set attributeName="xlink:href" to="#b"/><set attributeName="onclick" to="alert(1)"/>' +
+        '<animate attributeName="opacity" values="0;1"/></a>'
+      )
+    );
+
+    expect(content).toContain('<animate attributeName="opacity" values="0;1"/>');
+    expect(removals).toEqual([
+      'Removed <animate> animating href',
+      'Removed <set> animating xlink:href',
+      'Removed <set> animating onclick'
+    ]);
+  });
+
+  it('removes external references and remote imports', () => {
+    const { content, removals } = SVGSanitizer.sanitize(
+      svg(
+        '<style>@import url("https://example.com/a.css"); @import "local.css"; path { fill: red }</style>' +
+        '<use xlink:href="https://example.com/sprite.svg#icon"/><path d="M0 0" style="@import \'//example.com/b.css\'"/>'
+      )
+    );
+
+    expect(content).not.toContain('example.com');
+    expect(content).toContain('path { fill: red }');
+    expect(removals).toEqual([
+      'Removed @import of "https://example.com/a.css" from <style>',
+      'Removed @import of "local.css" from <style>',
+      'Removed external xlink:href "https://example.com/sprite.svg#icon" from <use>',
+      'Removed @import of "//example.com/b.css" from <path>'
+    ]);
+  });
+
+  it('only removes what the options enable', () => {
+    const { removals } = SVGSanitizer.sanitize(
+      svg('<script>alert(1)</script><use href="https://example.com/a.svg#b"/>'),
+      { scripts: false }
+    );
+
+    expect(removals).toEqual(['Removed external href "https://example.com/a.svg#b" from <use>']);
+  });
+});
+
+describe('sanitize option', () => {
+  const content = svg(
+    '<script>alert(1)</script><a href="#a"><animate attributeName="href" values="#a;javascript:alert(1)"/>' +
+    '<path d="M0 0h24v24H0z"/></a>'
+  );
+
+  it('reports removals and analyses the sanitized content', async () => {
+    const loader = new IconifyLoader({ inputDir: '.', format: 'react', sanitize: true, optimize: false });
+    const { svgs, diagnostics } = await loader.processSVGs([
+      { path: 'unsafe.svg', name: 'unsafe', extension: '.svg', content }
+    ]);
+
+    expect(diagnostics.map(({ code, phase, severity }) => ({ code, phase, severity }))).toEqual([
+      { code: 'UNSAFE_CONTENT', phase: 'sanitize', severity: 'warning' },
+      { code: 'UNSAFE_CONTENT', phase: 'sanitize', severity: 'warning' }
+    ]);
+    expect(svgs[0]?.metadata.analysis?.hasScript).toBe(false);
+    expect(svgs[0]?.metadata.analysis?.elements['animate']).toBeUndefined();
+
+    await withOutputDir(async outputDir => {
+      const file = await ReactGenerator.generateComponentFile(svgs[0]!, { inputDir: '.', outputDir, format: 'react' });
+      const component = await fs.readFile(file, 'utf-8');
+
+      expect(component).not.toMatch(/javascript|<script|<animate/);
+    });
+  });
+});
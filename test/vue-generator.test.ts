@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { IconifyLoaderOptions, ValidationError } from '../src/types';
+import { VueGenerator } from '../src/generators/vue-generator';
+import { createSVG, withOutputDir } from './helpers';
+
+const label = createSVG(
+  'label',
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" class="icon">' +
+    '<title>{{ constructor }}</title>' +
+    '<style><![CDATA[.a{fill:red}]]></style>' +
+    '<path class="a" d="M0 0h24v24H0z"/>' +
+  '</svg>'
+);
+
+/**
+ * Evaluates a generated render-function module against a stand-in for vue
+ */
+function evaluateModule(source: string): any {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS }
+  });
+  const vue = {
+    defineComponent: (component: unknown) => component,
+    h: (tag: string, props: unknown, children?: unknown) => ({ tag, props, children })
+  };
+  const exports: Record<string, any> = {};
+  new Function('require', 'exports', outputText)(() => vue, exports);
+  return exports['default'];
+}
+
+describe('VueGenerator', () => {
+  describe('single-file components', () => {
+    it('escapes interpolation delimiters in text and CDATA content', () =>
+      withOutputDir(async outputDir => {
+        const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'vue' };
+        const file = await VueGenerator.generateComponentFile(label, options);
+        const content = await fs.readFile(file, 'utf-8');
+
+        expect(path.basename(file)).toBe('Label.vue');
+        expect(content).not.toMatch(/\{\{|CDATA/);
+        expect(content).toContain('<title>&#123;&#123; constructor &#125;&#125;</title>');
+        expect(content).toContain('<component is="style">.a&#123;fill:red&#125;</component>');
+      }));
+
+    it('hoists the source attributes onto the bound <svg>', () =>
+      withOutputDir(async outputDir => {
+        const options: IconifyLoaderOptions = {
+          inputDir: '.',
+          outputDir,
+          format: 'vue',
+          typescript: true,
+          svgProps: { fill: 'red', role: 'img' }
+        };
+        const content = await fs.readFile(await VueGenerator.generateComponentFile(label, options), 'utf-8');
+
+        expect(content).toContain('export interface LabelProps {');
+        expect(content).toContain('fill: "red"');
+        expect(content).toContain('    :fill="fill"\n    viewBox="0 0 24 24"\n    aria-hidden="true"\n    role="img"\n    class="icon"\n  >');
+        expect(content).not.toContain('xmlns');
+      }));
+  });
+
+  describe('render-function modules', () => {
+    it('renders the icon with h() and keeps text as is', () =>
+      withOutputDir(async outputDir => {
+        const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'vue', vueOptions: { mode: 'render' } };
+        const file = await VueGenerator.generateComponentFile(label, options);
+        const component = evaluateModule(await fs.readFile(file, 'utf-8'));
+        const vnode = component.setup({ size: 24, fill: 'currentColor' })();
+
+        expect(path.basename(file)).toBe('Label.js');
+        expect(component.name).toBe('Label');
+        expect(vnode.props).toEqual({
+          width: 24,
+          height: 24,
+          fill: 'currentColor',
+          viewBox: '0 0 24 24',
+          'aria-hidden': 'true',
+          class: 'icon'
+        });
+        expect(vnode.children).toEqual([
+          { tag: 'title', props: null, children: '{{ constructor }}' },
+          { tag: 'style', props: null, children: '.a{fill:red}' },
+          { tag: 'path', props: { class: 'a', d: 'M0 0h24v24H0z' }, children: undefined }
+        ]);
+      }));
+
+    it('uses a TypeScript module with typescript enabled', () =>
+      withOutputDir(async outputDir => {
+        const options: IconifyLoaderOptions = {
+          inputDir: '.',
+          outputDir,
+          format: 'vue',
+          typescript: true,
+          vueOptions: { mode: 'render' }
+        };
+        const file = await VueGenerator.generateComponentFile(label, options);
+
+        expect(path.basename(file)).toBe('Label.ts');
+        expect(await fs.readFile(file, 'utf-8')).toContain('as PropType<number | string>');
+      }));
+  });
+
+  describe('index', () => {
+    it('writes type declarations for JavaScript output', () =>
+      withOutputDir(async outputDir => {
+        const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'vue', generateIndex: true };
+        const result = await VueGenerator.generateComponents([label], options);
+
+        expect(result.success).toBe(true);
+        expect(result.files.map(file => path.basename(file))).toEqual(['Label.vue', 'index.js', 'index.d.ts']);
+        expect(await fs.readFile(path.join(outputDir, 'index.js'), 'utf-8'))
+          .toBe("export { default as Label } from './Label.vue';\n");
+        expect(await fs.readFile(path.join(outputDir, 'index.d.ts'), 'utf-8'))
+          .toContain('export declare const Label: DefineComponent<IconProps>;');
+      }));
+
+    it('lists the components in the TypeScript index', () =>
+      withOutputDir(async outputDir => {
+        const options: IconifyLoaderOptions = {
+          inputDir: '.',
+          outputDir,
+          format: 'vue',
+          typescript: true,
+          generateIndex: true,
+          vueOptions: { mode: 'render' }
+        };
+        const output = await VueGenerator.generateAggregateOutput([label], options);
+
+        expect(output.files.map(file => path.basename(file))).toEqual(['index.ts']);
+        expect(await fs.readFile(path.join(outputDir, 'index.ts'), 'utf-8')).toBe(`import Label from './Label';
+
+export { default as Label } from './Label';
+
+export interface IconComponents {
+  Label: typeof Label;
+}
+`);
+      }));
+  });
+
+  it('rejects unknown modes', () => {
+    expect(() => VueGenerator.validateOptions({ mode: 'jsx' as never })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { IconifyLoaderOptions } from '../src/types';
+import { WebComponentGenerator } from '../src/generators/web-component-generator';
+import { createSVG, withOutputDir } from './helpers';
+
+/**
+ * Minimal stand-in for the DOM nodes the generated IconElement touches
+ */
+class FakeElement {
+  attributes: Record<string, string> = {};
+  children: FakeElement[] = [];
+  style: Record<string, string> = {};
+  textContent = '';
+
+  constructor(public localName: string) {}
+
+  setAttribute(name: string, value: string): void {
+    this.attributes[name] = value;
+  }
+
+  prepend(child: FakeElement): void {
+    this.children.unshift(child);
+  }
+
+  cloneNode(): FakeElement {
+    return this;
+  }
+}
+
+/**
+ * Renders an icon element through the generated base class and returns its <svg>
+ */
+async function renderElement(outputDir: string, svgMarkup: string, title: string): Promise<FakeElement> {
+  const source = await fs.readFile(path.join(outputDir, `${WebComponentGenerator.BASE_FILE}.js`), 'utf-8');
+  const rendered: FakeElement[] = [];
+
+  // The template parser only needs to recognise a top-level <title>
+  const createElement = (): unknown => {
+    const content: { firstElementChild?: FakeElement } = {};
+    return {
+      content,
+      set innerHTML(markup: string) {
+        const svg = new FakeElement('svg');
+        const match = /<title>([^<]*)<\/title>/.exec(markup);
+        if (match) {
+          svg.children.push(Object.assign(new FakeElement('title'), { textContent: match[1] }));
+        }
+        content.firstElementChild = svg;
+      }
+    };
+  };
+
+  const context = {
+    HTMLElement: class {
+      shadowRoot: unknown = null;
+      attachShadow(): void {
+        this.shadowRoot = { replaceChildren: () => undefined, append: (node: FakeElement) => rendered.push(node) };
+      }
+      getAttribute(name: string): string | null {
+        return name === 'title' ? title : null;
+      }
+    },
+    document: { createElement, createElementNS: (_namespace: string, name: string) => new FakeElement(name) },
+    Array,
+    Map
+  };
+  const IconElement: new () => { render(): void } = vm.runInNewContext(
+    `${source.replace('export class', 'class')}\nIconElement`,
+    context
+  );
+  const element = new (class extends IconElement {
+    getSVG(): string {
+      return svgMarkup;
+    }
+  })();
+  element.render();
+
+  return rendered.find(node => node.localName === 'svg') as FakeElement;
+}
+
+describe('Web component generator', () => {
+  it('replaces a <title> kept in the source SVG with the title attribute', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'web-component' };
+      const svg = createSVG(
+        'home',
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><title>Home</title><path d="M3 9l9-7 9 7v11H3z"/></svg>'
+      );
+      await WebComponentGenerator.generateWebComponents([svg], options);
+
+      const rendered = await renderElement(outputDir, svg.content, 'Go home');
+      const titles = rendered.children.filter(child => child.localName === 'title');
+
+      expect(titles.map(child => child.textContent)).toEqual(['Go home']);
+      expect(rendered.attributes['aria-label']).toBe('Go home');
+    }));
+
+  it('adds a <title> when the source SVG has none', () =>
+    withOutputDir(async outputDir => {
+      const options: IconifyLoaderOptions = { inputDir: '.', outputDir, format: 'web-component' };
+      const svg = createSVG('dot', '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><circle r="4"/></svg>');
+      await WebComponentGenerator.generateWebComponents([svg], options);
+
+      const rendered = await renderElement(outputDir, svg.content, 'Dot');
+
+      expect(rendered.children.map(child => child.textContent)).toEqual(['Dot']);
+    }));
+});